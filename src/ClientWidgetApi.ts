@@ -19,6 +19,7 @@ import { EventEmitter } from "events";
 import { ITransport } from "./transport/ITransport";
 import { Widget } from "./models/Widget";
 import { PostmessageTransport } from "./transport/PostmessageTransport";
+import { MessageChannelTransport } from "./transport/MessageChannelTransport";
 import { WidgetApiDirection } from "./interfaces/WidgetApiDirection";
 import { IWidgetApiRequest, IWidgetApiRequestEmptyData } from "./interfaces/IWidgetApiRequest";
 import { IContentLoadedActionRequest } from "./interfaces/ContentLoadedAction";
@@ -27,10 +28,17 @@ import { IWidgetApiErrorResponseData } from "./interfaces/IWidgetApiErrorRespons
 import {
     Capability,
     MatrixCapabilities,
+    getTimelineCapability,
     getTimelineRoomIDFromCapability,
     isTimelineCapability,
+    normalizeCapability,
 } from "./interfaces/Capabilities";
 import { IOpenIDUpdate, ISendEventDetails, ISendDelayedEventDetails, WidgetDriver } from "./driver/WidgetDriver";
+import {
+    IWidgetDriverFeatureDefinition,
+    WidgetDriverFeature,
+    WidgetDriverFeatures,
+} from "./driver/WidgetDriverFeature";
 import {
     ICapabilitiesActionResponseData,
     INotifyCapabilitiesActionRequestData,
@@ -53,6 +61,7 @@ import {
 import {
     ISendEventFromWidgetActionRequest,
     ISendEventFromWidgetResponseData,
+    ISendEventsToWidgetRequestData,
     ISendEventToWidgetRequestData,
 } from "./interfaces/SendEventAction";
 import {
@@ -61,6 +70,7 @@ import {
     ISendToDeviceToWidgetRequestData,
 } from "./interfaces/SendToDeviceAction";
 import { EventDirection, EventKind, WidgetEventCapability } from "./models/WidgetEventCapability";
+import { WidgetEventCapabilityIndex } from "./models/WidgetEventCapabilityIndex";
 import { IRoomEvent } from "./interfaces/IRoomEvent";
 import {
     IGetOpenIDActionRequest,
@@ -103,6 +113,8 @@ import {
     IUploadFileActionFromWidgetActionRequest,
     IUploadFileActionFromWidgetResponseData,
 } from "./interfaces/UploadFileAction";
+import { IUploadProgressActionRequestData } from "./interfaces/UploadProgressAction";
+import { IAbortRequestActionRequest } from "./interfaces/AbortRequestAction";
 import {
     IDownloadFileActionFromWidgetActionRequest,
     IDownloadFileActionFromWidgetResponseData,
@@ -110,6 +122,149 @@ import {
 import { IThemeChangeActionRequestData } from "./interfaces/ThemeChangeAction";
 import { IUpdateStateToWidgetRequestData } from "./interfaces/UpdateStateAction";
 import { IToDeviceMessage } from "./interfaces/IToDeviceMessage";
+import { ILogger, RedactingLogger, SilentLogger } from "./util/Logger";
+import { InvalidRequestError, validateRequest } from "./models/validation/requests";
+import { copyBinary, getTransferables } from "./util/transfer";
+import { IWidgetSessionStateChange, WidgetSessionState } from "./interfaces/WidgetSessionState";
+
+// The states each session state may move on to. Loading the widget again
+// restarts the session from any state but stopped.
+const SessionTransitions: Record<WidgetSessionState, WidgetSessionState[]> = {
+    [WidgetSessionState.Loading]: [
+        WidgetSessionState.AwaitingContentLoaded,
+        WidgetSessionState.Negotiating,
+        WidgetSessionState.Stopped,
+    ],
+    [WidgetSessionState.AwaitingContentLoaded]: [
+        WidgetSessionState.AwaitingContentLoaded,
+        WidgetSessionState.Negotiating,
+        WidgetSessionState.Failed,
+        WidgetSessionState.Stopped,
+    ],
+    [WidgetSessionState.Negotiating]: [
+        WidgetSessionState.AwaitingContentLoaded,
+        WidgetSessionState.Negotiating,
+        WidgetSessionState.Ready,
+        WidgetSessionState.Failed,
+        WidgetSessionState.Stopped,
+    ],
+    [WidgetSessionState.Ready]: [
+        WidgetSessionState.AwaitingContentLoaded,
+        WidgetSessionState.Negotiating,
+        WidgetSessionState.Renegotiating,
+        WidgetSessionState.Stopped,
+    ],
+    [WidgetSessionState.Renegotiating]: [
+        WidgetSessionState.AwaitingContentLoaded,
+        WidgetSessionState.Negotiating,
+        WidgetSessionState.Ready,
+        WidgetSessionState.Stopped,
+    ],
+    [WidgetSessionState.Failed]: [
+        WidgetSessionState.AwaitingContentLoaded,
+        WidgetSessionState.Negotiating,
+        WidgetSessionState.Stopped,
+    ],
+    [WidgetSessionState.Stopped]: [],
+};
+
+/**
+ * Tells the client when the widget has loaded, by dispatching a "load" event
+ * each time it does. Iframes are lifecycle sources, and so is any EventTarget
+ * the host dispatches "load" on itself, such as once a worker has started.
+ */
+export interface IWidgetLifecycleSource {
+    addEventListener(type: "load", listener: () => void): void;
+    removeEventListener(type: "load", listener: () => void): void;
+}
+
+export interface IWidgetReloadedEventDetail {
+    /**
+     * The capabilities the widget had been allowed before it reloaded.
+     */
+    previousCapabilities: Capability[];
+}
+
+/**
+ * How events fed to the widget are batched.
+ */
+export interface IEventBatchingOptions {
+    /**
+     * How long to wait for more events before sending a batch, in
+     * milliseconds. Defaults to 0, batching the events fed in the same task.
+     */
+    flushInterval?: number;
+
+    /**
+     * The most events to send in one batch. A batch is sent as soon as it is
+     * full. Defaults to 100.
+     */
+    maxBatchSize?: number;
+}
+
+interface IPendingEvent {
+    event: IRoomEvent;
+    resolve(): void;
+    reject(e: unknown): void;
+}
+
+export interface IClientWidgetApiOptions {
+    /**
+     * The transport to talk to the widget over. When supplied, no iframe is
+     * needed, such as for widgets running in a worker. Defaults to a
+     * postMessage transport for the iframe, which only accepts messages from
+     * the iframe's window at the widget's origin.
+     */
+    transport?: ITransport;
+
+    /**
+     * Where to learn that the widget has loaded from. Defaults to the iframe.
+     * Without an iframe or lifecycle source, the widget is considered loaded
+     * as soon as the API has been constructed.
+     */
+    lifecycle?: IWidgetLifecycleSource;
+
+    /**
+     * If true, capabilities the widget had been allowed before it reloaded are
+     * allowed again without asking the driver, which is only asked about the
+     * capabilities the widget didn't have before. Defaults to false, asking
+     * the driver about every capability again.
+     */
+    regrantCapabilitiesOnReload?: boolean;
+
+    /**
+     * If true, widgets may be granted event capabilities with patterns, which
+     * cover every event type or state key starting with a prefix (see
+     * {@link WidgetEventCapability}). Otherwise, requests for them are denied
+     * without asking the driver. Defaults to false. Either way, a trailing `*`
+     * is only a pattern for widgets advertising
+     * {@link UnstableApiVersion.EventCapabilityPatterns}.
+     */
+    allowEventCapabilityPatterns?: boolean;
+
+    /**
+     * If true, the client will advertise support for moving the communication
+     * with the widget onto a dedicated MessageChannel, and accept the widget's
+     * request to do so. Widgets which don't ask stay on postMessage. Ignored
+     * when a transport is supplied. Defaults to false.
+     */
+    useMessageChannel?: boolean;
+
+    /**
+     * The logger to write diagnostics to, including to the transport the API
+     * creates. Sensitive fields such as access tokens, passwords and event
+     * contents are redacted before reaching it. Defaults to logging nothing:
+     * pass a {@link ConsoleLogger} to log to the console.
+     */
+    logger?: ILogger;
+
+    /**
+     * Batches the events fed to widgets which accept them in batches. Events
+     * are sent individually when not set, and always to widgets which don't
+     * accept batches.
+     */
+    eventBatching?: IEventBatchingOptions;
+}
 
 /**
  * API handler for the client side of widgets. This raises events
@@ -133,17 +288,47 @@ import { IToDeviceMessage } from "./interfaces/IToDeviceMessage";
  * the widget is ready to receive communications - that is signified by
  * the ready event exclusively.
  *
+ * When the widget reloads, everything it was allowed and all work done for its
+ * previous page is dropped, and a "reloaded" CustomEvent is raised with an
+ * {@link IWidgetReloadedEventDetail} before capabilities are negotiated again.
+ *
+ * The session with the widget moves through the {@link WidgetSessionState}s,
+ * raising a "stateChanged" CustomEvent with an {@link IWidgetSessionStateChange}
+ * on each transition. Actions which don't fit the current state, such as the
+ * widget saying its content has loaded twice, are rejected.
+ *
+ * When the widget abandons a request it has sent, an
+ * `action:${WidgetApiFromWidgetAction.AbortRequest}` event is raised with
+ * the ID of the abandoned request, so that any work on it can be stopped.
+ * Replies to abandoned requests are ignored by the widget. Abandoned uploads
+ * are aborted through the signal given to the driver.
+ *
  * This class only handles one widget at a time.
  */
 export class ClientWidgetApi extends EventEmitter {
     public readonly transport: ITransport;
 
+    private readonly logger: ILogger;
+    private readonly lifecycle?: IWidgetLifecycleSource;
+    private readonly onTransportMessage = this.handleMessage.bind(this);
+    private readonly onLoadEvent = this.onWidgetLoad.bind(this);
     private cachedWidgetVersions: ApiVersion[] | null = null;
-    // contentLoadedActionSent is used to check that only one ContentLoaded request is send.
-    private contentLoadedActionSent = false;
+    private sessionState = WidgetSessionState.Loading;
+    // Whether the widget has loaded before, making any further load a reload
+    private loaded = false;
+    // Incremented whenever the widget reloads, so work for its previous page can tell it is stale
+    private session = 0;
+    private readonly regrantCapabilitiesOnReload: boolean;
+    private readonly allowEventCapabilityPatterns: boolean;
+    // Whether the widget's event capabilities may be patterns, rather than
+    // ending in a literal `*` as they did before patterns existed
+    private widgetUsesPatterns = false;
+    // Capabilities to allow again without asking the driver after a reload
+    private regrantedCapabilities = new Set<Capability>();
     private readonly allowedCapabilities = new Set<Capability>();
-    private readonly allowedEvents: WidgetEventCapability[] = [];
-    private isStopped = false;
+    // The allowed capabilities in their stable spelling, to look them up by either
+    private readonly normalizedCapabilities = new Set<Capability>();
+    private readonly allowedEvents = new WidgetEventCapabilityIndex();
     private turnServers: AsyncGenerator<ITurnServer> | null = null;
     private contentLoadedWaitTimer?: ReturnType<typeof setTimeout>;
     // Stores pending requests to push a room's state to the widget
@@ -151,22 +336,33 @@ export class ClientWidgetApi extends EventEmitter {
     // Room ID → event type → state key → events to be pushed
     private readonly pushRoomStateResult = new Map<string, Map<string, Map<string, IRoomEvent>>>();
     private flushRoomStateTask: Promise<void> | null = null;
+    // Request ID → controller to abort the driver's upload with
+    private readonly pendingUploads = new Map<string, AbortController>();
+    private readonly eventBatching: Required<IEventBatchingOptions> | null;
+    // Events waiting to be sent to the widget in the next batch
+    private pendingEvents: IPendingEvent[] = [];
+    private eventBatchTimer?: ReturnType<typeof setTimeout>;
 
     /**
      * Creates a new client widget API. This will instantiate the transport
      * and start everything. When the iframe is loaded under the widget's
      * conditions, a "ready" event will be raised.
      * @param {Widget} widget The widget to communicate with.
-     * @param {HTMLIFrameElement} iframe The iframe the widget is in.
+     * @param {HTMLIFrameElement|null} iframe The iframe the widget is in. May only
+     * be null if a transport is supplied through the options, such as when
+     * hosting the widget in a worker.
      * @param {WidgetDriver} driver The driver for this widget/client.
+     * @param {IClientWidgetApiOptions} options Additional options for the API.
      */
     public constructor(
         public readonly widget: Widget,
-        iframe: HTMLIFrameElement,
+        iframe: HTMLIFrameElement | null,
         private readonly driver: WidgetDriver,
+        options: IClientWidgetApiOptions = {},
     ) {
         super();
-        if (!iframe?.contentWindow) {
+        const contentWindow = iframe?.contentWindow;
+        if (!contentWindow && !options.transport) {
             throw new Error("No iframe supplied");
         }
         if (!widget) {
@@ -175,61 +371,131 @@ export class ClientWidgetApi extends EventEmitter {
         if (!driver) {
             throw new Error("Invalid driver");
         }
-        this.transport = new PostmessageTransport(
-            WidgetApiDirection.ToWidget,
-            widget.id,
-            iframe.contentWindow,
-            globalThis,
-        );
-        this.transport.targetOrigin = widget.origin;
-        this.transport.on("message", this.handleMessage.bind(this));
+        this.logger = new RedactingLogger(options.logger ?? new SilentLogger());
+        this.regrantCapabilitiesOnReload = options.regrantCapabilitiesOnReload ?? false;
+        this.allowEventCapabilityPatterns = options.allowEventCapabilityPatterns ?? false;
+        this.eventBatching = options.eventBatching
+            ? { flushInterval: 0, maxBatchSize: 100, ...options.eventBatching }
+            : null;
+        if (options.transport) {
+            this.transport = options.transport;
+        } else {
+            const transport = options.useMessageChannel
+                ? new MessageChannelTransport(WidgetApiDirection.ToWidget, widget.id, contentWindow!, globalThis)
+                : new PostmessageTransport(WidgetApiDirection.ToWidget, widget.id, contentWindow!, globalThis);
+            transport.targetOrigin = widget.origin;
+            // Only the widget's own frame may speak for it
+            transport.strictSourceCheck = true;
+            transport.allowedOrigins = [widget.origin];
+            transport.logger = this.logger;
+            this.transport = transport;
+        }
+        this.transport.on("message", this.onTransportMessage);
 
-        iframe.addEventListener("load", this.onIframeLoad.bind(this));
+        this.lifecycle = options.lifecycle ?? iframe ?? undefined;
+        if (this.lifecycle) {
+            this.lifecycle.addEventListener("load", this.onLoadEvent);
+        } else {
+            // There's no load event to wait for, but give the caller a chance to
+            // attach its listeners before we start.
+            Promise.resolve().then(() => this.onWidgetLoad());
+        }
 
         this.transport.start();
     }
 
+    /**
+     * The current state of the session with the widget.
+     */
+    public get state(): WidgetSessionState {
+        return this.sessionState;
+    }
+
+    /**
+     * Determines if the widget has a capability, in either its unstable or
+     * stable spelling.
+     * @param {Capability} capability The capability to check for.
+     * @returns {boolean} True if the widget has the capability.
+     */
     public hasCapability(capability: Capability): boolean {
-        return this.allowedCapabilities.has(capability);
+        return this.normalizedCapabilities.has(normalizeCapability(capability));
     }
 
     public canUseRoomTimeline(roomId: string | Symbols.AnyRoom): boolean {
         return (
-            this.hasCapability(`org.matrix.msc2762.timeline:${Symbols.AnyRoom}`) ||
-            this.hasCapability(`org.matrix.msc2762.timeline:${roomId}`)
+            this.hasCapability(getTimelineCapability(Symbols.AnyRoom)) ||
+            this.hasCapability(getTimelineCapability(roomId))
         );
     }
 
     public canSendRoomEvent(eventType: string, msgtype: string | null = null): boolean {
-        return this.allowedEvents.some((e) => e.matchesAsRoomEvent(EventDirection.Send, eventType, msgtype));
+        return this.allowedEvents.matchesAsRoomEvent(EventDirection.Send, eventType, msgtype);
     }
 
     public canSendStateEvent(eventType: string, stateKey: string): boolean {
-        return this.allowedEvents.some((e) => e.matchesAsStateEvent(EventDirection.Send, eventType, stateKey));
+        return this.allowedEvents.matchesAsStateEvent(EventDirection.Send, eventType, stateKey);
     }
 
     public canSendToDeviceEvent(eventType: string): boolean {
-        return this.allowedEvents.some((e) => e.matchesAsToDeviceEvent(EventDirection.Send, eventType));
+        return this.allowedEvents.matchesAsToDeviceEvent(EventDirection.Send, eventType);
     }
 
     public canReceiveRoomEvent(eventType: string, msgtype: string | null = null): boolean {
-        return this.allowedEvents.some((e) => e.matchesAsRoomEvent(EventDirection.Receive, eventType, msgtype));
+        return this.allowedEvents.matchesAsRoomEvent(EventDirection.Receive, eventType, msgtype);
     }
 
     public canReceiveStateEvent(eventType: string, stateKey: string | null): boolean {
-        return this.allowedEvents.some((e) => e.matchesAsStateEvent(EventDirection.Receive, eventType, stateKey));
+        return this.allowedEvents.matchesAsStateEvent(EventDirection.Receive, eventType, stateKey);
     }
 
     public canReceiveToDeviceEvent(eventType: string): boolean {
-        return this.allowedEvents.some((e) => e.matchesAsToDeviceEvent(EventDirection.Receive, eventType));
+        return this.allowedEvents.matchesAsToDeviceEvent(EventDirection.Receive, eventType);
     }
 
     public canReceiveRoomAccountData(eventType: string): boolean {
-        return this.allowedEvents.some((e) => e.matchesAsRoomAccountData(EventDirection.Receive, eventType));
+        return this.allowedEvents.matchesAsRoomAccountData(EventDirection.Receive, eventType);
+    }
+
+    /**
+     * Takes capabilities away from the widget while it runs, and tells the
+     * widget which capabilities it has left. Capabilities the widget doesn't
+     * have are ignored, and either spelling of a capability revokes it. The
+     * widget may ask for revoked capabilities again by renegotiating.
+     * @param {Capability[]} capabilities The capabilities to revoke.
+     * @returns {Promise<void>} Resolves when the widget has been told, rejects if
+     * the widget failed to handle the notification. The capabilities are revoked
+     * either way.
+     */
+    public async revokeCapabilities(capabilities: Capability[]): Promise<void> {
+        const normalized = new Set(capabilities.map(normalizeCapability));
+        const revoked = [...this.allowedCapabilities].filter((c) => normalized.has(normalizeCapability(c)));
+        for (const c of revoked) this.allowedCapabilities.delete(c);
+        for (const c of normalized) this.normalizedCapabilities.delete(c);
+        if (revoked.length === 0) return;
+
+        this.logger.info("Widget capabilities revoked", { widgetId: this.widget.id, revoked });
+        this.allowedEvents.remove((e) => revoked.includes(e.raw));
+
+        if (revoked.includes(MatrixCapabilities.MSC3846TurnServers) && this.turnServers) {
+            // Stop the generator, allowing it to clean up
+            const turnServers = this.turnServers;
+            this.turnServers = null;
+            await turnServers.return(undefined);
+        }
+
+        await this.transport.send(WidgetApiToWidgetAction.NotifyCapabilities, <INotifyCapabilitiesActionRequestData>{
+            // The widget didn't ask for anything this time
+            requested: [],
+            approved: Array.from(this.allowedCapabilities),
+        });
     }
 
     public stop(): void {
-        this.isStopped = true;
+        this.transition(WidgetSessionState.Stopped);
+        this.clearContentLoadedWaitTimer();
+        this.dropPendingEvents(new Error("The widget API was stopped before the events were sent"));
+        this.lifecycle?.removeEventListener("load", this.onLoadEvent);
+        this.transport.off("message", this.onTransportMessage);
         this.transport.stop();
     }
 
@@ -246,37 +512,113 @@ export class ClientWidgetApi extends EventEmitter {
             this.cachedWidgetVersions = r.supported_versions;
             return r.supported_versions;
         } catch (e) {
-            console.warn("non-fatal error getting supported widget versions: ", e);
+            this.logger.warn("non-fatal error getting supported widget versions", { error: e });
             return [];
         }
     }
 
+    /**
+     * Moves the session on to another state, raising a "stateChanged" event.
+     * @param {WidgetSessionState} state The state to move to.
+     * @param {unknown} error What went wrong, when moving to the failed state.
+     * @returns {boolean} False if the current state can't move to the new one.
+     */
+    private transition(state: WidgetSessionState, error?: unknown): boolean {
+        const previous = this.sessionState;
+        if (!SessionTransitions[previous].includes(state)) {
+            this.logger.debug("Ignoring invalid widget session transition", { from: previous, to: state });
+            return false;
+        }
+
+        this.sessionState = state;
+        const detail: IWidgetSessionStateChange = { previous, state };
+        if (error !== undefined) detail.error = error;
+        this.emit("stateChanged", new CustomEvent("stateChanged", { detail }));
+        return true;
+    }
+
     private beginCapabilities(): void {
+        if (!this.transition(WidgetSessionState.Negotiating)) return;
         // widget has loaded - tell all the listeners that
         this.emit("preparing");
 
+        const session = this.session;
         let requestedCaps: Capability[];
         this.transport
             .send<IWidgetApiRequestEmptyData, ICapabilitiesActionResponseData>(WidgetApiToWidgetAction.Capabilities, {})
-            .then((caps) => {
+            .then(async (caps) => {
                 requestedCaps = caps.capabilities;
-                return this.driver.validateCapabilities(new Set(caps.capabilities));
+                await this.checkPatternSupport(requestedCaps ?? []);
+                return this.validateCapabilities(this.withoutUnsupportedCapabilities(caps.capabilities ?? []));
             })
             .then((allowedCaps) => {
+                if (session !== this.session || !this.transition(WidgetSessionState.Ready)) return;
                 this.allowCapabilities([...allowedCaps], requestedCaps);
                 this.emit("ready");
             })
             .catch((e) => {
+                if (session !== this.session || !this.transition(WidgetSessionState.Failed, e)) return;
                 this.emit("error:preparing", e);
             });
     }
 
+    /**
+     * Asks the driver which of the requested capabilities to allow, except for
+     * those being allowed again after a reload.
+     * @param {Set<Capability>} requested The capabilities the widget requested.
+     * @returns {Promise<Set<Capability>>} Resolves to the allowed capabilities.
+     */
+    private async validateCapabilities(requested: Set<Capability>): Promise<Set<Capability>> {
+        if (this.regrantedCapabilities.size === 0) return this.driver.validateCapabilities(requested);
+
+        const regranted = [...requested].filter((c) => this.regrantedCapabilities.has(c));
+        const remaining = new Set([...requested].filter((c) => !this.regrantedCapabilities.has(c)));
+        const allowed = remaining.size > 0 ? await this.driver.validateCapabilities(remaining) : [];
+        return new Set([...regranted, ...allowed]);
+    }
+
+    /**
+     * Drops everything the widget was allowed, and stops all work done for its
+     * previous page, once it has reloaded.
+     */
+    private resetSession(): void {
+        const previousCapabilities = Array.from(this.allowedCapabilities);
+        this.session++;
+        this.regrantedCapabilities = new Set(this.regrantCapabilitiesOnReload ? previousCapabilities : []);
+        this.allowedCapabilities.clear();
+        this.normalizedCapabilities.clear();
+        this.allowedEvents.clear();
+        this.cachedWidgetVersions = null;
+        this.widgetUsesPatterns = false;
+
+        // Stop the generator, allowing it to clean up
+        this.turnServers?.return(undefined).catch((e) => {
+            this.logger.warn("error stopping TURN server polling", { error: e });
+        });
+        this.turnServers = null;
+        for (const controller of this.pendingUploads.values()) controller.abort();
+        this.pendingUploads.clear();
+        this.pushRoomStateTasks.clear();
+        this.pushRoomStateResult.clear();
+        this.flushRoomStateTask = null;
+        this.dropPendingEvents(new Error("The widget reloaded before the events were sent"));
+
+        this.logger.info("Widget reloaded", { widgetId: this.widget.id });
+        this.emit(
+            "reloaded",
+            new CustomEvent<IWidgetReloadedEventDetail>("reloaded", { detail: { previousCapabilities } }),
+        );
+    }
+
     private allowCapabilities(allowed: string[], requested: string[]): void {
-        console.log(`Widget ${this.widget.id} is allowed capabilities:`, allowed);
+        this.logger.info("Widget capabilities allowed", { widgetId: this.widget.id, allowed });
 
-        for (const c of allowed) this.allowedCapabilities.add(c);
-        const allowedEvents = WidgetEventCapability.findEventCapabilities(allowed);
-        this.allowedEvents.push(...allowedEvents);
+        for (const c of allowed) {
+            this.allowedCapabilities.add(c);
+            this.normalizedCapabilities.add(normalizeCapability(c));
+        }
+        const allowedEvents = WidgetEventCapability.findEventCapabilities(allowed, this.widgetUsesPatterns);
+        this.allowedEvents.add(allowedEvents);
 
         this.transport
             .send(WidgetApiToWidgetAction.NotifyCapabilities, <INotifyCapabilitiesActionRequestData>{
@@ -284,7 +626,7 @@ export class ClientWidgetApi extends EventEmitter {
                 approved: Array.from(this.allowedCapabilities),
             })
             .catch((e) => {
-                console.warn("non-fatal error notifying widget of approved capabilities:", e);
+                this.logger.warn("non-fatal error notifying widget of approved capabilities", { error: e });
             })
             .then(() => {
                 this.emit("capabilitiesNotified");
@@ -309,61 +651,149 @@ export class ClientWidgetApi extends EventEmitter {
         }
     }
 
-    private onIframeLoad(ev: Event): void {
+    private onWidgetLoad(): void {
+        if (this.sessionState === WidgetSessionState.Stopped) return;
+        this.clearContentLoadedWaitTimer();
+        if (this.loaded) {
+            this.resetSession();
+        } else {
+            this.loaded = true;
+            // The widget may have sent ContentLoaded before the client saw it load
+            if (this.sessionState !== WidgetSessionState.Loading) return;
+        }
+
         if (this.widget.waitForIframeLoad) {
             // If the widget is set to waitForIframeLoad the capabilities immediately get setup after load.
             // The client does not wait for the ContentLoaded action.
             this.beginCapabilities();
-        } else {
+        } else if (this.transition(WidgetSessionState.AwaitingContentLoaded)) {
             // Reaching this means, that the Iframe got reloaded/loaded and
             // the clientApi is awaiting the FIRST ContentLoaded action.
-            console.log("waitForIframeLoad is false: waiting for widget to send contentLoaded");
+            this.logger.debug("waitForIframeLoad is false: waiting for widget to send contentLoaded");
             this.contentLoadedWaitTimer = setTimeout(() => {
-                console.error(
+                this.contentLoadedWaitTimer = undefined;
+                const error = new Error(
                     "Widget specified waitForIframeLoad=false but timed out waiting for contentLoaded event!",
                 );
+                this.logger.error(error.message);
+                if (this.transition(WidgetSessionState.Failed, error)) this.emit("error:preparing", error);
             }, 10000);
-            this.contentLoadedActionSent = false;
         }
     }
 
+    private clearContentLoadedWaitTimer(): void {
+        clearTimeout(this.contentLoadedWaitTimer);
+        this.contentLoadedWaitTimer = undefined;
+    }
+
     private handleContentLoadedAction(action: IContentLoadedActionRequest): void {
-        if (this.contentLoadedWaitTimer !== undefined) {
-            clearTimeout(this.contentLoadedWaitTimer);
-            this.contentLoadedWaitTimer = undefined;
-        }
-        if (this.contentLoadedActionSent) {
-            throw new Error(
-                "Improper sequence: ContentLoaded Action can only be sent once after the widget loaded " +
-                    "and should only be used if waitForIframeLoad is false (default=true)",
-            );
-        }
         if (this.widget.waitForIframeLoad) {
-            this.transport.reply(action, <IWidgetApiErrorResponseData>{
+            return this.transport.reply(action, <IWidgetApiErrorResponseData>{
                 error: {
                     message:
                         "Improper sequence: not expecting ContentLoaded event if " +
                         "waitForIframeLoad is true (default=true)",
                 },
             });
-        } else {
-            this.transport.reply(action, <IWidgetApiRequestEmptyData>{});
-            this.beginCapabilities();
         }
-        this.contentLoadedActionSent = true;
+        // The widget may finish loading its content before the client sees it load
+        if (
+            this.sessionState !== WidgetSessionState.AwaitingContentLoaded &&
+            this.sessionState !== WidgetSessionState.Loading
+        ) {
+            return this.transport.reply(action, <IWidgetApiErrorResponseData>{
+                error: {
+                    message: "Improper sequence: ContentLoaded Action can only be sent once after the widget loaded",
+                },
+            });
+        }
+
+        this.clearContentLoadedWaitTimer();
+        this.transport.reply(action, <IWidgetApiRequestEmptyData>{});
+        this.beginCapabilities();
     }
 
     private replyVersions(request: ISupportedVersionsActionRequest): void {
+        const missing = this.missingDriverFeatures.flatMap((f) => f.versions);
+        const versions = CurrentApiVersions.filter((v) => !missing.includes(v));
         this.transport.reply<ISupportedVersionsActionResponseData>(request, {
-            supported_versions: CurrentApiVersions,
+            supported_versions:
+                this.transport instanceof MessageChannelTransport
+                    ? [...versions, UnstableApiVersion.MessageChannel]
+                    : versions,
         });
     }
 
+    /**
+     * The definitions of the optional features the driver does not implement.
+     */
+    private get missingDriverFeatures(): IWidgetDriverFeatureDefinition[] {
+        // Drivers which don't extend WidgetDriver get their features detected
+        const features = (this.driver.getFeatures ?? WidgetDriver.prototype.getFeatures).call(this.driver);
+        return Object.values(WidgetDriverFeature)
+            .filter((f) => !features.has(f))
+            .map((f) => WidgetDriverFeatures[f]);
+    }
+
+    /**
+     * Removes the capabilities of optional features the driver does not
+     * implement, and event capability patterns unless they are allowed, so
+     * that they are denied without the driver being asked.
+     * @param {Iterable<Capability>} requested The requested capabilities.
+     * @returns {Set<Capability>} The requested capabilities the driver could grant.
+     */
+    private withoutUnsupportedCapabilities(requested: Iterable<Capability>): Set<Capability> {
+        const missing = this.missingDriverFeatures;
+        const supported = new Set<Capability>();
+        for (const capability of requested) {
+            const unsupported = missing.some(
+                (f) =>
+                    f.capabilities.includes(capability) || f.capabilityPrefixes?.some((p) => capability.startsWith(p)),
+            );
+            if (unsupported) {
+                this.logger.info("Denying capability not supported by the driver", { capability });
+            } else if (
+                !this.allowEventCapabilityPatterns &&
+                WidgetEventCapability.findEventCapabilities([capability], this.widgetUsesPatterns)[0]?.isPattern
+            ) {
+                this.logger.info("Denying event capability pattern", { capability });
+            } else {
+                supported.add(capability);
+            }
+        }
+        return supported;
+    }
+
+    /**
+     * Finds out whether the widget's event capabilities may be patterns, if it
+     * requested any which would be.
+     * @param {Iterable<Capability>} requested The requested capabilities.
+     */
+    private async checkPatternSupport(requested: Iterable<Capability>): Promise<void> {
+        if (this.widgetUsesPatterns) return;
+        if (!WidgetEventCapability.findEventCapabilities(requested, true).some((c) => c.isPattern)) return;
+
+        const session = this.session;
+        const versions = await this.getWidgetVersions();
+        if (session === this.session) {
+            this.widgetUsesPatterns = versions.includes(UnstableApiVersion.EventCapabilityPatterns);
+        }
+    }
+
     private async supportsUpdateState(): Promise<boolean> {
         return (await this.getWidgetVersions()).includes(UnstableApiVersion.MSC2762_UPDATE_STATE);
     }
 
+    private async supportsTransferables(): Promise<boolean> {
+        return (await this.getWidgetVersions()).includes(UnstableApiVersion.Transferables);
+    }
+
     private handleCapabilitiesRenegotiate(request: IRenegotiateCapabilitiesActionRequest): void {
+        if (!this.transition(WidgetSessionState.Renegotiating)) {
+            return this.transport.reply<IWidgetApiErrorResponseData>(request, {
+                error: { message: `Cannot renegotiate capabilities while ${this.sessionState}` },
+            });
+        }
         // acknowledge first
         this.transport.reply<IWidgetApiAcknowledgeResponseData>(request, {});
 
@@ -371,12 +801,26 @@ export class ClientWidgetApi extends EventEmitter {
         const newlyRequested = new Set(requested.filter((r) => !this.hasCapability(r)));
         if (newlyRequested.size === 0) {
             // Nothing to do - skip validation
+            this.transition(WidgetSessionState.Ready);
             this.allowCapabilities([], []);
+            return;
         }
 
-        this.driver
-            .validateCapabilities(newlyRequested)
-            .then((allowed) => this.allowCapabilities([...allowed], [...newlyRequested]));
+        const session = this.session;
+        this.checkPatternSupport(newlyRequested)
+            .then(() => this.driver.validateCapabilities(this.withoutUnsupportedCapabilities(newlyRequested)))
+            .then(
+                (allowed) => {
+                    if (session === this.session && this.transition(WidgetSessionState.Ready)) {
+                        this.allowCapabilities([...allowed], [...newlyRequested]);
+                    }
+                },
+                (e) => {
+                    // The widget keeps the capabilities it already had
+                    this.logger.warn("error renegotiating capabilities", { error: e });
+                    if (session === this.session) this.transition(WidgetSessionState.Ready);
+                },
+            );
     }
 
     private handleNavigate(request: INavigateActionRequest): void {
@@ -393,7 +837,7 @@ export class ClientWidgetApi extends EventEmitter {
         }
 
         const onErr = (e: unknown): void => {
-            console.error("[ClientWidgetApi] Failed to handle navigation: ", e);
+            this.logger.error("[ClientWidgetApi] Failed to handle navigation", { error: e });
             this.handleDriverError(e, request, "Error handling navigation");
         };
 
@@ -435,7 +879,7 @@ export class ClientWidgetApi extends EventEmitter {
         };
 
         const replyError = (msg: string): void | Promise<IWidgetApiAcknowledgeResponseData> => {
-            console.error("[ClientWidgetApi] Failed to handle OIDC: ", msg);
+            this.logger.error("[ClientWidgetApi] Failed to handle OIDC", { reason: msg });
             if (phase > 1) {
                 // We don't have a way to indicate that a random error happened in this flow, so
                 // just block the attempt.
@@ -549,7 +993,7 @@ export class ClientWidgetApi extends EventEmitter {
             // This block makes sure that it is also possible to not use setViewedRoomId.
             // readRoomTimeline and readRoomState are required however! Otherwise widget requests that include
             // `room_ids` will fail.
-            console.warn(
+            this.logger.warn(
                 "The widgetDriver uses deprecated behaviour:\n It does not set the viewedRoomId using `setViewedRoomId`",
             );
             events = await // This returns [] with the current driver of Element Web.
@@ -704,7 +1148,7 @@ export class ClientWidgetApi extends EventEmitter {
                 });
             })
             .catch((e: unknown) => {
-                console.error("error sending event: ", e);
+                this.logger.error("error sending event", { error: e });
                 this.handleDriverError(e, request, "Error sending event");
             });
     }
@@ -744,7 +1188,7 @@ export class ClientWidgetApi extends EventEmitter {
                 return this.transport.reply<IWidgetApiAcknowledgeResponseData>(request, {});
             })
             .catch((e: unknown) => {
-                console.error("error updating delayed event: ", e);
+                this.logger.error("error updating delayed event", { error: e });
                 this.handleDriverError(e, request, "Error updating delayed event");
             });
     }
@@ -771,7 +1215,7 @@ export class ClientWidgetApi extends EventEmitter {
                 await this.driver.sendToDevice(request.data.type, request.data.encrypted, request.data.messages);
                 this.transport.reply<ISendToDeviceFromWidgetResponseData>(request, {});
             } catch (e) {
-                console.error("error sending to-device event", e);
+                this.logger.error("error sending to-device event", { error: e });
                 this.handleDriverError(e, request, "Error sending event");
             }
         }
@@ -792,7 +1236,7 @@ export class ClientWidgetApi extends EventEmitter {
                 );
             }
         } catch (e) {
-            console.error("error polling for TURN servers", e);
+            this.logger.error("error polling for TURN servers", { error: e });
         }
     }
 
@@ -818,7 +1262,7 @@ export class ClientWidgetApi extends EventEmitter {
                 this.pollTurnServers(turnServers, value);
                 this.turnServers = turnServers;
             } catch (e) {
-                console.error("error getting first TURN server results", e);
+                this.logger.error("error getting first TURN server results", { error: e });
                 this.transport.reply<IWidgetApiErrorResponseData>(request, {
                     error: { message: "TURN servers not available" },
                 });
@@ -888,7 +1332,7 @@ export class ClientWidgetApi extends EventEmitter {
                 next_batch: result.nextBatch,
             });
         } catch (e) {
-            console.error("error getting the relations", e);
+            this.logger.error("error getting the relations", { error: e });
             this.handleDriverError(e, request, "Unexpected error while reading relations");
         }
     }
@@ -924,7 +1368,7 @@ export class ClientWidgetApi extends EventEmitter {
                 })),
             });
         } catch (e) {
-            console.error("error searching in the user directory", e);
+            this.logger.error("error searching in the user directory", { error: e });
             this.handleDriverError(e, request, "Unexpected error while searching in the user directory");
         }
     }
@@ -941,7 +1385,7 @@ export class ClientWidgetApi extends EventEmitter {
 
             return this.transport.reply<IGetMediaConfigActionFromWidgetResponseData>(request, result);
         } catch (e) {
-            console.error("error while getting the media configuration", e);
+            this.logger.error("error while getting the media configuration", { error: e });
             this.handleDriverError(e, request, "Unexpected error while getting the media configuration");
         }
     }
@@ -953,18 +1397,47 @@ export class ClientWidgetApi extends EventEmitter {
             });
         }
 
+        const uploadId = request.data.upload_id;
+        const controller = new AbortController();
+        this.pendingUploads.set(request.requestId, controller);
         try {
-            const result = await this.driver.uploadFile(request.data.file);
+            const result = await this.driver.uploadFile(request.data.file, {
+                signal: controller.signal,
+                onProgress: uploadId === undefined ? undefined : this.sendUploadProgress.bind(this, uploadId),
+            });
 
             return this.transport.reply<IUploadFileActionFromWidgetResponseData>(request, {
                 content_uri: result.contentUri,
             });
         } catch (e) {
-            console.error("error while uploading a file", e);
+            if (controller.signal.aborted) {
+                // the widget has stopped listening for a reply
+                this.logger.debug("upload cancelled by the widget", { error: e });
+                return;
+            }
+            this.logger.error("error while uploading a file", { error: e });
             this.handleDriverError(e, request, "Unexpected error while uploading a file");
+        } finally {
+            this.pendingUploads.delete(request.requestId);
         }
     }
 
+    private sendUploadProgress(uploadId: string, sent: number, total: number): void {
+        if (this.sessionState === WidgetSessionState.Stopped) return;
+        this.transport
+            .send<IUploadProgressActionRequestData>(WidgetApiToWidgetAction.UploadProgress, {
+                upload_id: uploadId,
+                sent,
+                total,
+            })
+            .catch((e) => this.logger.debug("failed to send upload progress", { error: e }));
+    }
+
+    private handleAbortRequest(request: IAbortRequestActionRequest): void {
+        this.pendingUploads.get(request.data.request_id)?.abort();
+        this.transport.reply(request, <IWidgetApiRequestEmptyData>{});
+    }
+
     private async handleDownloadFile(request: IDownloadFileActionFromWidgetActionRequest): Promise<void> {
         if (!this.hasCapability(MatrixCapabilities.MSC4039DownloadFile)) {
             return this.transport.reply<IWidgetApiErrorResponseData>(request, {
@@ -975,9 +1448,18 @@ export class ClientWidgetApi extends EventEmitter {
         try {
             const result = await this.driver.downloadFile(request.data.content_uri);
 
+            if (getTransferables(result.file).length > 0 && (await this.supportsTransferables())) {
+                // The driver may keep the buffer, so only give away a copy of it
+                const file = copyBinary(result.file);
+                return this.transport.reply<IDownloadFileActionFromWidgetResponseData>(
+                    request,
+                    { file },
+                    getTransferables(file),
+                );
+            }
             return this.transport.reply<IDownloadFileActionFromWidgetResponseData>(request, { file: result.file });
         } catch (e) {
-            console.error("error while downloading a file", e);
+            this.logger.error("error while downloading a file", { error: e });
             this.handleDriverError(e, request, "Unexpected error while downloading a file");
         }
     }
@@ -993,13 +1475,30 @@ export class ClientWidgetApi extends EventEmitter {
     }
 
     private handleMessage(ev: CustomEvent<IWidgetApiRequest>): void | Promise<void> {
-        if (this.isStopped) return;
+        if (this.sessionState === WidgetSessionState.Stopped) return;
+        if (this.sessionState === WidgetSessionState.Failed) {
+            return this.transport.reply<IWidgetApiErrorResponseData>(ev.detail, {
+                error: { message: "The widget session has failed" },
+            });
+        }
+        try {
+            validateRequest(ev.detail);
+        } catch (e) {
+            if (!(e instanceof InvalidRequestError)) throw e;
+            return this.transport.reply<IWidgetApiErrorResponseData>(ev.detail, { error: { message: e.message } });
+        }
+
         const actionEv = new CustomEvent(`action:${ev.detail.action}`, {
             detail: ev.detail,
             cancelable: true,
         });
         this.emit(`action:${ev.detail.action}`, actionEv);
         if (!actionEv.defaultPrevented) {
+            if (
+                this.missingDriverFeatures.some((f) => f.actions.includes(<WidgetApiFromWidgetAction>ev.detail.action))
+            ) {
+                return this.replyUnsupportedAction(ev.detail);
+            }
             switch (ev.detail.action) {
                 case WidgetApiFromWidgetAction.ContentLoaded:
                     return this.handleContentLoadedAction(<IContentLoadedActionRequest>ev.detail);
@@ -1035,17 +1534,23 @@ export class ClientWidgetApi extends EventEmitter {
                     return this.handleDownloadFile(<IDownloadFileActionFromWidgetActionRequest>ev.detail);
                 case WidgetApiFromWidgetAction.MSC4157UpdateDelayedEvent:
                     return this.handleUpdateDelayedEvent(<IUpdateDelayedEventFromWidgetActionRequest>ev.detail);
+                case WidgetApiFromWidgetAction.AbortRequest:
+                    return this.handleAbortRequest(<IAbortRequestActionRequest>ev.detail);
 
                 default:
-                    return this.transport.reply(ev.detail, <IWidgetApiErrorResponseData>{
-                        error: {
-                            message: "Unknown or unsupported action: " + ev.detail.action,
-                        },
-                    });
+                    return this.replyUnsupportedAction(ev.detail);
             }
         }
     }
 
+    private replyUnsupportedAction(request: IWidgetApiRequest): void {
+        this.transport.reply(request, <IWidgetApiErrorResponseData>{
+            error: {
+                message: "Unknown or unsupported action: " + request.action,
+            },
+        });
+    }
+
     /**
      * Informs the widget that the client's theme has changed.
      * @param theme The theme data, as an object with arbitrary contents.
@@ -1063,7 +1568,9 @@ export class ClientWidgetApi extends EventEmitter {
     }
 
     /**
-     * Takes a screenshot of the widget.
+     * Takes a screenshot of the widget. Widgets which support transferables may
+     * hand the screenshot over as an ArrayBuffer or ReadableStream rather than
+     * a Blob.
      * @returns Resolves to the widget's screenshot.
      * @throws Throws if there is a problem.
      */
@@ -1113,6 +1620,7 @@ export class ClientWidgetApi extends EventEmitter {
     /**
      * Feeds an event to the widget. As a client you are expected to call this
      * for every new event (including state events) in every room to which you are joined or invited.
+     * If event batching is enabled, the event may be sent together with others.
      * @param {IRoomEvent} rawEvent The event to (try to) send to the widget.
      * @returns {Promise<void>} Resolves when delivered or if the widget is not
      *   able to read the event due to permissions, rejects if the widget failed
@@ -1137,6 +1645,10 @@ export class ClientWidgetApi extends EventEmitter {
             }
         }
 
+        if (this.eventBatching && (await this.getWidgetVersions()).includes(UnstableApiVersion.BatchedEvents)) {
+            return this.queueEvent(rawEvent, this.eventBatching);
+        }
+
         // Feed the event into the widget
         await this.transport.send<ISendEventToWidgetRequestData>(
             WidgetApiToWidgetAction.SendEvent,
@@ -1145,6 +1657,44 @@ export class ClientWidgetApi extends EventEmitter {
         );
     }
 
+    private queueEvent(event: IRoomEvent, batching: Required<IEventBatchingOptions>): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.pendingEvents.push({ event, resolve, reject });
+            if (this.pendingEvents.length >= batching.maxBatchSize) {
+                this.flushEvents();
+            } else {
+                this.eventBatchTimer ??= setTimeout(() => this.flushEvents(), batching.flushInterval);
+            }
+        });
+    }
+
+    /**
+     * Sends the pending events to the widget in a single batch.
+     */
+    private flushEvents(): void {
+        clearTimeout(this.eventBatchTimer);
+        this.eventBatchTimer = undefined;
+        const batch = this.pendingEvents;
+        this.pendingEvents = [];
+
+        // Batches are sent in order, so there's no need to wait for the previous one
+        this.transport
+            .send<ISendEventsToWidgetRequestData>(WidgetApiToWidgetAction.SendEvents, {
+                events: batch.map((p) => p.event),
+            })
+            .then(
+                () => batch.forEach((p) => p.resolve()),
+                (e) => batch.forEach((p) => p.reject(e)),
+            );
+    }
+
+    private dropPendingEvents(error: Error): void {
+        clearTimeout(this.eventBatchTimer);
+        this.eventBatchTimer = undefined;
+        for (const pending of this.pendingEvents) pending.reject(error);
+        this.pendingEvents = [];
+    }
+
     /**
      * Feeds a to-device event to the widget. As a client you are expected to
      * call this for every to-device event you receive.
@@ -1180,10 +1730,13 @@ export class ClientWidgetApi extends EventEmitter {
     }
 
     private async flushRoomState(): Promise<void> {
+        const session = this.session;
         try {
             // Only send a single action once all concurrent tasks have completed
             do await Promise.all(this.pushRoomStateTasks);
             while (this.pushRoomStateTasks.size > 0);
+            // The state was read for the widget's previous page
+            if (session !== this.session) return;
 
             const events: IRoomEvent[] = [];
             for (const eventTypeMap of this.pushRoomStateResult.values()) {
@@ -1198,7 +1751,7 @@ export class ClientWidgetApi extends EventEmitter {
                 });
             }
         } finally {
-            this.flushRoomStateTask = null;
+            if (session === this.session) this.flushRoomStateTask = null;
         }
     }
 
@@ -1207,16 +1760,30 @@ export class ClientWidgetApi extends EventEmitter {
      * read through to the widget.
      */
     private pushRoomState(roomId: string): void {
+        const session = this.session;
         for (const cap of this.allowedEvents) {
             if (cap.kind === EventKind.State && cap.direction === EventDirection.Receive) {
+                if (cap.eventTypeIsPrefix) {
+                    // Drivers read state by exact event type, so the widget
+                    // has to read state for these types itself
+                    this.logger.debug("Not pushing room state for event type pattern", { capability: cap.raw });
+                    continue;
+                }
                 // Initiate the task
-                const events = this.driver.readRoomState(roomId, cap.eventType, cap.keyStr ?? undefined);
+                const stateKey = cap.keyStrIsPrefix ? undefined : (cap.keyStr ?? undefined);
+                const events = this.driver.readRoomState(roomId, cap.eventType, stateKey);
                 const task = events
                     .then(
                         (events) => {
+                            // The widget has reloaded since
+                            if (session !== this.session) return;
                             // When complete, queue the resulting events to be
                             // pushed to the widget
                             for (const event of events) {
+                                // Patterns of state keys are read in full
+                                if (!cap.matchesAsStateEvent(EventDirection.Receive, event.type, event.state_key!)) {
+                                    continue;
+                                }
                                 let eventTypeMap = this.pushRoomStateResult.get(roomId);
                                 if (eventTypeMap === undefined) {
                                     eventTypeMap = new Map();
@@ -1231,10 +1798,12 @@ export class ClientWidgetApi extends EventEmitter {
                             }
                         },
                         (e) =>
-                            console.error(
-                                `Failed to read room state for ${roomId} (${cap.eventType}, ${cap.keyStr})`,
-                                e,
-                            ),
+                            this.logger.error("Failed to read room state", {
+                                roomId,
+                                eventType: cap.eventType,
+                                stateKey: cap.keyStr,
+                                error: e,
+                            }),
                     )
                     .then(() => {
                         // Mark request as no longer pending
@@ -1246,7 +1815,7 @@ export class ClientWidgetApi extends EventEmitter {
                 // Assuming no other tasks are already happening concurrently,
                 // schedule the widget action that actually pushes the events
                 this.flushRoomStateTask ??= this.flushRoomState();
-                this.flushRoomStateTask.catch((e) => console.error("Failed to push room state", e));
+                this.flushRoomStateTask.catch((e) => this.logger.error("Failed to push room state", { error: e }));
             }
         }
     }
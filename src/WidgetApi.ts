@@ -16,7 +16,7 @@
 
 import { EventEmitter } from "events";
 
-import { Capability } from "./interfaces/Capabilities";
+import { Capability, getTimelineCapability, isSameCapability, spellCapabilityFor } from "./interfaces/Capabilities";
 import { IWidgetApiRequest, IWidgetApiRequestEmptyData } from "./interfaces/IWidgetApiRequest";
 import { IWidgetApiAcknowledgeResponseData } from "./interfaces/IWidgetApiResponse";
 import { WidgetApiDirection } from "./interfaces/WidgetApiDirection";
@@ -31,10 +31,11 @@ import {
     INotifyCapabilitiesActionRequest,
     IRenegotiateCapabilitiesRequestData,
 } from "./interfaces/CapabilitiesAction";
-import { ITransport } from "./transport/ITransport";
+import { ITransport, ITransportSendOptions } from "./transport/ITransport";
 import { PostmessageTransport } from "./transport/PostmessageTransport";
+import { MessageChannelTransport } from "./transport/MessageChannelTransport";
 import { WidgetApiFromWidgetAction, WidgetApiToWidgetAction } from "./interfaces/WidgetApiAction";
-import { IWidgetApiErrorResponseData, IWidgetApiErrorResponseDataDetails } from "./interfaces/IWidgetApiErrorResponse";
+import { IWidgetApiErrorResponseData } from "./interfaces/IWidgetApiErrorResponse";
 import { IStickerActionRequestData } from "./interfaces/StickerAction";
 import { IStickyActionRequestData, IStickyActionResponseData } from "./interfaces/StickyAction";
 import {
@@ -54,12 +55,18 @@ import {
     ModalButtonID,
 } from "./interfaces/ModalWidgetActions";
 import { ISetModalButtonEnabledActionRequestData } from "./interfaces/SetModalButtonEnabledAction";
-import { ISendEventFromWidgetRequestData, ISendEventFromWidgetResponseData } from "./interfaces/SendEventAction";
+import {
+    ISendEventFromWidgetRequestData,
+    ISendEventFromWidgetResponseData,
+    ISendEventsToWidgetActionRequest,
+    ISendEventToWidgetActionRequest,
+} from "./interfaces/SendEventAction";
 import {
     ISendToDeviceFromWidgetRequestData,
     ISendToDeviceFromWidgetResponseData,
 } from "./interfaces/SendToDeviceAction";
 import { EventDirection, WidgetEventCapability } from "./models/WidgetEventCapability";
+import { serializeCapability, StructuredCapability } from "./models/StructuredCapability";
 import { INavigateActionRequestData } from "./interfaces/NavigateAction";
 import { IReadEventFromWidgetRequestData, IReadEventFromWidgetResponseData } from "./interfaces/ReadEventAction";
 import {
@@ -70,6 +77,13 @@ import { IRoomEvent } from "./interfaces/IRoomEvent";
 import { IRoomAccountData } from "./interfaces/IRoomAccountData";
 import { ITurnServer, IUpdateTurnServersRequest } from "./interfaces/TurnServerActions";
 import { Symbols } from "./Symbols";
+import { IAbortRequestActionRequestData } from "./interfaces/AbortRequestAction";
+import { ILogger, RedactingLogger, SilentLogger } from "./util/Logger";
+import { InvalidRequestError, validateRequest } from "./models/validation/requests";
+import { getTransferables } from "./util/transfer";
+import { UploadHandle } from "./models/UploadHandle";
+import { IUploadProgressActionRequest } from "./interfaces/UploadProgressAction";
+import { IScreenshotActionRequest, IScreenshotActionResponseData } from "./interfaces/ScreenshotAction";
 import {
     IReadRelationsFromWidgetRequestData,
     IReadRelationsFromWidgetResponseData,
@@ -96,17 +110,57 @@ import {
     UpdateDelayedEventAction,
 } from "./interfaces/UpdateDelayedEventAction";
 
-export class WidgetApiResponseError extends Error {
-    static {
-        this.prototype.name = this.name;
-    }
+// Kept exported from here for compatibility: the class used to live in this module.
+export { WidgetApiResponseError } from "./transport/WidgetApiResponseError";
 
-    public constructor(
-        message: string,
-        public readonly data: IWidgetApiErrorResponseDataDetails,
-    ) {
-        super(message);
-    }
+export interface IWidgetApiOptions {
+    /**
+     * The transport to talk to the client over. When supplied, the widget does
+     * not need to be embedded in a parent window. Defaults to a postMessage
+     * transport for the parent window.
+     */
+    transport?: ITransport;
+
+    /**
+     * If true, the widget will move its communication with the client onto a
+     * dedicated MessageChannel once the client advertises support for it,
+     * falling back to postMessage otherwise. Ignored when a transport is
+     * supplied. Defaults to false.
+     */
+    useMessageChannel?: boolean;
+
+    /**
+     * The client origins to accept messages from. Messages from other origins
+     * are refused and raised through the transport's "messageRejected" event.
+     * Ignored when a transport is supplied. Defaults to accepting messages
+     * from any origin.
+     */
+    allowedClientOrigins?: string[];
+
+    /**
+     * The logger to write diagnostics to, including to the transport the API
+     * creates. Sensitive fields such as access tokens, passwords and event
+     * contents are redacted before reaching it. Defaults to logging nothing:
+     * pass a {@link ConsoleLogger} to log to the console.
+     */
+    logger?: ILogger;
+}
+
+export interface ICapabilitiesChangedEventDetail {
+    /**
+     * The capabilities the widget now has.
+     */
+    approved: Capability[];
+
+    /**
+     * The capabilities the widget has been granted since it was last told.
+     */
+    granted: Capability[];
+
+    /**
+     * The capabilities which have been taken away from the widget.
+     */
+    revoked: Capability[];
 }
 
 /**
@@ -125,35 +179,59 @@ export class WidgetApiResponseError extends Error {
  * When the WidgetApi is ready to start sending requests, it will
  * raise a "ready" CustomEvent. After the ready event fires, actions
  * can be sent and the transport will be ready.
+ *
+ * Room events the client sends in batches are raised one at a time, in order,
+ * as `action:${WidgetApiToWidgetAction.SendEvent}` events, so that widgets
+ * handle them the same as events sent individually. Replies to those events
+ * are ignored by the client.
+ *
+ * When the client later grants or revokes capabilities, a
+ * "capabilitiesChanged" CustomEvent is raised with an
+ * {@link ICapabilitiesChangedEventDetail}.
  */
 export class WidgetApi extends EventEmitter {
     public readonly transport: ITransport;
 
+    private readonly logger: ILogger;
     private capabilitiesFinished = false;
     private supportsMSC2974Renegotiate = false;
     private readonly requestedCapabilities: Capability[] = [];
     private approvedCapabilities?: Capability[];
     private cachedClientVersions?: ApiVersion[];
     private turnServerWatchers = 0;
+    // Upload ID → handle of an upload the client may report progress for
+    private readonly uploads = new Map<string, UploadHandle>();
+    private nextUploadId = 0;
 
     /**
      * Creates a new API handler for the given widget.
      * @param {string} widgetId The widget ID to listen for. If not supplied then
      * the API will use the widget ID from the first valid request it receives.
      * @param {string} clientOrigin The origin of the client, or null if not known.
+     * Ignored when a transport is supplied through the options.
+     * @param {IWidgetApiOptions} options Additional options for the API.
      */
-    public constructor(widgetId: string | null = null, clientOrigin: string | null = null) {
+    public constructor(
+        widgetId: string | null = null,
+        clientOrigin: string | null = null,
+        options: IWidgetApiOptions = {},
+    ) {
         super();
-        if (!globalThis.parent) {
-            throw new Error("No parent window. This widget doesn't appear to be embedded properly.");
+        this.logger = new RedactingLogger(options.logger ?? new SilentLogger());
+        if (options.transport) {
+            this.transport = options.transport;
+        } else {
+            if (!globalThis.parent) {
+                throw new Error("No parent window. This widget doesn't appear to be embedded properly.");
+            }
+            const transport = options.useMessageChannel
+                ? new MessageChannelTransport(WidgetApiDirection.FromWidget, widgetId, globalThis.parent, globalThis)
+                : new PostmessageTransport(WidgetApiDirection.FromWidget, widgetId, globalThis.parent, globalThis);
+            transport.allowedOrigins = options.allowedClientOrigins ?? null;
+            transport.logger = this.logger;
+            this.transport = transport;
+            this.transport.targetOrigin = clientOrigin;
         }
-        this.transport = new PostmessageTransport(
-            WidgetApiDirection.FromWidget,
-            widgetId,
-            globalThis.parent,
-            globalThis,
-        );
-        this.transport.targetOrigin = clientOrigin;
         this.transport.on("message", this.handleMessage.bind(this));
     }
 
@@ -165,34 +243,37 @@ export class WidgetApi extends EventEmitter {
      * @returns {boolean} True if the widget has approval for the given capability.
      */
     public hasCapability(capability: Capability): boolean {
-        if (Array.isArray(this.approvedCapabilities)) {
-            return this.approvedCapabilities.includes(capability);
-        }
-        return this.requestedCapabilities.includes(capability);
+        const capabilities = Array.isArray(this.approvedCapabilities)
+            ? this.approvedCapabilities
+            : this.requestedCapabilities;
+        // The client may have approved the capability in its other spelling
+        return capabilities.some((c) => isSameCapability(c, capability));
     }
 
     /**
      * Request a capability from the client. It is not guaranteed to be allowed,
      * but will be asked for.
-     * @param {Capability} capability The capability to request.
+     * @param {Capability | StructuredCapability} capability The capability to
+     * request.
      * @throws Throws if the capabilities negotiation has already started and the
-     * widget is unable to request additional capabilities.
+     * widget is unable to request additional capabilities, or if the structured
+     * capability can't be serialized.
      */
-    public requestCapability(capability: Capability): void {
+    public requestCapability(capability: Capability | StructuredCapability): void {
         if (this.capabilitiesFinished && !this.supportsMSC2974Renegotiate) {
             throw new Error("Capabilities have already been negotiated");
         }
 
-        this.requestedCapabilities.push(capability);
+        this.requestedCapabilities.push(typeof capability === "string" ? capability : serializeCapability(capability));
     }
 
     /**
      * Request capabilities from the client. They are not guaranteed to be allowed,
      * but will be asked for if the negotiation has not already happened.
-     * @param {Capability[]} capabilities The capabilities to request.
+     * @param {(Capability | StructuredCapability)[]} capabilities The capabilities to request.
      * @throws Throws if the capabilities negotiation has already started.
      */
-    public requestCapabilities(capabilities: Capability[]): void {
+    public requestCapabilities(capabilities: (Capability | StructuredCapability)[]): void {
         for (const cap of capabilities) {
             this.requestCapability(cap);
         }
@@ -205,7 +286,7 @@ export class WidgetApi extends EventEmitter {
      * denote all known rooms.
      */
     public requestCapabilityForRoomTimeline(roomId: string | Symbols.AnyRoom): void {
-        this.requestCapability(`org.matrix.msc2762.timeline:${roomId}`);
+        this.requestCapability(getTimelineCapability(roomId));
     }
 
     /**
@@ -306,15 +387,18 @@ export class WidgetApi extends EventEmitter {
      * user. This token can be validated server-side with the federation API. Note
      * that the widget is responsible for validating the token and caching any results
      * it needs.
+     * @param {ITransportSendOptions} options Options for the request. Aborting the
+     * signal also abandons a request which is waiting on the user's confirmation.
      * @returns {Promise<IOpenIDCredentials>} Resolves to a token for verification.
      * @throws Throws if the user rejected the request or the request failed.
      */
-    public requestOpenIDConnectToken(): Promise<IOpenIDCredentials> {
+    public requestOpenIDConnectToken(options?: ITransportSendOptions): Promise<IOpenIDCredentials> {
         return new Promise<IOpenIDCredentials>((resolve, reject) => {
             this.transport
                 .sendComplete<IGetOpenIDActionRequestData, IGetOpenIDActionResponse>(
                     WidgetApiFromWidgetAction.GetOpenIDCredentials,
                     {},
+                    options,
                 )
                 .then((response) => {
                     const rdata = response.response;
@@ -323,6 +407,18 @@ export class WidgetApi extends EventEmitter {
                     } else if (rdata.state === OpenIDRequestState.Blocked) {
                         reject(new Error("User declined to verify their identity"));
                     } else if (rdata.state === OpenIDRequestState.PendingUserConfirmation) {
+                        const signal = options?.signal;
+                        // The request itself has completed, so the transport can no longer
+                        // abandon it for us: tell the client directly instead.
+                        const onAbort = (): void => {
+                            this.off(`action:${WidgetApiToWidgetAction.OpenIDCredentials}`, handlerFn);
+                            reject(signal!.reason);
+                            this.transport
+                                .send<IAbortRequestActionRequestData>(WidgetApiFromWidgetAction.AbortRequest, {
+                                    request_id: response.requestId,
+                                })
+                                .catch(() => {});
+                        };
                         const handlerFn = (ev: CustomEvent<IOpenIDCredentialsActionRequest>): void => {
                             ev.preventDefault();
                             const request = ev.detail;
@@ -342,8 +438,10 @@ export class WidgetApi extends EventEmitter {
                                 });
                             }
                             this.off(`action:${WidgetApiToWidgetAction.OpenIDCredentials}`, handlerFn);
+                            signal?.removeEventListener("abort", onAbort);
                         };
                         this.on(`action:${WidgetApiToWidgetAction.OpenIDCredentials}`, handlerFn);
+                        signal?.addEventListener("abort", onAbort);
                     } else {
                         reject(new Error("Invalid state: " + rdata.state));
                     }
@@ -359,12 +457,13 @@ export class WidgetApi extends EventEmitter {
      * the capabilities request has gone through, not when the capabilities are approved/denied.
      * Use the WidgetApiToWidgetAction.NotifyCapabilities action to detect changes.
      */
-    public updateRequestedCapabilities(): Promise<void> {
-        return this.transport
-            .send(WidgetApiFromWidgetAction.MSC2974RenegotiateCapabilities, <IRenegotiateCapabilitiesRequestData>{
-                capabilities: this.requestedCapabilities,
-            })
-            .then();
+    public async updateRequestedCapabilities(): Promise<void> {
+        const versions = await this.getClientVersions();
+        await this.transport.send(WidgetApiFromWidgetAction.MSC2974RenegotiateCapabilities, <
+            IRenegotiateCapabilitiesRequestData
+        >{
+            capabilities: this.spellRequestedCapabilities(versions),
+        });
     }
 
     /**
@@ -537,7 +636,11 @@ export class WidgetApi extends EventEmitter {
         );
     }
 
-    public readRoomAccountData(eventType: string, roomIds?: (string | Symbols.AnyRoom)[]): Promise<IRoomAccountData[]> {
+    public readRoomAccountData(
+        eventType: string,
+        roomIds?: (string | Symbols.AnyRoom)[],
+        options?: ITransportSendOptions,
+    ): Promise<IRoomAccountData[]> {
         const data: IReadEventFromWidgetRequestData = { type: eventType };
 
         if (roomIds) {
@@ -551,7 +654,7 @@ export class WidgetApi extends EventEmitter {
             .send<
                 IReadRoomAccountDataFromWidgetRequestData,
                 IReadRoomAccountDataFromWidgetResponseData
-            >(WidgetApiFromWidgetAction.BeeperReadRoomAccountData, data)
+            >(WidgetApiFromWidgetAction.BeeperReadRoomAccountData, data, options)
             .then((r) => r.events);
     }
 
@@ -561,6 +664,7 @@ export class WidgetApi extends EventEmitter {
         msgtype?: string,
         roomIds?: (string | Symbols.AnyRoom)[],
         since?: string | undefined,
+        options?: ITransportSendOptions,
     ): Promise<IRoomEvent[]> {
         const data: IReadEventFromWidgetRequestData = { type: eventType, msgtype: msgtype };
         if (limit !== undefined) {
@@ -580,7 +684,7 @@ export class WidgetApi extends EventEmitter {
             .send<
                 IReadEventFromWidgetRequestData,
                 IReadEventFromWidgetResponseData
-            >(WidgetApiFromWidgetAction.MSC2876ReadEvents, data)
+            >(WidgetApiFromWidgetAction.MSC2876ReadEvents, data, options)
             .then((r) => r.events);
     }
 
@@ -601,6 +705,7 @@ export class WidgetApi extends EventEmitter {
      * @param to The pagination token to stop returning results at. If not
      * supplied, results continue up to limit or until there are no more events.
      * @param direction The direction to search for according to MSC3715.
+     * @param options Options for the request.
      * @returns Resolves to the room relations.
      */
     public async readEventRelations(
@@ -612,6 +717,7 @@ export class WidgetApi extends EventEmitter {
         from?: string,
         to?: string,
         direction?: "f" | "b",
+        options?: ITransportSendOptions,
     ): Promise<IReadRelationsFromWidgetResponseData> {
         const versions = await this.getClientVersions();
         if (!versions.includes(UnstableApiVersion.MSC3869)) {
@@ -632,6 +738,7 @@ export class WidgetApi extends EventEmitter {
         return this.transport.send<IReadRelationsFromWidgetRequestData, IReadRelationsFromWidgetResponseData>(
             WidgetApiFromWidgetAction.MSC3869ReadRelations,
             data,
+            options,
         );
     }
 
@@ -640,6 +747,7 @@ export class WidgetApi extends EventEmitter {
         limit?: number,
         stateKey?: string,
         roomIds?: (string | Symbols.AnyRoom)[],
+        options?: ITransportSendOptions,
     ): Promise<IRoomEvent[]> {
         const data: IReadEventFromWidgetRequestData = {
             type: eventType,
@@ -659,7 +767,7 @@ export class WidgetApi extends EventEmitter {
             .send<
                 IReadEventFromWidgetRequestData,
                 IReadEventFromWidgetResponseData
-            >(WidgetApiFromWidgetAction.MSC2876ReadEvents, data)
+            >(WidgetApiFromWidgetAction.MSC2876ReadEvents, data, options)
             .then((r) => r.events);
     }
 
@@ -751,11 +859,13 @@ export class WidgetApi extends EventEmitter {
      * Search for users in the user directory.
      * @param searchTerm The term to search for.
      * @param limit The maximum number of results to return. If not supplied, the
+     * @param options Options for the request.
      * @returns Resolves to the search results.
      */
     public async searchUserDirectory(
         searchTerm: string,
         limit?: number,
+        options?: ITransportSendOptions,
     ): Promise<IUserDirectorySearchFromWidgetResponseData> {
         const versions = await this.getClientVersions();
         if (!versions.includes(UnstableApiVersion.MSC3973)) {
@@ -770,7 +880,7 @@ export class WidgetApi extends EventEmitter {
         return this.transport.send<
             IUserDirectorySearchFromWidgetRequestData,
             IUserDirectorySearchFromWidgetResponseData
-        >(WidgetApiFromWidgetAction.MSC3973UserDirectorySearch, data);
+        >(WidgetApiFromWidgetAction.MSC3973UserDirectorySearch, data, options);
     }
 
     /**
@@ -792,33 +902,77 @@ export class WidgetApi extends EventEmitter {
     }
 
     /**
-     * Upload a file to the media repository on the homeserver.
+     * Upload a file to the media repository on the homeserver. If the client
+     * supports transferables, ArrayBuffers and streams are transferred to it
+     * rather than copied, and can no longer be used by the widget afterwards.
      * @param file - The object to upload. Something that can be sent to
-     *               XMLHttpRequest.send (typically a File).
+     *               XMLHttpRequest.send (typically a File), or a stream of the
+     *               file's contents.
+     * @param options - Options for the request.
      * @returns Resolves to the location of the uploaded file.
      */
-    public async uploadFile(file: XMLHttpRequestBodyInit): Promise<IUploadFileActionFromWidgetResponseData> {
+    public uploadFile(
+        file: XMLHttpRequestBodyInit | ReadableStream<Uint8Array>,
+        options?: ITransportSendOptions,
+    ): Promise<IUploadFileActionFromWidgetResponseData> {
+        return this.sendUploadFile({ file }, options);
+    }
+
+    /**
+     * Starts uploading a file to the media repository on the homeserver, in the
+     * same way as {@link uploadFile}. The returned handle reports the upload's
+     * progress, if the client supports it, and can cancel the upload.
+     * @param file - The object to upload. Something that can be sent to
+     *               XMLHttpRequest.send (typically a File), or a stream of the
+     *               file's contents.
+     * @param options - Options for the request. Aborting the signal cancels
+     *                  the upload.
+     * @returns The handle for the upload.
+     */
+    public startUpload(
+        file: XMLHttpRequestBodyInit | ReadableStream<Uint8Array>,
+        options?: ITransportSendOptions,
+    ): UploadHandle {
+        const uploadId = `upload-${this.nextUploadId++}`;
+        const handle = new UploadHandle(
+            (signal) => this.sendUploadFile({ file, upload_id: uploadId }, { ...options, signal }),
+            options?.signal,
+        );
+        this.uploads.set(uploadId, handle);
+        const cleanUp = (): boolean => this.uploads.delete(uploadId);
+        handle.result.then(cleanUp, cleanUp);
+        return handle;
+    }
+
+    private async sendUploadFile(
+        data: IUploadFileActionFromWidgetRequestData,
+        options?: ITransportSendOptions,
+    ): Promise<IUploadFileActionFromWidgetResponseData> {
         const versions = await this.getClientVersions();
         if (!versions.includes(UnstableApiVersion.MSC4039)) {
             throw new Error("The upload_file action is not supported by the client.");
         }
 
-        const data: IUploadFileActionFromWidgetRequestData = {
-            file,
-        };
+        const transfer = versions.includes(UnstableApiVersion.Transferables) ? getTransferables(data.file) : [];
 
         return this.transport.send<IUploadFileActionFromWidgetRequestData, IUploadFileActionFromWidgetResponseData>(
             WidgetApiFromWidgetAction.MSC4039UploadFileAction,
             data,
+            { ...options, transfer: [...(options?.transfer ?? []), ...transfer] },
         );
     }
 
     /**
      * Download a file from the media repository on the homeserver.
      * @param contentUri - MXC URI of the file to download.
-     * @returns Resolves to the contents of the file.
+     * @param options - Options for the request.
+     * @returns Resolves to the contents of the file. Clients which support
+     * transferables may hand it over as an ArrayBuffer or ReadableStream.
      */
-    public async downloadFile(contentUri: string): Promise<IDownloadFileActionFromWidgetResponseData> {
+    public async downloadFile(
+        contentUri: string,
+        options?: ITransportSendOptions,
+    ): Promise<IDownloadFileActionFromWidgetResponseData> {
         const versions = await this.getClientVersions();
         if (!versions.includes(UnstableApiVersion.MSC4039)) {
             throw new Error("The download_file action is not supported by the client.");
@@ -831,9 +985,28 @@ export class WidgetApi extends EventEmitter {
         return this.transport.send<IDownloadFileActionFromWidgetRequestData, IDownloadFileActionFromWidgetResponseData>(
             WidgetApiFromWidgetAction.MSC4039DownloadFileAction,
             data,
+            options,
         );
     }
 
+    /**
+     * Replies to a request from the client for a screenshot of the widget. If
+     * the client supports transferables, ArrayBuffers and streams are
+     * transferred to it rather than copied, and can no longer be used by the
+     * widget afterwards.
+     * @param {IScreenshotActionRequest} request The client's request.
+     * @param {Blob|ArrayBuffer|ReadableStream} screenshot The screenshot.
+     * @returns {Promise<void>} Resolves when the reply has been sent.
+     */
+    public async replyWithScreenshot(
+        request: IScreenshotActionRequest,
+        screenshot: IScreenshotActionResponseData["screenshot"],
+    ): Promise<void> {
+        const versions = await this.getClientVersions();
+        const transfer = versions.includes(UnstableApiVersion.Transferables) ? getTransferables(screenshot) : [];
+        this.transport.reply<IScreenshotActionResponseData>(request, { screenshot }, transfer);
+    }
+
     /**
      * Starts the communication channel. This should be done early to ensure
      * that messages are not missed. Communication can only be stopped by the client.
@@ -844,10 +1017,30 @@ export class WidgetApi extends EventEmitter {
             if (v.includes(UnstableApiVersion.MSC2974)) {
                 this.supportsMSC2974Renegotiate = true;
             }
+            if (this.transport instanceof MessageChannelTransport && v.includes(UnstableApiVersion.MessageChannel)) {
+                this.transport.establishChannel().catch((e) => {
+                    this.logger.warn("non-fatal error establishing message channel, staying on postMessage", {
+                        error: e,
+                    });
+                });
+            }
         });
     }
 
     private handleMessage(ev: CustomEvent<IWidgetApiRequest>): void | Promise<void> {
+        try {
+            validateRequest(ev.detail);
+        } catch (e) {
+            if (!(e instanceof InvalidRequestError)) throw e;
+            return this.transport.reply<IWidgetApiErrorResponseData>(ev.detail, { error: { message: e.message } });
+        }
+
+        // Track the approved capabilities even if the widget handles the
+        // notification itself
+        if (ev.detail.action === WidgetApiToWidgetAction.NotifyCapabilities) {
+            this.updateApprovedCapabilities((<INotifyCapabilitiesActionRequest>ev.detail).data.approved);
+        }
+
         const actionEv = new CustomEvent(`action:${ev.detail.action}`, {
             detail: ev.detail,
             cancelable: true,
@@ -862,7 +1055,13 @@ export class WidgetApi extends EventEmitter {
                 case WidgetApiToWidgetAction.UpdateVisibility:
                     return this.transport.reply(ev.detail, <IWidgetApiRequestEmptyData>{}); // ack to avoid error spam
                 case WidgetApiToWidgetAction.NotifyCapabilities:
+                    return this.transport.reply(ev.detail, <IWidgetApiRequestEmptyData>{});
+                case WidgetApiToWidgetAction.AbortRequest:
                     return this.transport.reply(ev.detail, <IWidgetApiRequestEmptyData>{}); // ack to avoid error spam
+                case WidgetApiToWidgetAction.UploadProgress:
+                    return this.handleUploadProgress(<IUploadProgressActionRequest>ev.detail);
+                case WidgetApiToWidgetAction.SendEvents:
+                    return this.handleSendEvents(<ISendEventsToWidgetActionRequest>ev.detail);
                 default:
                     return this.transport.reply(ev.detail, <IWidgetApiErrorResponseData>{
                         error: {
@@ -873,9 +1072,58 @@ export class WidgetApi extends EventEmitter {
         }
     }
 
+    private updateApprovedCapabilities(approved: Capability[]): void {
+        // Until the negotiation completes there is nothing to compare against
+        const previous = this.approvedCapabilities;
+        if (!Array.isArray(previous)) return;
+
+        // The client may spell a capability differently than it did before
+        const granted = approved.filter((c) => !previous.some((p) => isSameCapability(p, c)));
+        const revoked = previous.filter((p) => !approved.some((c) => isSameCapability(p, c)));
+        this.approvedCapabilities = approved;
+        if (granted.length > 0 || revoked.length > 0) {
+            this.emit(
+                "capabilitiesChanged",
+                new CustomEvent<ICapabilitiesChangedEventDetail>("capabilitiesChanged", {
+                    detail: { approved, granted, revoked },
+                }),
+            );
+        }
+    }
+
+    private handleSendEvents(request: ISendEventsToWidgetActionRequest): void {
+        request.data.events.forEach((event, i) => {
+            const eventRequest: ISendEventToWidgetActionRequest = {
+                api: request.api,
+                widgetId: request.widgetId,
+                requestId: `${request.requestId}-${i}`,
+                action: WidgetApiToWidgetAction.SendEvent,
+                // it's compatible, but missing the index signature
+                data: event as ISendEventToWidgetActionRequest["data"],
+            };
+            this.emit(
+                `action:${WidgetApiToWidgetAction.SendEvent}`,
+                new CustomEvent(`action:${WidgetApiToWidgetAction.SendEvent}`, {
+                    detail: eventRequest,
+                    cancelable: true,
+                }),
+            );
+        });
+        this.transport.reply(request, <IWidgetApiRequestEmptyData>{});
+    }
+
+    private handleUploadProgress(request: IUploadProgressActionRequest): void {
+        const { upload_id: uploadId, sent, total } = request.data;
+        this.uploads.get(uploadId)?.updateProgress({ sent, total });
+        this.transport.reply(request, <IWidgetApiRequestEmptyData>{});
+    }
+
     private replyVersions(request: ISupportedVersionsActionRequest): void {
         this.transport.reply<ISupportedVersionsActionResponseData>(request, {
-            supported_versions: CurrentApiVersions,
+            supported_versions:
+                this.transport instanceof MessageChannelTransport
+                    ? [...CurrentApiVersions, UnstableApiVersion.MessageChannel]
+                    : CurrentApiVersions,
         });
     }
 
@@ -894,7 +1142,7 @@ export class WidgetApi extends EventEmitter {
                 return r.supported_versions;
             })
             .catch((e) => {
-                console.warn("non-fatal error getting supported client versions: ", e);
+                this.logger.warn("non-fatal error getting supported client versions", { error: e });
                 return [];
             });
     }
@@ -926,8 +1174,16 @@ export class WidgetApi extends EventEmitter {
             // in either case, reply to that capabilities request
             this.capabilitiesFinished = true;
             return this.transport.reply<ICapabilitiesActionResponseData>(request, {
-                capabilities: this.requestedCapabilities,
+                capabilities: this.spellRequestedCapabilities(v),
             });
         });
     }
+
+    /**
+     * Spells the requested capabilities the way the client understands them,
+     * using the stable `m.*` namespace if the client supports it.
+     */
+    private spellRequestedCapabilities(clientVersions: ApiVersion[]): Capability[] {
+        return this.requestedCapabilities.map((c) => spellCapabilityFor(c, clientVersions));
+    }
 }
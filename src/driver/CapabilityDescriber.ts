@@ -0,0 +1,468 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Capability, MatrixCapabilities } from "../interfaces/Capabilities";
+import { parseCapability, StructuredCapability } from "../models/StructuredCapability";
+import { EventDirection, EventKind } from "../models/WidgetEventCapability";
+import { Symbols } from "../Symbols";
+
+export enum CapabilityRisk {
+    Low = "low",
+    Medium = "medium",
+    High = "high",
+}
+
+/**
+ * What a capability lets the widget do, for grouping capabilities in consent
+ * dialogs.
+ */
+export enum CapabilityGroup {
+    /**
+     * How the widget is shown.
+     */
+    Display = "display",
+    /**
+     * Which rooms the widget can use.
+     */
+    Rooms = "rooms",
+    Read = "read",
+    /**
+     * Acting on the user's behalf.
+     */
+    Send = "send",
+    Devices = "devices",
+    Media = "media",
+    Account = "account",
+    Other = "other",
+}
+
+/**
+ * The messages describing capabilities. Messages may contain the placeholders
+ * `{events}`, `{rooms}`, `{eventType}`, `{stateKey}`, `{msgtype}`, `{roomId}`
+ * and `{capability}`.
+ */
+export enum CapabilityMessage {
+    Screenshots = "screenshots",
+    StickerSending = "sticker_sending",
+    AlwaysOnScreen = "always_on_screen",
+    RequiresClient = "requires_client",
+    Navigate = "navigate",
+    TurnServers = "turn_servers",
+    UserDirectorySearch = "user_directory_search",
+    UploadFile = "upload_file",
+    DownloadFile = "download_file",
+    SendDelayedEvent = "send_delayed_event",
+    UpdateDelayedEvent = "update_delayed_event",
+    SendStickyEvent = "send_sticky_event",
+    ReceiveStickyEvent = "receive_sticky_event",
+    TimelineAll = "timeline_all",
+    TimelineRoom = "timeline_room",
+    SendEvent = "send_event",
+    ReceiveEvent = "receive_event",
+    SendStateEvent = "send_state_event",
+    SendOwnStateEvent = "send_own_state_event",
+    SendStateEventWithKey = "send_state_event_with_key",
+    ReceiveStateEvent = "receive_state_event",
+    ReceiveStateEventWithKey = "receive_state_event_with_key",
+    SendToDevice = "send_to_device",
+    ReceiveToDevice = "receive_to_device",
+    SendRoomAccountData = "send_room_account_data",
+    ReceiveRoomAccountData = "receive_room_account_data",
+    Unknown = "unknown",
+
+    // Fragments filling in `{events}`
+    EventsOfType = "events_of_type",
+    EventsWithPrefix = "events_with_prefix",
+    MessagesOfType = "messages_of_type",
+
+    // Fragments filling in `{rooms}`
+    InCurrentRoom = "in_current_room",
+    InSomeRooms = "in_some_rooms",
+    InAllRooms = "in_all_rooms",
+}
+
+/**
+ * The text to describe capabilities with, such as in one language.
+ */
+export interface ICapabilityMessageCatalog {
+    messages: Record<CapabilityMessage, string>;
+
+    /**
+     * Event type → how to refer to events of that type, such as "messages".
+     * Other event types are referred to by {@link CapabilityMessage.EventsOfType}.
+     */
+    eventTypes: Record<string, string>;
+
+    /**
+     * msgtype → how to refer to messages of that type, such as "images". Other
+     * msgtypes are referred to by {@link CapabilityMessage.MessagesOfType}.
+     */
+    msgtypes: Record<string, string>;
+}
+
+export const EnglishCapabilityMessages: ICapabilityMessageCatalog = {
+    messages: {
+        [CapabilityMessage.Screenshots]: "Provide screenshots of itself",
+        [CapabilityMessage.StickerSending]: "Send stickers on your behalf",
+        [CapabilityMessage.AlwaysOnScreen]: "Remain on screen when you leave the room",
+        [CapabilityMessage.RequiresClient]: "Stay open alongside the room",
+        [CapabilityMessage.Navigate]: "Take you to other rooms and people",
+        [CapabilityMessage.TurnServers]: "Use your homeserver's call servers",
+        [CapabilityMessage.UserDirectorySearch]: "Search for people on your homeserver",
+        [CapabilityMessage.UploadFile]: "Upload files to your homeserver",
+        [CapabilityMessage.DownloadFile]: "Download files from your homeserver",
+        [CapabilityMessage.SendDelayedEvent]: "Schedule events to be sent on your behalf",
+        [CapabilityMessage.UpdateDelayedEvent]: "Change or cancel scheduled events",
+        [CapabilityMessage.SendStickyEvent]: "Send sticky events on your behalf",
+        [CapabilityMessage.ReceiveStickyEvent]: "Read sticky events",
+        [CapabilityMessage.TimelineAll]: "Use all your rooms",
+        [CapabilityMessage.TimelineRoom]: "Use the room {roomId}",
+        [CapabilityMessage.SendEvent]: "Send {events} {rooms} on your behalf",
+        [CapabilityMessage.ReceiveEvent]: "Read {events} {rooms}",
+        [CapabilityMessage.SendStateEvent]: "Change {events} {rooms}",
+        [CapabilityMessage.SendOwnStateEvent]: "Send {events} {rooms} on your behalf",
+        [CapabilityMessage.SendStateEventWithKey]: "Change {events} for “{stateKey}” {rooms}",
+        [CapabilityMessage.ReceiveStateEvent]: "See {events} {rooms}",
+        [CapabilityMessage.ReceiveStateEventWithKey]: "See {events} for “{stateKey}” {rooms}",
+        [CapabilityMessage.SendToDevice]: "Send {events} directly to people's devices",
+        [CapabilityMessage.ReceiveToDevice]: "Receive {events} sent directly to your devices",
+        [CapabilityMessage.SendRoomAccountData]: "Change your private “{eventType}” data {rooms}",
+        [CapabilityMessage.ReceiveRoomAccountData]: "Read your private “{eventType}” data {rooms}",
+        [CapabilityMessage.Unknown]: "Use the unknown capability “{capability}”",
+        [CapabilityMessage.EventsOfType]: "“{eventType}” events",
+        [CapabilityMessage.EventsWithPrefix]: "events starting with “{eventType}”",
+        [CapabilityMessage.MessagesOfType]: "“{msgtype}” messages",
+        [CapabilityMessage.InCurrentRoom]: "in this room",
+        [CapabilityMessage.InSomeRooms]: "in this and other allowed rooms",
+        [CapabilityMessage.InAllRooms]: "in all your rooms",
+    },
+    eventTypes: {
+        "m.room.message": "messages",
+        "m.sticker": "stickers",
+        "m.reaction": "reactions",
+        "m.room.redaction": "message removals",
+        "m.room.member": "room membership",
+        "m.room.name": "the room name",
+        "m.room.topic": "the room topic",
+        "m.room.avatar": "the room avatar",
+        "m.room.power_levels": "room permissions",
+        "m.room.encryption": "room encryption settings",
+        "m.room.join_rules": "who can join the room",
+        "m.call.member": "call membership",
+        "org.matrix.msc3401.call.member": "call membership",
+        "io.element.call.encryption_keys": "call encryption keys",
+    },
+    msgtypes: {
+        "m.text": "text messages",
+        "m.emote": "emotes",
+        "m.notice": "notices",
+        "m.image": "images",
+        "m.file": "files",
+        "m.audio": "audio messages",
+        "m.video": "videos",
+        "m.location": "locations",
+    },
+};
+
+/**
+ * A description of a capability for users.
+ */
+export interface ICapabilityDescription {
+    capability: Capability;
+
+    /**
+     * The message describing the capability, for hosts translating it
+     * themselves.
+     */
+    message: CapabilityMessage;
+
+    /**
+     * The values filling in the message's placeholders.
+     */
+    params: Record<string, string>;
+
+    /**
+     * The message from the catalog with its placeholders filled in.
+     */
+    text: string;
+
+    risk: CapabilityRisk;
+    group: CapabilityGroup;
+}
+
+export interface ICapabilityDescriberOptions {
+    /**
+     * The text to describe capabilities with. Defaults to English.
+     */
+    catalog?: ICapabilityMessageCatalog;
+
+    /**
+     * The ID of the user the client is logged in as, to recognise state the
+     * user owns, such as their call membership.
+     */
+    userId?: string;
+}
+
+interface IMessage {
+    message: CapabilityMessage;
+    risk: CapabilityRisk;
+    group: CapabilityGroup;
+}
+
+// Gets a value set on the record itself, as the keys come from widgets and
+// may name members of Object.prototype, such as "constructor"
+function ownValue<T>(record: Record<string, T>, key: string): T | undefined {
+    return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+const KnownCapabilities: Record<MatrixCapabilities, IMessage> = {
+    [MatrixCapabilities.Screenshots]: {
+        message: CapabilityMessage.Screenshots,
+        risk: CapabilityRisk.Low,
+        group: CapabilityGroup.Display,
+    },
+    [MatrixCapabilities.StickerSending]: {
+        message: CapabilityMessage.StickerSending,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Send,
+    },
+    [MatrixCapabilities.AlwaysOnScreen]: {
+        message: CapabilityMessage.AlwaysOnScreen,
+        risk: CapabilityRisk.Low,
+        group: CapabilityGroup.Display,
+    },
+    [MatrixCapabilities.RequiresClient]: {
+        message: CapabilityMessage.RequiresClient,
+        risk: CapabilityRisk.Low,
+        group: CapabilityGroup.Display,
+    },
+    [MatrixCapabilities.MSC2931Navigate]: {
+        message: CapabilityMessage.Navigate,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Display,
+    },
+    [MatrixCapabilities.MSC3846TurnServers]: {
+        message: CapabilityMessage.TurnServers,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Account,
+    },
+    [MatrixCapabilities.MSC3973UserDirectorySearch]: {
+        message: CapabilityMessage.UserDirectorySearch,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Account,
+    },
+    [MatrixCapabilities.MSC4039UploadFile]: {
+        message: CapabilityMessage.UploadFile,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Media,
+    },
+    [MatrixCapabilities.MSC4039DownloadFile]: {
+        message: CapabilityMessage.DownloadFile,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Media,
+    },
+    [MatrixCapabilities.MSC4157SendDelayedEvent]: {
+        message: CapabilityMessage.SendDelayedEvent,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Send,
+    },
+    [MatrixCapabilities.MSC4157UpdateDelayedEvent]: {
+        message: CapabilityMessage.UpdateDelayedEvent,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Send,
+    },
+    [MatrixCapabilities.MSC4407SendStickyEvent]: {
+        message: CapabilityMessage.SendStickyEvent,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Send,
+    },
+    [MatrixCapabilities.MSC4407ReceiveStickyEvent]: {
+        message: CapabilityMessage.ReceiveStickyEvent,
+        risk: CapabilityRisk.Medium,
+        group: CapabilityGroup.Read,
+    },
+};
+
+// Which rooms event capabilities apply to, given the timeline capabilities
+enum RoomScope {
+    Current,
+    Some,
+    All,
+}
+
+const ScopeMessages: Record<RoomScope, CapabilityMessage> = {
+    [RoomScope.Current]: CapabilityMessage.InCurrentRoom,
+    [RoomScope.Some]: CapabilityMessage.InSomeRooms,
+    [RoomScope.All]: CapabilityMessage.InAllRooms,
+};
+
+const RiskOrder = [CapabilityRisk.Low, CapabilityRisk.Medium, CapabilityRisk.High];
+
+/**
+ * Describes capabilities for users, such as in consent dialogs, with how risky
+ * they are and what they are about.
+ */
+export class CapabilityDescriber {
+    private readonly catalog: ICapabilityMessageCatalog;
+    private readonly userId?: string;
+
+    public constructor(options: ICapabilityDescriberOptions = {}) {
+        this.catalog = options.catalog ?? EnglishCapabilityMessages;
+        this.userId = options.userId;
+    }
+
+    /**
+     * Describes capabilities requested together. Event capabilities are
+     * described as applying to the rooms the timeline capabilities among them
+     * allow, and are riskier when those are all the user's rooms.
+     * @param {Iterable<Capability>} capabilities The capabilities to describe.
+     * @returns {ICapabilityDescription[]} A description of each capability, in
+     * the same order.
+     */
+    public describe(capabilities: Iterable<Capability>): ICapabilityDescription[] {
+        const parsed = Array.from(capabilities, (c): [Capability, StructuredCapability] => [c, parseCapability(c)]);
+        let scope = RoomScope.Current;
+        for (const [, cap] of parsed) {
+            if (cap.kind !== "timeline") continue;
+            scope = cap.roomId === Symbols.AnyRoom ? RoomScope.All : Math.max(scope, RoomScope.Some);
+        }
+        return parsed.map(([capability, cap]) => this.describeOne(capability, cap, scope));
+    }
+
+    private describeOne(capability: Capability, cap: StructuredCapability, scope: RoomScope): ICapabilityDescription {
+        const params: Record<string, string> = { capability };
+        let described: IMessage;
+        switch (cap.kind) {
+            case "plain":
+                described = ownValue<IMessage>(KnownCapabilities, capability) ?? {
+                    message: CapabilityMessage.Unknown,
+                    risk: CapabilityRisk.High,
+                    group: CapabilityGroup.Other,
+                };
+                break;
+            case "timeline":
+                params.roomId = cap.roomId;
+                described = {
+                    message:
+                        cap.roomId === Symbols.AnyRoom ? CapabilityMessage.TimelineAll : CapabilityMessage.TimelineRoom,
+                    risk: cap.roomId === Symbols.AnyRoom ? CapabilityRisk.High : CapabilityRisk.Medium,
+                    group: CapabilityGroup.Rooms,
+                };
+                break;
+            default: {
+                params.eventType = cap.eventType;
+                if (cap.kind === EventKind.Event && cap.msgtype !== null) params.msgtype = cap.msgtype;
+                if (cap.kind === EventKind.State && cap.stateKey !== null) params.stateKey = cap.stateKey;
+                params.events = this.describeEvents(cap);
+                params.rooms = this.format(ScopeMessages[scope], params);
+
+                described = this.describeEventCapability(cap);
+                // Reading from all rooms exposes much more than reading from one
+                if (scope === RoomScope.All && described.group === CapabilityGroup.Read) {
+                    described.risk = RiskOrder[Math.min(RiskOrder.indexOf(described.risk) + 1, RiskOrder.length - 1)];
+                }
+            }
+        }
+
+        return { capability, ...described, params, text: this.format(described.message, params) };
+    }
+
+    private describeEventCapability(cap: Exclude<StructuredCapability, { kind: "plain" | "timeline" }>): IMessage {
+        const send = cap.direction === EventDirection.Send;
+        switch (cap.kind) {
+            case EventKind.Event:
+                return send
+                    ? { message: CapabilityMessage.SendEvent, risk: CapabilityRisk.High, group: CapabilityGroup.Send }
+                    : {
+                          message: CapabilityMessage.ReceiveEvent,
+                          risk: CapabilityRisk.Medium,
+                          group: CapabilityGroup.Read,
+                      };
+            case EventKind.State: {
+                if (!send) {
+                    return {
+                        message:
+                            cap.stateKey === null || cap.stateKeyIsPrefix
+                                ? CapabilityMessage.ReceiveStateEvent
+                                : CapabilityMessage.ReceiveStateEventWithKey,
+                        risk: CapabilityRisk.Low,
+                        group: CapabilityGroup.Read,
+                    };
+                }
+                if (cap.stateKey !== null && this.isOwnStateKey(cap.stateKey)) {
+                    return {
+                        message: CapabilityMessage.SendOwnStateEvent,
+                        risk: CapabilityRisk.Medium,
+                        group: CapabilityGroup.Send,
+                    };
+                }
+                return {
+                    message:
+                        cap.stateKey === null || cap.stateKeyIsPrefix
+                            ? CapabilityMessage.SendStateEvent
+                            : CapabilityMessage.SendStateEventWithKey,
+                    risk: CapabilityRisk.High,
+                    group: CapabilityGroup.Send,
+                };
+            }
+            case EventKind.ToDevice:
+                return {
+                    message: send ? CapabilityMessage.SendToDevice : CapabilityMessage.ReceiveToDevice,
+                    risk: CapabilityRisk.Medium,
+                    group: CapabilityGroup.Devices,
+                };
+            case EventKind.RoomAccount:
+                return send
+                    ? {
+                          message: CapabilityMessage.SendRoomAccountData,
+                          risk: CapabilityRisk.High,
+                          group: CapabilityGroup.Send,
+                      }
+                    : {
+                          message: CapabilityMessage.ReceiveRoomAccountData,
+                          risk: CapabilityRisk.Medium,
+                          group: CapabilityGroup.Read,
+                      };
+        }
+    }
+
+    /**
+     * Whether a state key belongs to the user: their user ID, or prefixed with
+     * it as in `_@alice:example.org_DEVICE`.
+     */
+    private isOwnStateKey(stateKey: string): boolean {
+        if (this.userId === undefined) return false;
+        return stateKey === this.userId || stateKey.startsWith(`_${this.userId}_`);
+    }
+
+    private describeEvents(cap: Exclude<StructuredCapability, { kind: "plain" | "timeline" }>): string {
+        const params = { eventType: cap.eventType, msgtype: "" };
+        if (cap.eventTypeIsPrefix) return this.format(CapabilityMessage.EventsWithPrefix, params);
+        if (cap.kind === EventKind.Event && cap.msgtype) {
+            params.msgtype = cap.msgtype;
+            return (
+                ownValue(this.catalog.msgtypes, cap.msgtype) ?? this.format(CapabilityMessage.MessagesOfType, params)
+            );
+        }
+        return ownValue(this.catalog.eventTypes, cap.eventType) ?? this.format(CapabilityMessage.EventsOfType, params);
+    }
+
+    private format(message: CapabilityMessage, params: Record<string, string>): string {
+        return this.catalog.messages[message].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+            Object.prototype.hasOwnProperty.call(params, name) ? params[name] : placeholder,
+        );
+    }
+}
@@ -0,0 +1,316 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { WidgetDriver } from "./WidgetDriver";
+import { Capability, normalizeCapability } from "../interfaces/Capabilities";
+import { Widget } from "../models/Widget";
+
+/**
+ * Identifies whose capabilities a grant is for. Decisions made for a widget
+ * don't carry over to widgets with the same ID served from elsewhere, added by
+ * someone else, or in another room.
+ */
+export interface ICapabilityGrantKey {
+    widgetId: string;
+    origin: string;
+    creatorUserId: string;
+
+    /**
+     * The room the widget is in, if it is a room widget.
+     */
+    roomId?: string;
+}
+
+/**
+ * A remembered decision about a capability.
+ */
+export interface ICapabilityGrant {
+    capability: Capability;
+    allowed: boolean;
+
+    /**
+     * When the decision should be forgotten, in milliseconds since the epoch.
+     * If not set, it is remembered until forgotten explicitly.
+     */
+    expiresAt?: number;
+}
+
+/**
+ * Where a {@link CapabilityGrantStore} keeps its grants.
+ */
+export interface ICapabilityGrantStorage {
+    /**
+     * Loads the grants saved under a key.
+     * @param {string} key The key the grants were saved under.
+     * @returns {Promise<ICapabilityGrant[]>} Resolves to the grants, which are
+     * empty if none were saved.
+     */
+    load(key: string): Promise<ICapabilityGrant[]>;
+
+    /**
+     * Saves grants under a key, replacing any saved before.
+     * @param {string} key The key to save the grants under.
+     * @param {ICapabilityGrant[]} grants The grants to save. If empty, the key
+     * may be removed.
+     * @returns {Promise<void>} Resolves when saved.
+     */
+    save(key: string, grants: ICapabilityGrant[]): Promise<void>;
+}
+
+/**
+ * Keeps grants for as long as it exists.
+ */
+export class InMemoryCapabilityGrantStorage implements ICapabilityGrantStorage {
+    private readonly grants = new Map<string, ICapabilityGrant[]>();
+
+    public async load(key: string): Promise<ICapabilityGrant[]> {
+        return (this.grants.get(key) ?? []).map((g) => ({ ...g }));
+    }
+
+    public async save(key: string, grants: ICapabilityGrant[]): Promise<void> {
+        if (grants.length > 0) {
+            this.grants.set(
+                key,
+                grants.map((g) => ({ ...g })),
+            );
+        } else {
+            this.grants.delete(key);
+        }
+    }
+}
+
+/**
+ * Somewhere to keep strings, such as the browser's localStorage.
+ */
+export interface IStringStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Keeps grants as JSON in a string storage, such as the browser's
+ * localStorage, so that they survive the client being reloaded.
+ */
+export class JsonCapabilityGrantStorage implements ICapabilityGrantStorage {
+    /**
+     * Creates grant storage over a string storage.
+     * @param {IStringStorage} storage Where to keep the JSON.
+     * @param {string} prefix Prepended to the keys in the string storage, to keep
+     * them apart from anything else kept there.
+     */
+    public constructor(
+        private readonly storage: IStringStorage,
+        private readonly prefix = "mx_widget_capability_grants_",
+    ) {}
+
+    public async load(key: string): Promise<ICapabilityGrant[]> {
+        const json = this.storage.getItem(this.prefix + key);
+        if (json === null) return [];
+
+        let grants: unknown;
+        try {
+            grants = JSON.parse(json);
+        } catch {
+            // Treat unreadable grants as if there weren't any, so the user is asked again
+            return [];
+        }
+        return Array.isArray(grants) ? grants.filter(isGrant) : [];
+    }
+
+    public async save(key: string, grants: ICapabilityGrant[]): Promise<void> {
+        if (grants.length > 0) {
+            this.storage.setItem(this.prefix + key, JSON.stringify(grants));
+        } else {
+            this.storage.removeItem(this.prefix + key);
+        }
+    }
+}
+
+function isGrant(grant: unknown): grant is ICapabilityGrant {
+    if (typeof grant !== "object" || grant === null) return false;
+    const { capability, allowed, expiresAt } = grant as Record<string, unknown>;
+    return (
+        typeof capability === "string" &&
+        typeof allowed === "boolean" &&
+        (expiresAt === undefined || typeof expiresAt === "number")
+    );
+}
+
+export interface ICapabilityGrantStoreOptions {
+    /**
+     * Where to keep the grants. Defaults to keeping them in memory.
+     */
+    storage?: ICapabilityGrantStorage;
+
+    /**
+     * Gets the current time, in milliseconds since the epoch. Defaults to
+     * Date.now.
+     */
+    now?(): number;
+}
+
+/**
+ * Remembers which capabilities the user has allowed or denied widgets, so
+ * that they aren't asked about the same capabilities again.
+ */
+export class CapabilityGrantStore {
+    private readonly storage: ICapabilityGrantStorage;
+    private readonly now: () => number;
+
+    public constructor(options: ICapabilityGrantStoreOptions = {}) {
+        this.storage = options.storage ?? new InMemoryCapabilityGrantStorage();
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * Gets the key for a widget's grants.
+     * @param {Widget} widget The widget.
+     * @param {string} roomId The room the widget is in, if it is a room widget.
+     * @returns {ICapabilityGrantKey} The key.
+     */
+    public static keyFor(widget: Widget, roomId?: string): ICapabilityGrantKey {
+        return { widgetId: widget.id, origin: widget.origin, creatorUserId: widget.creatorUserId, roomId };
+    }
+
+    /**
+     * Gets the decisions remembered for a widget which haven't expired.
+     * @param {ICapabilityGrantKey} key Whose decisions to get.
+     * @returns {Promise<ICapabilityGrant[]>} Resolves to the decisions.
+     */
+    public async getGrants(key: ICapabilityGrantKey): Promise<ICapabilityGrant[]> {
+        const now = this.now();
+        return (await this.storage.load(storageKey(key))).filter((g) => g.expiresAt === undefined || g.expiresAt > now);
+    }
+
+    /**
+     * Remembers a decision about capabilities, replacing any earlier decision
+     * about them in either spelling. Capabilities are remembered in their stable
+     * spelling.
+     * @param {ICapabilityGrantKey} key Whose decision it is.
+     * @param {Iterable<Capability>} capabilities The capabilities decided on.
+     * @param {boolean} allowed Whether the capabilities were allowed.
+     * @param {number} expiresAt When to forget the decision, in milliseconds since
+     * the epoch. If not set, it is remembered until forgotten explicitly.
+     * @returns {Promise<void>} Resolves when remembered.
+     */
+    public async remember(
+        key: ICapabilityGrantKey,
+        capabilities: Iterable<Capability>,
+        allowed: boolean,
+        expiresAt?: number,
+    ): Promise<void> {
+        const decided = new Set(Array.from(capabilities, normalizeCapability));
+        if (decided.size === 0) return;
+
+        const grants = (await this.getGrants(key)).filter((g) => !decided.has(normalizeCapability(g.capability)));
+        for (const capability of decided) {
+            grants.push(expiresAt === undefined ? { capability, allowed } : { capability, allowed, expiresAt });
+        }
+        await this.storage.save(storageKey(key), grants);
+    }
+
+    /**
+     * Forgets decisions, so that the user is asked again.
+     * @param {ICapabilityGrantKey} key Whose decisions to forget.
+     * @param {Iterable<Capability>} capabilities The capabilities to forget the
+     * decisions about. If not set, all decisions for the key are forgotten.
+     * @returns {Promise<void>} Resolves when forgotten.
+     */
+    public async forget(key: ICapabilityGrantKey, capabilities?: Iterable<Capability>): Promise<void> {
+        if (capabilities === undefined) return this.storage.save(storageKey(key), []);
+
+        const forgotten = new Set(Array.from(capabilities, normalizeCapability));
+        const grants = await this.getGrants(key);
+        await this.storage.save(
+            storageKey(key),
+            grants.filter((g) => !forgotten.has(normalizeCapability(g.capability))),
+        );
+    }
+}
+
+function storageKey(key: ICapabilityGrantKey): string {
+    // Serialised as an array so that no field can run into the next
+    return JSON.stringify([key.widgetId, key.origin, key.creatorUserId, key.roomId ?? null]);
+}
+
+export interface ICapabilityGrantOptions {
+    /**
+     * Whether to remember the capabilities the driver allows. Defaults to true.
+     */
+    rememberAllowed?: boolean;
+
+    /**
+     * Whether to remember the capabilities the driver denies, so that the user
+     * isn't asked about them again either. Defaults to false.
+     */
+    rememberDenied?: boolean;
+
+    /**
+     * How long to remember decisions for, in milliseconds. If not set, they
+     * are remembered until forgotten explicitly.
+     */
+    rememberFor?: number;
+
+    /**
+     * Gets the current time, in milliseconds since the epoch. Defaults to
+     * Date.now.
+     */
+    now?(): number;
+}
+
+/**
+ * Makes a driver consult a grant store before validating capabilities. Only
+ * capabilities the store has no decision about are passed on to the driver's
+ * own validateCapabilities, whose decisions are then remembered.
+ * @param {WidgetDriver} driver The driver to wrap. It is modified in place.
+ * @param {CapabilityGrantStore} store The store to consult.
+ * @param {ICapabilityGrantKey} key Whose capabilities the driver is validating.
+ * @param {ICapabilityGrantOptions} options Which decisions to remember, and for
+ * how long.
+ * @returns {WidgetDriver} The same driver.
+ */
+export function withCapabilityGrants<T extends WidgetDriver>(
+    driver: T,
+    store: CapabilityGrantStore,
+    key: ICapabilityGrantKey,
+    options: ICapabilityGrantOptions = {},
+): T {
+    const validateCapabilities = driver.validateCapabilities.bind(driver);
+    const { rememberAllowed = true, rememberDenied = false, rememberFor, now = Date.now } = options;
+
+    driver.validateCapabilities = async (requested: Set<Capability>): Promise<Set<Capability>> => {
+        // Decisions apply to both spellings of a capability
+        const decisions = new Map(
+            (await store.getGrants(key)).map((g) => [normalizeCapability(g.capability), g.allowed]),
+        );
+        const allowed = new Set([...requested].filter((c) => decisions.get(normalizeCapability(c)) === true));
+        const undecided = new Set([...requested].filter((c) => !decisions.has(normalizeCapability(c))));
+        if (undecided.size === 0) return allowed;
+
+        const allowedByDriver = await validateCapabilities(undecided);
+        // Drivers may only allow what was requested
+        const newlyAllowed = [...allowedByDriver].filter((c) => undecided.has(c));
+        const newlyDenied = [...undecided].filter((c) => !allowedByDriver.has(c));
+        const expiresAt = rememberFor === undefined ? undefined : now() + rememberFor;
+        if (rememberAllowed) await store.remember(key, newlyAllowed, true, expiresAt);
+        if (rememberDenied) await store.remember(key, newlyDenied, false, expiresAt);
+
+        for (const c of newlyAllowed) allowed.add(c);
+        return allowed;
+    };
+    return driver;
+}
@@ -0,0 +1,330 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { WidgetDriver } from "./WidgetDriver";
+import { Capability, isSameCapability, normalizeCapability } from "../interfaces/Capabilities";
+import { WidgetType } from "../interfaces/WidgetType";
+import { Widget } from "../models/Widget";
+import { EventDirection, EventKind, WidgetEventCapability } from "../models/WidgetEventCapability";
+
+export enum PolicyOutcome {
+    Allow = "allow",
+    Deny = "deny",
+    /**
+     * Leave the decision to the user.
+     */
+    Prompt = "prompt",
+}
+
+/**
+ * Matches event capabilities by what they let the widget do. Unset fields
+ * match anything.
+ */
+export interface IEventCapabilityMatcher {
+    kind?: EventKind;
+    direction?: EventDirection;
+    eventType?: string;
+
+    /**
+     * The state key the capability is limited to. Only state event
+     * capabilities have state keys.
+     */
+    stateKey?: string;
+
+    /**
+     * Whether the capability must be limited to the user's own state key.
+     */
+    stateKeyIsUserId?: boolean;
+
+    /**
+     * Whether the capability must, or must not, be a pattern covering more
+     * than one event type or state key.
+     */
+    isPattern?: boolean;
+}
+
+/**
+ * A rule about which capabilities widgets may have. A rule applies to a
+ * capability when everything it specifies matches; unset fields match
+ * anything. Rules are plain data, so they can be loaded from configuration.
+ */
+export interface ICapabilityPolicyRule {
+    /**
+     * Identifies the rule in decision traces.
+     */
+    id: string;
+
+    /**
+     * What happens to capabilities the rule applies to.
+     */
+    outcome: PolicyOutcome;
+
+    /**
+     * The types of widget the rule applies to.
+     */
+    widgetTypes?: WidgetType[];
+
+    /**
+     * The origins of widgets the rule applies to, such as "https://example.org".
+     */
+    origins?: string[];
+
+    /**
+     * The capabilities the rule applies to, in either their unstable or stable
+     * spelling.
+     */
+    capabilities?: Capability[];
+
+    /**
+     * Prefixes of the capabilities the rule applies to.
+     */
+    capabilityPrefixes?: string[];
+
+    /**
+     * The event capabilities the rule applies to. Other capabilities don't
+     * match.
+     */
+    events?: IEventCapabilityMatcher;
+}
+
+/**
+ * Who a policy is being evaluated for.
+ */
+export interface ICapabilityPolicyContext {
+    widget: Widget;
+
+    /**
+     * The ID of the user the client is logged in as.
+     */
+    userId: string;
+}
+
+/**
+ * How a rule was evaluated against a capability.
+ */
+export interface IPolicyRuleEvaluation {
+    ruleId: string;
+    outcome: PolicyOutcome;
+    matched: boolean;
+
+    /**
+     * Why the rule didn't apply, if it didn't.
+     */
+    reason?: string;
+}
+
+/**
+ * The decision about a capability, with how it was reached.
+ */
+export interface ICapabilityPolicyDecision {
+    capability: Capability;
+    outcome: PolicyOutcome;
+
+    /**
+     * The rule which decided the outcome. Not set if no rule applied and the
+     * policy's default outcome was used.
+     */
+    ruleId?: string;
+
+    /**
+     * Every rule in the policy, in order, and how it evaluated.
+     */
+    trace: IPolicyRuleEvaluation[];
+}
+
+export interface ICapabilityPolicyResult {
+    allowed: Set<Capability>;
+    denied: Set<Capability>;
+    prompt: Set<Capability>;
+    decisions: ICapabilityPolicyDecision[];
+}
+
+export interface ICapabilityPolicyOptions {
+    /**
+     * The outcome for capabilities no rule applies to. Defaults to prompting.
+     */
+    defaultOutcome?: PolicyOutcome;
+}
+
+// When several rules apply to a capability, the most restrictive wins
+const OutcomePrecedence: PolicyOutcome[] = [PolicyOutcome.Deny, PolicyOutcome.Prompt, PolicyOutcome.Allow];
+
+/**
+ * Decides which capabilities widgets may have from a list of rules. Denying
+ * rules take precedence over prompting ones, which take precedence over
+ * allowing ones, so the order of the rules doesn't change the outcome.
+ */
+export class CapabilityPolicy {
+    private readonly defaultOutcome: PolicyOutcome;
+
+    public constructor(
+        public readonly rules: ICapabilityPolicyRule[],
+        options: ICapabilityPolicyOptions = {},
+    ) {
+        this.defaultOutcome = options.defaultOutcome ?? PolicyOutcome.Prompt;
+    }
+
+    /**
+     * Decides on the capabilities a widget has requested.
+     * @param {Iterable<Capability|WidgetEventCapability>} requested The requested
+     * capabilities.
+     * @param {ICapabilityPolicyContext} context Who the capabilities are for.
+     * @returns {ICapabilityPolicyResult} The capabilities grouped by outcome, and
+     * the decision about each of them.
+     */
+    public evaluate(
+        requested: Iterable<Capability | WidgetEventCapability>,
+        context: ICapabilityPolicyContext,
+    ): ICapabilityPolicyResult {
+        const result: ICapabilityPolicyResult = {
+            allowed: new Set(),
+            denied: new Set(),
+            prompt: new Set(),
+            decisions: [],
+        };
+        for (const entry of requested) {
+            const decision = this.decide(entry instanceof WidgetEventCapability ? entry.raw : entry, context);
+            result.decisions.push(decision);
+            if (decision.outcome === PolicyOutcome.Allow) result.allowed.add(decision.capability);
+            else if (decision.outcome === PolicyOutcome.Deny) result.denied.add(decision.capability);
+            else result.prompt.add(decision.capability);
+        }
+        return result;
+    }
+
+    private decide(capability: Capability, context: ICapabilityPolicyContext): ICapabilityPolicyDecision {
+        const [eventCapability] = WidgetEventCapability.findEventCapabilities([capability], true);
+        const trace = this.rules.map((rule): IPolicyRuleEvaluation => {
+            const reason = mismatch(rule, capability, eventCapability, context);
+            return reason === undefined
+                ? { ruleId: rule.id, outcome: rule.outcome, matched: true }
+                : { ruleId: rule.id, outcome: rule.outcome, matched: false, reason };
+        });
+
+        for (const outcome of OutcomePrecedence) {
+            const deciding = trace.find((e) => e.matched && e.outcome === outcome);
+            if (deciding) return { capability, outcome, ruleId: deciding.ruleId, trace };
+        }
+        return { capability, outcome: this.defaultOutcome, trace };
+    }
+}
+
+/**
+ * Explains why a rule doesn't apply to a capability.
+ * @returns {string|undefined} The reason, or undefined if the rule applies.
+ */
+function mismatch(
+    rule: ICapabilityPolicyRule,
+    capability: Capability,
+    eventCapability: WidgetEventCapability | undefined,
+    context: ICapabilityPolicyContext,
+): string | undefined {
+    const { widget, userId } = context;
+    if (rule.widgetTypes && !rule.widgetTypes.includes(widget.type)) {
+        return `Widget type ${widget.type} is not one of ${rule.widgetTypes.join(", ")}`;
+    }
+    if (rule.origins && !rule.origins.includes(widget.origin)) {
+        return `Widget origin ${widget.origin} is not one of ${rule.origins.join(", ")}`;
+    }
+    if (rule.capabilities && !rule.capabilities.some((c) => isSameCapability(c, capability))) {
+        return "Capability is not listed";
+    }
+    if (
+        rule.capabilityPrefixes &&
+        !rule.capabilityPrefixes.some(
+            (p) => capability.startsWith(p) || normalizeCapability(capability).startsWith(normalizeCapability(p)),
+        )
+    ) {
+        return "Capability does not start with a listed prefix";
+    }
+
+    const events = rule.events;
+    if (events) {
+        if (!eventCapability) return "Capability is not an event capability";
+        if (events.kind !== undefined && eventCapability.kind !== events.kind) {
+            return `Event capability is for ${eventCapability.kind}, not ${events.kind}`;
+        }
+        if (events.direction !== undefined && eventCapability.direction !== events.direction) {
+            return `Event capability is to ${eventCapability.direction}, not ${events.direction}`;
+        }
+        if (events.isPattern !== undefined && eventCapability.isPattern !== events.isPattern) {
+            return eventCapability.isPattern ? "Event capability is a pattern" : "Event capability is not a pattern";
+        }
+        if (events.eventType !== undefined) {
+            // Like state keys, event types only match patterns if the rule asks for them
+            if (eventCapability.eventTypeIsPrefix && events.isPattern !== true) {
+                return "Event capability is for an event type pattern";
+            }
+            if (eventCapability.eventType !== events.eventType) {
+                return `Event type ${eventCapability.eventType} is not ${events.eventType}`;
+            }
+        }
+        if (events.stateKey !== undefined || events.stateKeyIsUserId) {
+            if (eventCapability.kind !== EventKind.State || eventCapability.keyStr === null) {
+                return "Event capability is not limited to a state key";
+            }
+            if (eventCapability.keyStrIsPrefix) return "Event capability is limited to a state key pattern";
+            if (events.stateKey !== undefined && eventCapability.keyStr !== events.stateKey) {
+                return `State key ${eventCapability.keyStr} is not ${events.stateKey}`;
+            }
+            if (events.stateKeyIsUserId && eventCapability.keyStr !== userId) {
+                return `State key ${eventCapability.keyStr} is not the user's ID`;
+            }
+        }
+    }
+    return undefined;
+}
+
+export interface ICapabilityPolicyDriverOptions {
+    /**
+     * Called with the result of every evaluation, such as to keep an audit log.
+     */
+    onEvaluated?(result: ICapabilityPolicyResult): void;
+}
+
+/**
+ * Makes a driver apply a policy when validating capabilities. Capabilities the
+ * policy allows or denies are decided without the driver, whose own
+ * validateCapabilities is only asked about those the policy prompts for.
+ * @param {WidgetDriver} driver The driver to wrap. It is modified in place.
+ * @param {CapabilityPolicy} policy The policy to apply.
+ * @param {ICapabilityPolicyContext} context Who the driver is validating
+ * capabilities for.
+ * @param {ICapabilityPolicyDriverOptions} options Additional options.
+ * @returns {WidgetDriver} The same driver.
+ */
+export function withCapabilityPolicy<T extends WidgetDriver>(
+    driver: T,
+    policy: CapabilityPolicy,
+    context: ICapabilityPolicyContext,
+    options: ICapabilityPolicyDriverOptions = {},
+): T {
+    const validateCapabilities = driver.validateCapabilities.bind(driver);
+
+    driver.validateCapabilities = async (requested: Set<Capability>): Promise<Set<Capability>> => {
+        const result = policy.evaluate(requested, context);
+        options.onEvaluated?.(result);
+        if (result.prompt.size === 0) return result.allowed;
+
+        const allowed = new Set(result.allowed);
+        // Drivers may only allow what they were asked about
+        for (const c of await validateCapabilities(result.prompt)) {
+            if (result.prompt.has(c)) allowed.add(c);
+        }
+        return allowed;
+    };
+    return driver;
+}
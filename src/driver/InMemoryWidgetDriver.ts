@@ -0,0 +1,782 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ClientWidgetApi } from "../ClientWidgetApi";
+import {
+    IGetMediaConfigResult,
+    IOpenIDUpdate,
+    IReadEventRelationsResult,
+    ISearchUserDirectoryResult,
+    ISendDelayedEventDetails,
+    ISendEventDetails,
+    IUploadFileOptions,
+    WidgetDriver,
+} from "./WidgetDriver";
+import { WidgetDriverFeature } from "./WidgetDriverFeature";
+import { Capability } from "../interfaces/Capabilities";
+import { IRoomEvent } from "../interfaces/IRoomEvent";
+import { IRoomAccountData } from "../interfaces/IRoomAccountData";
+import { IToDeviceMessage } from "../interfaces/IToDeviceMessage";
+import { ITurnServer } from "../interfaces/TurnServerActions";
+import { IOpenIDCredentials, OpenIDRequestState } from "../interfaces/GetOpenIDAction";
+import { IWidgetApiErrorResponseDataDetails } from "../interfaces/IWidgetApiErrorResponse";
+import { SimpleObservable } from "../util/SimpleObservable";
+import { copyBinary } from "../util/transfer";
+import { Symbols } from "../Symbols";
+
+type FileBody = XMLHttpRequestBodyInit | ReadableStream<Uint8Array>;
+
+export interface IInMemoryWidgetDriverOptions {
+    /**
+     * The ID of the user the client is logged in as.
+     */
+    userId: string;
+
+    /**
+     * The ID of the client's device. Defaults to "DEVICE".
+     */
+    deviceId?: string;
+
+    /**
+     * Decides which of the capabilities requested by a widget are approved.
+     * By default, all of them are.
+     */
+    approveCapabilities?(requested: Set<Capability>): Set<Capability> | Promise<Set<Capability>>;
+
+    /**
+     * The OpenID credentials to give widgets. If not set, requests for
+     * credentials are blocked.
+     */
+    openIdCredentials?: IOpenIDCredentials;
+
+    /**
+     * The TURN server to give widgets. If not set, the driver does not
+     * implement the TURN server feature.
+     */
+    turnServer?: ITurnServer;
+
+    /**
+     * The largest upload accepted by the media store, in bytes. Defaults to
+     * 50 MiB.
+     */
+    maxUploadSize?: number;
+
+    /**
+     * Gets the current time, in milliseconds since the epoch. Defaults to
+     * Date.now.
+     */
+    now?(): number;
+}
+
+export interface IInMemoryEventFields {
+    type: string;
+    content: Record<string, unknown>;
+    /**
+     * Defaults to the driver's user.
+     */
+    sender?: string;
+    stateKey?: string;
+    unsigned?: Record<string, unknown>;
+    /**
+     * Makes the event sticky (MSC4354) for this long.
+     */
+    stickyDurationMs?: number;
+}
+
+export interface IInMemoryUserProfile {
+    displayName?: string;
+    avatarUrl?: string;
+}
+
+export interface IInMemoryDelayedEvent {
+    delayId: string;
+    roomId: string;
+    type: string;
+    content: Record<string, unknown>;
+    stateKey: string | null;
+    delay: number | null;
+    parentDelayId: string | null;
+    stickyDurationMs: number | null;
+}
+
+interface IInMemoryRoom {
+    timeline: IRoomEvent[];
+    // event type → state key → event
+    state: Map<string, Map<string, IRoomEvent>>;
+    // event type → content
+    accountData: Map<string, Record<string, unknown>>;
+}
+
+/**
+ * An error as the in-memory homeserver would have responded with it.
+ */
+class InMemoryMatrixError extends Error {
+    public constructor(
+        public readonly errcode: string,
+        message: string,
+        public readonly httpStatus = 400,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * A widget driver backed by an in-memory model of a homeserver, implementing
+ * every driver function. It can be used to run widgets offline, such as in
+ * tests, and as a reference for how drivers are expected to behave.
+ *
+ * The model holds rooms (with their timelines, state and account data),
+ * to-device inboxes, delayed and sticky events, a user directory and a media
+ * store. Changes to it are fed to every {@link ClientWidgetApi} attached with
+ * {@link attach}, in the same way a client would.
+ *
+ * Delayed events without a delay of their own are sent along with the
+ * delayed event they are grouped with, and cancelled along with it.
+ */
+export class InMemoryWidgetDriver extends WidgetDriver {
+    /**
+     * The matrix.to URIs widgets have navigated the client to.
+     */
+    public readonly navigations: string[] = [];
+
+    private readonly userId: string;
+    private readonly deviceId: string;
+    private readonly serverName: string;
+    private readonly now: () => number;
+    private readonly apis = new Set<ClientWidgetApi>();
+    private readonly rooms = new Map<string, IInMemoryRoom>();
+    private readonly users = new Map<string, IInMemoryUserProfile>();
+    // user ID → device ID → messages
+    private readonly toDeviceInboxes = new Map<string, Map<string, IToDeviceMessage[]>>();
+    private readonly delayedEvents = new Map<string, IInMemoryDelayedEvent>();
+    private readonly delayTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    private readonly media = new Map<string, FileBody>();
+    private readonly pendingFeeds = new Set<Promise<void>>();
+    private viewedRoomId: string | null = null;
+    private nextId = 0;
+
+    /**
+     * Creates a new in-memory driver.
+     * @param {IInMemoryWidgetDriverOptions} options The options for the driver.
+     */
+    public constructor(private readonly options: IInMemoryWidgetDriverOptions) {
+        super();
+        this.userId = options.userId;
+        this.deviceId = options.deviceId ?? "DEVICE";
+        this.serverName = options.userId.substring(options.userId.indexOf(":") + 1);
+        this.now = options.now ?? Date.now;
+    }
+
+    public getFeatures(): Set<WidgetDriverFeature> {
+        const features = new Set(Object.values(WidgetDriverFeature));
+        if (!this.options.turnServer) features.delete(WidgetDriverFeature.TurnServers);
+        return features;
+    }
+
+    /**
+     * Starts feeding changes to the model to a widget.
+     * @param {ClientWidgetApi} api The API talking to the widget.
+     */
+    public attach(api: ClientWidgetApi): void {
+        this.apis.add(api);
+        if (this.viewedRoomId !== null) api.setViewedRoomId(this.viewedRoomId);
+    }
+
+    /**
+     * Stops feeding changes to the model to a widget.
+     * @param {ClientWidgetApi} api The API talking to the widget.
+     */
+    public detach(api: ClientWidgetApi): void {
+        this.apis.delete(api);
+    }
+
+    /**
+     * Waits for everything fed to attached widgets so far to be delivered.
+     * @returns {Promise<void>} Resolves once delivered, whether successfully or not.
+     */
+    public async flush(): Promise<void> {
+        while (this.pendingFeeds.size > 0) await Promise.allSettled([...this.pendingFeeds]);
+    }
+
+    /**
+     * Cancels the timers of all pending delayed events, without sending them.
+     */
+    public stop(): void {
+        for (const timer of this.delayTimers.values()) clearTimeout(timer);
+        this.delayTimers.clear();
+        this.delayedEvents.clear();
+    }
+
+    /**
+     * Sets the room the user is looking at, telling attached widgets.
+     * @param {string|null} roomId The room ID, or null if not looking at a room.
+     */
+    public viewRoom(roomId: string | null): void {
+        if (roomId !== null) this.addRoom(roomId);
+        this.viewedRoomId = roomId;
+        for (const api of this.apis) api.setViewedRoomId(roomId);
+    }
+
+    /**
+     * Adds a room to the model, if it isn't there already.
+     * @param {string} roomId The room ID.
+     */
+    public addRoom(roomId: string): void {
+        if (!this.rooms.has(roomId)) {
+            this.rooms.set(roomId, { timeline: [], state: new Map(), accountData: new Map() });
+        }
+    }
+
+    /**
+     * Adds an event to a room as if the homeserver had received it, such as
+     * from another user, feeding it to attached widgets.
+     * @param {string} roomId The room ID.
+     * @param {IInMemoryEventFields} fields The event.
+     * @returns {IRoomEvent} The event as stored.
+     */
+    public addEvent(roomId: string, fields: IInMemoryEventFields): IRoomEvent {
+        this.addRoom(roomId);
+        const event: IRoomEvent = {
+            type: fields.type,
+            sender: fields.sender ?? this.userId,
+            event_id: `$${this.generateId()}:${this.serverName}`,
+            room_id: roomId,
+            origin_server_ts: this.now(),
+            content: fields.content,
+            unsigned: fields.unsigned ?? {},
+        };
+        if (fields.stateKey !== undefined) event.state_key = fields.stateKey;
+        if (fields.stickyDurationMs !== undefined) event.msc4354_sticky = { duration_ms: fields.stickyDurationMs };
+
+        const room = this.rooms.get(roomId)!;
+        room.timeline.push(event);
+        this.feed((api) => api.feedEvent(event));
+        if (event.state_key !== undefined) {
+            let stateKeys = room.state.get(event.type);
+            if (!stateKeys) {
+                stateKeys = new Map();
+                room.state.set(event.type, stateKeys);
+            }
+            stateKeys.set(event.state_key, event);
+            this.feed((api) => api.feedStateUpdate(event));
+        }
+        return event;
+    }
+
+    /**
+     * Sets an element of room account data.
+     * @param {string} roomId The room ID.
+     * @param {string} type The event type of the account data.
+     * @param {Object} content The content of the account data.
+     */
+    public setRoomAccountData(roomId: string, type: string, content: Record<string, unknown>): void {
+        this.addRoom(roomId);
+        this.rooms.get(roomId)!.accountData.set(type, content);
+    }
+
+    /**
+     * Adds a user to the user directory.
+     * @param {string} userId The user ID.
+     * @param {IInMemoryUserProfile} profile The user's profile.
+     */
+    public addUser(userId: string, profile: IInMemoryUserProfile = {}): void {
+        this.users.set(userId, profile);
+    }
+
+    /**
+     * Delivers a to-device message to the client's device, feeding it to
+     * attached widgets.
+     * @param {IToDeviceMessage} message The message.
+     * @param {boolean} encrypted Whether the message was encrypted.
+     */
+    public receiveToDevice(message: IToDeviceMessage, encrypted = false): void {
+        this.deliverToDevice(this.userId, this.deviceId, message);
+        this.feed((api) => api.feedToDevice(message, encrypted));
+    }
+
+    /**
+     * Gets the timeline of a room, oldest event first.
+     * @param {string} roomId The room ID.
+     * @returns {IRoomEvent[]} The room's events.
+     */
+    public getTimeline(roomId: string): IRoomEvent[] {
+        return [...(this.rooms.get(roomId)?.timeline ?? [])];
+    }
+
+    /**
+     * Gets the current value of a room state entry.
+     * @param {string} roomId The room ID.
+     * @param {string} type The event type of the entry.
+     * @param {string} stateKey The state key of the entry.
+     * @returns {IRoomEvent|undefined} The state event, if any.
+     */
+    public getStateEvent(roomId: string, type: string, stateKey: string): IRoomEvent | undefined {
+        return this.rooms.get(roomId)?.state.get(type)?.get(stateKey);
+    }
+
+    /**
+     * Gets the to-device messages sent to a device, oldest first.
+     * @param {string} userId The user ID.
+     * @param {string} deviceId The device ID.
+     * @returns {IToDeviceMessage[]} The messages.
+     */
+    public getToDeviceInbox(userId: string, deviceId: string): IToDeviceMessage[] {
+        return [...(this.toDeviceInboxes.get(userId)?.get(deviceId) ?? [])];
+    }
+
+    /**
+     * Gets the delayed events which have not yet been sent or cancelled.
+     * @returns {IInMemoryDelayedEvent[]} The delayed events.
+     */
+    public getDelayedEvents(): IInMemoryDelayedEvent[] {
+        return [...this.delayedEvents.values()].map((e) => ({ ...e }));
+    }
+
+    /**
+     * Gets a file from the media store.
+     * @param {string} contentUri The MXC URI of the file.
+     * @returns {XMLHttpRequestBodyInit|undefined} The file, if any.
+     */
+    public getMedia(contentUri: string): FileBody | undefined {
+        return this.media.get(contentUri);
+    }
+
+    public async validateCapabilities(requested: Set<Capability>): Promise<Set<Capability>> {
+        return this.options.approveCapabilities ? this.options.approveCapabilities(requested) : new Set(requested);
+    }
+
+    public async sendEvent(
+        eventType: string,
+        content: unknown,
+        stateKey: string | null = null,
+        roomId: string | null = null,
+    ): Promise<ISendEventDetails> {
+        const event = this.addEvent(this.resolveRoomId(roomId), {
+            type: eventType,
+            content: this.checkContent(content),
+            stateKey: stateKey ?? undefined,
+        });
+        return { roomId: event.room_id, eventId: event.event_id };
+    }
+
+    public async sendStickyEvent(
+        stickyDurationMs: number,
+        eventType: string,
+        content: unknown,
+        roomId: string | null = null,
+    ): Promise<ISendEventDetails> {
+        const event = this.addStickyEvent(this.resolveRoomId(roomId), stickyDurationMs, eventType, content);
+        return { roomId: event.room_id, eventId: event.event_id };
+    }
+
+    public async sendDelayedEvent(
+        delay: number | null,
+        parentDelayId: string | null,
+        eventType: string,
+        content: unknown,
+        stateKey: string | null = null,
+        roomId: string | null = null,
+    ): Promise<ISendDelayedEventDetails> {
+        return this.addDelayedEvent(delay, parentDelayId, null, eventType, content, stateKey, roomId);
+    }
+
+    public async sendDelayedStickyEvent(
+        delay: number | null,
+        parentDelayId: string | null,
+        stickyDurationMs: number,
+        eventType: string,
+        content: unknown,
+        roomId: string | null = null,
+    ): Promise<ISendDelayedEventDetails> {
+        return this.addDelayedEvent(delay, parentDelayId, stickyDurationMs, eventType, content, null, roomId);
+    }
+
+    public async cancelScheduledDelayedEvent(delayId: string): Promise<void> {
+        for (const event of this.delayedEventGroup(delayId)) this.removeDelayedEvent(event.delayId);
+    }
+
+    public async restartScheduledDelayedEvent(delayId: string): Promise<void> {
+        const event = this.getDelayedEvent(delayId);
+        if (event.delay !== null) this.scheduleDelayedEvent(event);
+    }
+
+    public async sendScheduledDelayedEvent(delayId: string): Promise<void> {
+        this.sendDelayedEventGroup(delayId);
+    }
+
+    public async sendToDevice(
+        eventType: string,
+        encrypted: boolean,
+        contentMap: { [userId: string]: { [deviceId: string]: object } },
+    ): Promise<void> {
+        for (const [userId, devices] of Object.entries(contentMap)) {
+            for (const [deviceId, content] of Object.entries(devices)) {
+                const message: IToDeviceMessage = {
+                    type: eventType,
+                    sender: this.userId,
+                    content: <Record<string, unknown>>content,
+                };
+                const deviceIds = deviceId === "*" ? [...(this.toDeviceInboxes.get(userId)?.keys() ?? [])] : [deviceId];
+                if (userId === this.userId && deviceId === "*" && !deviceIds.includes(this.deviceId)) {
+                    deviceIds.push(this.deviceId);
+                }
+                for (const id of deviceIds) {
+                    if (userId === this.userId && id === this.deviceId) {
+                        this.receiveToDevice(message, encrypted);
+                    } else {
+                        this.deliverToDevice(userId, id, message);
+                    }
+                }
+            }
+        }
+    }
+
+    public async readRoomAccountData(eventType: string, roomIds: string[] | null = null): Promise<IRoomAccountData[]> {
+        const result: IRoomAccountData[] = [];
+        for (const roomId of this.resolveRoomIds(roomIds)) {
+            const content = this.rooms.get(roomId)?.accountData.get(eventType);
+            if (content) result.push({ type: eventType, room_id: roomId, content });
+        }
+        return result;
+    }
+
+    public async readRoomEvents(
+        eventType: string,
+        msgtype: string | undefined,
+        limit: number,
+        roomIds: string[] | null = null,
+        since?: string,
+    ): Promise<IRoomEvent[]> {
+        const events = await Promise.all(
+            this.resolveRoomIds(roomIds).map((roomId) =>
+                this.readRoomTimeline(roomId, eventType, msgtype, undefined, limit, since),
+            ),
+        );
+        return events.flat(1);
+    }
+
+    public async readStateEvents(
+        eventType: string,
+        stateKey: string | undefined,
+        limit: number,
+        roomIds: string[] | null = null,
+    ): Promise<IRoomEvent[]> {
+        const events = await Promise.all(
+            this.resolveRoomIds(roomIds).map((roomId) => this.readRoomState(roomId, eventType, stateKey)),
+        );
+        return events.map((e) => (limit > 0 ? e.slice(0, limit) : e)).flat(1);
+    }
+
+    public async readRoomTimeline(
+        roomId: string,
+        eventType: string,
+        msgtype: string | undefined,
+        stateKey: string | undefined,
+        limit: number,
+        since: string | undefined,
+    ): Promise<IRoomEvent[]> {
+        const result: IRoomEvent[] = [];
+        const timeline = this.rooms.get(roomId)?.timeline ?? [];
+        // newest first, stopping at the event the widget has already seen
+        for (let i = timeline.length - 1; i >= 0; i--) {
+            if (limit > 0 && result.length >= limit) break;
+            const event = timeline[i];
+            if (event.event_id === since) break;
+            if (event.type !== eventType) continue;
+            if (msgtype !== undefined && event.content["msgtype"] !== msgtype) continue;
+            if (stateKey !== undefined && event.state_key !== stateKey) continue;
+            result.push(event);
+        }
+        return result;
+    }
+
+    public async readRoomState(roomId: string, eventType: string, stateKey: string | undefined): Promise<IRoomEvent[]> {
+        const stateKeys = this.rooms.get(roomId)?.state.get(eventType);
+        if (!stateKeys) return [];
+        if (stateKey === undefined) return [...stateKeys.values()];
+        const event = stateKeys.get(stateKey);
+        return event ? [event] : [];
+    }
+
+    public async readEventRelations(
+        eventId: string,
+        roomId?: string,
+        relationType?: string,
+        eventType?: string,
+        from?: string,
+        to?: string,
+        limit?: number,
+        direction: "f" | "b" = "b",
+    ): Promise<IReadEventRelationsResult> {
+        const relations = (this.rooms.get(this.resolveRoomId(roomId ?? null))?.timeline ?? []).filter((event) => {
+            const relatesTo = <{ event_id?: string; rel_type?: string } | undefined>event.content["m.relates_to"];
+            return (
+                relatesTo?.event_id === eventId &&
+                (relationType === undefined || relatesTo.rel_type === relationType) &&
+                (eventType === undefined || event.type === eventType)
+            );
+        });
+        if (direction === "b") relations.reverse();
+
+        // Pagination tokens are offsets into the relations in the requested order
+        const start = from === undefined ? 0 : Number(from);
+        let end = to === undefined ? relations.length : Math.min(Number(to), relations.length);
+        if (limit !== undefined && limit > 0) end = Math.min(end, start + limit);
+        return {
+            chunk: relations.slice(start, end),
+            nextBatch: end < relations.length ? String(end) : undefined,
+            prevBatch: start > 0 ? String(start) : undefined,
+        };
+    }
+
+    public askOpenID(observer: SimpleObservable<IOpenIDUpdate>): void {
+        const token = this.options.openIdCredentials;
+        observer.update(token ? { state: OpenIDRequestState.Allowed, token } : { state: OpenIDRequestState.Blocked });
+    }
+
+    public async navigate(uri: string): Promise<void> {
+        this.navigations.push(uri);
+    }
+
+    public async *getTurnServers(): AsyncGenerator<ITurnServer> {
+        if (!this.options.turnServer) throw new Error("No TURN server is configured");
+        yield this.options.turnServer;
+    }
+
+    public async searchUserDirectory(searchTerm: string, limit = 10): Promise<ISearchUserDirectoryResult> {
+        const term = searchTerm.toLowerCase();
+        const matches = [...this.users.entries()].filter(
+            ([userId, profile]) =>
+                userId.toLowerCase().includes(term) || profile.displayName?.toLowerCase().includes(term),
+        );
+        return {
+            limited: matches.length > limit,
+            results: matches.slice(0, limit).map(([userId, profile]) => ({ userId, ...profile })),
+        };
+    }
+
+    public async getMediaConfig(): Promise<IGetMediaConfigResult> {
+        return { "m.upload.size": this.maxUploadSize };
+    }
+
+    public async uploadFile(file: FileBody, options: IUploadFileOptions = {}): Promise<{ contentUri: string }> {
+        const { signal, onProgress } = options;
+        signal?.throwIfAborted();
+
+        if (typeof ReadableStream !== "undefined" && file instanceof ReadableStream) {
+            file = await readStream(file, signal);
+        }
+        const size = byteLength(<XMLHttpRequestBodyInit>file);
+        if (size > this.maxUploadSize) {
+            throw new InMemoryMatrixError("M_TOO_LARGE", "The file is too large", 413);
+        }
+
+        onProgress?.(size, size);
+        signal?.throwIfAborted();
+        const contentUri = `mxc://${this.serverName}/${this.generateId()}`;
+        this.media.set(contentUri, file);
+        return { contentUri };
+    }
+
+    public async downloadFile(contentUri: string): Promise<{ file: FileBody }> {
+        const file = this.media.get(contentUri);
+        if (file === undefined) throw new InMemoryMatrixError("M_NOT_FOUND", "Not found", 404);
+        // Callers may detach what they are given by transferring it
+        return { file: copyBinary(file) };
+    }
+
+    public getKnownRooms(): string[] {
+        return [...this.rooms.keys()];
+    }
+
+    public processError(error: unknown): IWidgetApiErrorResponseDataDetails | undefined {
+        if (!(error instanceof InMemoryMatrixError)) return undefined;
+        return {
+            matrix_api_error: {
+                http_status: error.httpStatus,
+                http_headers: {},
+                url: "",
+                response: { errcode: error.errcode, error: error.message },
+            },
+        };
+    }
+
+    private get maxUploadSize(): number {
+        return this.options.maxUploadSize ?? 50 * 1024 * 1024;
+    }
+
+    private generateId(): string {
+        return `inmemory${this.nextId++}`;
+    }
+
+    private feed(deliver: (api: ClientWidgetApi) => Promise<void>): void {
+        for (const api of this.apis) {
+            const delivery = deliver(api)
+                .catch(() => {}) // the widget failing to handle an update doesn't affect the model
+                .then(() => {
+                    this.pendingFeeds.delete(delivery);
+                });
+            this.pendingFeeds.add(delivery);
+        }
+    }
+
+    private resolveRoomId(roomId: string | null): string {
+        const resolved = roomId || this.viewedRoomId;
+        if (!resolved) throw new InMemoryMatrixError("M_UNKNOWN", "No room is being viewed");
+        if (!this.rooms.has(resolved)) throw new InMemoryMatrixError("M_NOT_FOUND", "Unknown room", 404);
+        return resolved;
+    }
+
+    private resolveRoomIds(roomIds: string[] | null): string[] {
+        if (roomIds === null) return this.viewedRoomId === null ? [] : [this.viewedRoomId];
+        if (roomIds.includes(Symbols.AnyRoom)) return this.getKnownRooms();
+        return roomIds.filter((roomId) => this.rooms.has(roomId));
+    }
+
+    private checkContent(content: unknown): Record<string, unknown> {
+        if (typeof content !== "object" || content === null || Array.isArray(content)) {
+            throw new InMemoryMatrixError("M_NOT_JSON", "Content must be a JSON object");
+        }
+        return <Record<string, unknown>>content;
+    }
+
+    private addStickyEvent(roomId: string, stickyDurationMs: number, eventType: string, content: unknown): IRoomEvent {
+        return this.addEvent(roomId, { type: eventType, content: this.checkContent(content), stickyDurationMs });
+    }
+
+    private deliverToDevice(userId: string, deviceId: string, message: IToDeviceMessage): void {
+        let devices = this.toDeviceInboxes.get(userId);
+        if (!devices) {
+            devices = new Map();
+            this.toDeviceInboxes.set(userId, devices);
+        }
+        let inbox = devices.get(deviceId);
+        if (!inbox) {
+            inbox = [];
+            devices.set(deviceId, inbox);
+        }
+        inbox.push(message);
+    }
+
+    private addDelayedEvent(
+        delay: number | null,
+        parentDelayId: string | null,
+        stickyDurationMs: number | null,
+        eventType: string,
+        content: unknown,
+        stateKey: string | null,
+        roomId: string | null,
+    ): ISendDelayedEventDetails {
+        if (delay === null && parentDelayId === null) {
+            throw new InMemoryMatrixError("M_INVALID_PARAM", "Delayed events need a delay or a parent");
+        }
+        if (parentDelayId !== null) this.getDelayedEvent(parentDelayId);
+
+        const event: IInMemoryDelayedEvent = {
+            delayId: this.generateId(),
+            roomId: this.resolveRoomId(roomId),
+            type: eventType,
+            content: this.checkContent(content),
+            stateKey,
+            delay,
+            parentDelayId,
+            stickyDurationMs,
+        };
+        this.delayedEvents.set(event.delayId, event);
+        if (delay !== null) this.scheduleDelayedEvent(event);
+        return { roomId: event.roomId, delayId: event.delayId };
+    }
+
+    private getDelayedEvent(delayId: string): IInMemoryDelayedEvent {
+        const event = this.delayedEvents.get(delayId);
+        if (!event) throw new InMemoryMatrixError("M_NOT_FOUND", "Unknown delayed event", 404);
+        return event;
+    }
+
+    private scheduleDelayedEvent(event: IInMemoryDelayedEvent): void {
+        clearTimeout(this.delayTimers.get(event.delayId));
+        this.delayTimers.set(
+            event.delayId,
+            setTimeout(() => this.sendDelayedEventGroup(event.delayId), event.delay!),
+        );
+    }
+
+    /**
+     * Gets a delayed event, followed by the events grouped with it which don't
+     * have a delay of their own.
+     */
+    private delayedEventGroup(delayId: string): IInMemoryDelayedEvent[] {
+        const group = [this.getDelayedEvent(delayId)];
+        for (const event of this.delayedEvents.values()) {
+            if (event.parentDelayId === delayId && event.delay === null) group.push(event);
+        }
+        return group;
+    }
+
+    private sendDelayedEventGroup(delayId: string): void {
+        for (const event of this.delayedEventGroup(delayId)) {
+            this.removeDelayedEvent(event.delayId);
+            if (event.stickyDurationMs !== null) {
+                this.addStickyEvent(event.roomId, event.stickyDurationMs, event.type, event.content);
+            } else {
+                this.addEvent(event.roomId, {
+                    type: event.type,
+                    content: event.content,
+                    stateKey: event.stateKey ?? undefined,
+                });
+            }
+        }
+    }
+
+    private removeDelayedEvent(delayId: string): void {
+        clearTimeout(this.delayTimers.get(delayId));
+        this.delayTimers.delete(delayId);
+        this.delayedEvents.delete(delayId);
+    }
+}
+
+function byteLength(file: XMLHttpRequestBodyInit): number {
+    if (typeof file === "string") return new TextEncoder().encode(file).byteLength;
+    if (file instanceof ArrayBuffer || ArrayBuffer.isView(file)) return file.byteLength;
+    if (typeof Blob !== "undefined" && file instanceof Blob) return file.size;
+    if (file instanceof URLSearchParams) return new TextEncoder().encode(file.toString()).byteLength;
+    return 0; // form data has no meaningful size before encoding
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): Promise<ArrayBuffer> {
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    try {
+        for (;;) {
+            signal?.throwIfAborted();
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            size += value.byteLength;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+
+    const result = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return result.buffer;
+}
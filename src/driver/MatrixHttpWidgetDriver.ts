@@ -0,0 +1,488 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    IGetMediaConfigResult,
+    IOpenIDUpdate,
+    IReadEventRelationsResult,
+    ISearchUserDirectoryResult,
+    ISendDelayedEventDetails,
+    ISendEventDetails,
+    IUploadFileOptions,
+    WidgetDriver,
+} from "./WidgetDriver";
+import { Capability } from "../interfaces/Capabilities";
+import { IRoomEvent } from "../interfaces/IRoomEvent";
+import { IOpenIDCredentials, OpenIDRequestState } from "../interfaces/GetOpenIDAction";
+import { IWidgetApiErrorResponseDataDetails } from "../interfaces/IWidgetApiErrorResponse";
+import { IWidgetApiResponseData } from "../interfaces/IWidgetApiResponse";
+import { UpdateDelayedEventAction } from "../interfaces/UpdateDelayedEventAction";
+import { SimpleObservable } from "../util/SimpleObservable";
+
+export interface IMatrixHttpWidgetDriverOptions {
+    /**
+     * The base URL of the homeserver's client-server API, such as
+     * "https://matrix.example.org".
+     */
+    baseUrl: string;
+
+    /**
+     * The access token to authenticate requests with.
+     */
+    accessToken: string;
+
+    /**
+     * The ID of the user the access token belongs to.
+     */
+    userId: string;
+
+    /**
+     * The room to send events to and read events from when widgets don't
+     * specify one.
+     */
+    defaultRoomId?: string;
+
+    /**
+     * The function to make HTTP requests with. Defaults to the global fetch.
+     */
+    fetch?: typeof fetch;
+
+    /**
+     * Decides which of the capabilities requested by a widget are approved.
+     * By default, none of them are.
+     */
+    approveCapabilities?(requested: Set<Capability>): Set<Capability> | Promise<Set<Capability>>;
+
+    /**
+     * Decides whether a widget may receive OpenID credentials for the user.
+     * By default, requests for credentials are blocked.
+     */
+    approveOpenID?(): boolean | Promise<boolean>;
+
+    /**
+     * The most events to look through when reading a room's timeline for a
+     * widget, however few of them match. Defaults to 1000.
+     */
+    maxTimelineScan?: number;
+}
+
+/**
+ * An error response from the homeserver.
+ */
+export class MatrixHttpError extends Error {
+    /**
+     * The Matrix error code, or M_UNKNOWN if the homeserver didn't give one.
+     */
+    public readonly errcode: string;
+
+    public constructor(
+        public readonly url: string,
+        public readonly httpStatus: number,
+        public readonly httpHeaders: { [name: string]: string },
+        public readonly response: IWidgetApiResponseData,
+    ) {
+        super(typeof response.error === "string" ? response.error : `HTTP ${httpStatus}`);
+        this.errcode = typeof response.errcode === "string" ? response.errcode : "M_UNKNOWN";
+    }
+}
+
+interface IRequestInit {
+    query?: Record<string, string>;
+    body?: unknown;
+    rawBody?: XMLHttpRequestBodyInit | ReadableStream<Uint8Array>;
+    contentType?: string;
+    signal?: AbortSignal;
+}
+
+interface IMessagesResponse {
+    chunk: IRoomEvent[];
+    end?: string;
+}
+
+interface IContextResponse {
+    end?: string;
+}
+
+interface IRelationsResponse {
+    chunk: IRoomEvent[];
+    next_batch?: string; // eslint-disable-line camelcase
+    prev_batch?: string; // eslint-disable-line camelcase
+}
+
+interface IUserDirectoryResponse {
+    limited: boolean;
+    results: Array<{
+        user_id: string; // eslint-disable-line camelcase
+        display_name?: string; // eslint-disable-line camelcase
+        avatar_url?: string; // eslint-disable-line camelcase
+    }>;
+}
+
+/**
+ * A widget driver which carries out widgets' requests by talking directly to
+ * a homeserver over the Matrix client-server API, for clients and bots which
+ * don't have a Matrix SDK of their own.
+ *
+ * It has no local view of rooms, so cannot feed events to widgets, and sends
+ * to-device messages unencrypted only.
+ */
+export class MatrixHttpWidgetDriver extends WidgetDriver {
+    private readonly baseUrl: string;
+    private readonly fetch: typeof fetch;
+    private nextTxnId = 0;
+
+    /**
+     * Creates a new driver talking to a homeserver.
+     * @param {IMatrixHttpWidgetDriverOptions} options The options for the driver.
+     */
+    public constructor(private readonly options: IMatrixHttpWidgetDriverOptions) {
+        super();
+        this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+        // bound so that the global fetch isn't called on the driver
+        this.fetch = options.fetch ?? ((input, init): Promise<Response> => fetch(input, init));
+    }
+
+    public async validateCapabilities(requested: Set<Capability>): Promise<Set<Capability>> {
+        return this.options.approveCapabilities ? this.options.approveCapabilities(requested) : new Set();
+    }
+
+    public async sendEvent(
+        eventType: string,
+        content: unknown,
+        stateKey: string | null = null,
+        roomId: string | null = null,
+    ): Promise<ISendEventDetails> {
+        const resolvedRoomId = this.resolveRoomId(roomId);
+        const response = await this.sendRoomEvent<{ event_id: string }>(resolvedRoomId, eventType, content, stateKey);
+        return { roomId: resolvedRoomId, eventId: response.event_id };
+    }
+
+    public async sendDelayedEvent(
+        delay: number | null,
+        parentDelayId: string | null,
+        eventType: string,
+        content: unknown,
+        stateKey: string | null = null,
+        roomId: string | null = null,
+    ): Promise<ISendDelayedEventDetails> {
+        const resolvedRoomId = this.resolveRoomId(roomId);
+        const query: Record<string, string> = {};
+        if (delay !== null) query["org.matrix.msc4140.delay"] = String(delay);
+        if (parentDelayId !== null) query["org.matrix.msc4140.parent_delay_id"] = parentDelayId;
+
+        const response = await this.sendRoomEvent<{ delay_id: string }>(
+            resolvedRoomId,
+            eventType,
+            content,
+            stateKey,
+            query,
+        );
+        return { roomId: resolvedRoomId, delayId: response.delay_id };
+    }
+
+    public cancelScheduledDelayedEvent(delayId: string): Promise<void> {
+        return this.updateDelayedEvent(delayId, UpdateDelayedEventAction.Cancel);
+    }
+
+    public restartScheduledDelayedEvent(delayId: string): Promise<void> {
+        return this.updateDelayedEvent(delayId, UpdateDelayedEventAction.Restart);
+    }
+
+    public sendScheduledDelayedEvent(delayId: string): Promise<void> {
+        return this.updateDelayedEvent(delayId, UpdateDelayedEventAction.Send);
+    }
+
+    public async sendToDevice(
+        eventType: string,
+        encrypted: boolean,
+        contentMap: { [userId: string]: { [deviceId: string]: object } },
+    ): Promise<void> {
+        if (encrypted) throw new Error("Encrypted to-device messages are not supported");
+        await this.request("PUT", `/_matrix/client/v3/sendToDevice/${path(eventType, this.generateTxnId())}`, {
+            body: { messages: contentMap },
+        });
+    }
+
+    /**
+     * Reads events by paginating backwards through the room's timeline from
+     * its most recent event, looking through at most
+     * {@link IMatrixHttpWidgetDriverOptions.maxTimelineScan} events. The
+     * homeserver is asked to stop at the `since` event, which the event type
+     * filter may leave out of the pages.
+     */
+    public async readRoomTimeline(
+        roomId: string,
+        eventType: string,
+        msgtype: string | undefined,
+        stateKey: string | undefined,
+        limit: number,
+        since: string | undefined,
+    ): Promise<IRoomEvent[]> {
+        const maxScan = this.options.maxTimelineScan ?? 1000;
+        const to = since === undefined ? undefined : await this.getTokenAfter(roomId, since);
+        const events: IRoomEvent[] = [];
+        let scanned = 0;
+        let from: string | undefined;
+        do {
+            const query: Record<string, string> = { dir: "b", filter: JSON.stringify({ types: [eventType] }) };
+            if (from !== undefined) query.from = from;
+            if (to !== undefined) query.to = to;
+            query.limit = String(limit > 0 ? Math.min(limit - events.length, maxScan - scanned) : maxScan - scanned);
+            const page = await this.request<IMessagesResponse>(
+                "GET",
+                `/_matrix/client/v3/rooms/${path(roomId)}/messages`,
+                { query },
+            );
+
+            for (const event of page.chunk) {
+                if (event.event_id === since || scanned++ >= maxScan) return events;
+                if (event.type !== eventType) continue;
+                if (msgtype !== undefined && event.content["msgtype"] !== msgtype) continue;
+                if (stateKey !== undefined && event.state_key !== stateKey) continue;
+                events.push(event);
+                if (limit > 0 && events.length >= limit) return events;
+            }
+            from = page.chunk.length > 0 ? page.end : undefined;
+        } while (from !== undefined && scanned < maxScan);
+        return events;
+    }
+
+    /**
+     * Reads room state. A single state key is fetched on its own from
+     * homeservers supporting Matrix 1.16, and picked out of the whole room
+     * state from older ones.
+     */
+    public async readRoomState(roomId: string, eventType: string, stateKey: string | undefined): Promise<IRoomEvent[]> {
+        if (stateKey !== undefined) {
+            let event: IRoomEvent;
+            try {
+                event = await this.request<IRoomEvent>(
+                    "GET",
+                    `/_matrix/client/v3/rooms/${path(roomId)}/state/${path(eventType, stateKey)}`,
+                    { query: { format: "event" } },
+                );
+            } catch (e) {
+                if (e instanceof MatrixHttpError && e.errcode === "M_NOT_FOUND") return [];
+                throw e;
+            }
+            // Homeservers before Matrix 1.16 ignore the format and give just the content
+            if (typeof event.event_id === "string" && event.type === eventType && event.state_key === stateKey) {
+                return [event];
+            }
+        }
+
+        const state = await this.request<IRoomEvent[]>("GET", `/_matrix/client/v3/rooms/${path(roomId)}/state`);
+        return state.filter((e) => e.type === eventType && (stateKey === undefined || e.state_key === stateKey));
+    }
+
+    public async readEventRelations(
+        eventId: string,
+        roomId?: string,
+        relationType?: string,
+        eventType?: string,
+        from?: string,
+        to?: string,
+        limit?: number,
+        direction?: "f" | "b",
+    ): Promise<IReadEventRelationsResult> {
+        // The event type can only be filtered by the homeserver along with the relation type
+        let endpoint = `/_matrix/client/v1/rooms/${path(this.resolveRoomId(roomId ?? null))}/relations/${path(eventId)}`;
+        if (relationType !== undefined) {
+            endpoint += `/${path(relationType)}`;
+            if (eventType !== undefined) endpoint += `/${path(eventType)}`;
+        }
+
+        const query: Record<string, string> = {};
+        if (from !== undefined) query.from = from;
+        if (to !== undefined) query.to = to;
+        if (limit !== undefined) query.limit = String(limit);
+        if (direction !== undefined) query.dir = direction;
+        const response = await this.request<IRelationsResponse>("GET", endpoint, { query });
+
+        return {
+            chunk: response.chunk.filter((e) => eventType === undefined || e.type === eventType),
+            nextBatch: response.next_batch,
+            prevBatch: response.prev_batch,
+        };
+    }
+
+    public askOpenID(observer: SimpleObservable<IOpenIDUpdate>): void {
+        const approveOpenID = this.options.approveOpenID;
+        if (!approveOpenID) {
+            observer.update({ state: OpenIDRequestState.Blocked });
+            return;
+        }
+
+        observer.update({ state: OpenIDRequestState.PendingUserConfirmation });
+        Promise.resolve()
+            .then(approveOpenID)
+            .then(async (approved) => {
+                if (!approved) return observer.update({ state: OpenIDRequestState.Blocked });
+                const token = await this.request<IOpenIDCredentials>(
+                    "POST",
+                    `/_matrix/client/v3/user/${path(this.options.userId)}/openid/request_token`,
+                    { body: {} },
+                );
+                observer.update({ state: OpenIDRequestState.Allowed, token });
+            })
+            .catch(() => observer.update({ state: OpenIDRequestState.Blocked }));
+    }
+
+    public async searchUserDirectory(searchTerm: string, limit?: number): Promise<ISearchUserDirectoryResult> {
+        const response = await this.request<IUserDirectoryResponse>(
+            "POST",
+            "/_matrix/client/v3/user_directory/search",
+            { body: { search_term: searchTerm, ...(limit !== undefined && { limit }) } },
+        );
+        return {
+            limited: response.limited,
+            results: response.results.map((r) => ({
+                userId: r.user_id,
+                displayName: r.display_name,
+                avatarUrl: r.avatar_url,
+            })),
+        };
+    }
+
+    public getMediaConfig(): Promise<IGetMediaConfigResult> {
+        return this.request<IGetMediaConfigResult>("GET", "/_matrix/client/v1/media/config");
+    }
+
+    public async uploadFile(
+        file: XMLHttpRequestBodyInit | ReadableStream<Uint8Array>,
+        options: IUploadFileOptions = {},
+    ): Promise<{ contentUri: string }> {
+        const contentType = typeof Blob !== "undefined" && file instanceof Blob && file.type ? file.type : undefined;
+        const response = await this.request<{ content_uri: string }>("POST", "/_matrix/media/v3/upload", {
+            rawBody: file,
+            contentType: contentType ?? "application/octet-stream",
+            signal: options.signal,
+        });
+        return { contentUri: response.content_uri };
+    }
+
+    public async downloadFile(contentUri: string): Promise<{ file: XMLHttpRequestBodyInit }> {
+        const match = /^mxc:\/\/([^/]+)\/([^/?#]+)$/.exec(contentUri);
+        if (!match) throw new Error("Invalid MXC URI");
+        const response = await this.send("GET", `/_matrix/client/v1/media/download/${path(match[1], match[2])}`, {});
+        return { file: await response.blob() };
+    }
+
+    public processError(error: unknown): IWidgetApiErrorResponseDataDetails | undefined {
+        if (!(error instanceof MatrixHttpError)) return undefined;
+        return {
+            matrix_api_error: {
+                http_status: error.httpStatus,
+                http_headers: error.httpHeaders,
+                url: error.url,
+                response: { ...error.response, errcode: error.errcode, error: error.message },
+            },
+        };
+    }
+
+    private resolveRoomId(roomId: string | null): string {
+        const resolved = roomId || this.options.defaultRoomId;
+        if (!resolved) throw new Error("No room ID was given and there is no default room");
+        return resolved;
+    }
+
+    /**
+     * Gets a pagination token for the position just after an event.
+     * @returns {Promise<string|undefined>} The token, or undefined if the
+     * homeserver doesn't know the event.
+     */
+    private async getTokenAfter(roomId: string, eventId: string): Promise<string | undefined> {
+        try {
+            const context = await this.request<IContextResponse>(
+                "GET",
+                `/_matrix/client/v3/rooms/${path(roomId)}/context/${path(eventId)}`,
+                { query: { limit: "0" } },
+            );
+            return context.end;
+        } catch (e) {
+            if (e instanceof MatrixHttpError && e.errcode === "M_NOT_FOUND") return undefined;
+            throw e;
+        }
+    }
+
+    private generateTxnId(): string {
+        return `mwa${Date.now()}.${this.nextTxnId++}`;
+    }
+
+    private sendRoomEvent<T>(
+        roomId: string,
+        eventType: string,
+        content: unknown,
+        stateKey: string | null,
+        query?: Record<string, string>,
+    ): Promise<T> {
+        const endpoint =
+            stateKey === null
+                ? `/_matrix/client/v3/rooms/${path(roomId)}/send/${path(eventType, this.generateTxnId())}`
+                : `/_matrix/client/v3/rooms/${path(roomId)}/state/${path(eventType, stateKey)}`;
+        return this.request<T>("PUT", endpoint, { body: content, query });
+    }
+
+    private async updateDelayedEvent(delayId: string, action: UpdateDelayedEventAction): Promise<void> {
+        await this.request("POST", `/_matrix/client/unstable/org.matrix.msc4140/delayed_events/${path(delayId)}`, {
+            body: { action },
+        });
+    }
+
+    private async request<T>(method: string, endpoint: string, init: IRequestInit = {}): Promise<T> {
+        const response = await this.send(method, endpoint, init);
+        return <T>await response.json();
+    }
+
+    /**
+     * Makes a request to the homeserver.
+     * @throws {MatrixHttpError} Thrown if the homeserver responds with an error.
+     */
+    private async send(method: string, endpoint: string, init: IRequestInit): Promise<Response> {
+        let url = this.baseUrl + endpoint;
+        if (init.query && Object.keys(init.query).length > 0) url += `?${new URLSearchParams(init.query)}`;
+
+        const headers: Record<string, string> = { Authorization: `Bearer ${this.options.accessToken}` };
+        let body: BodyInit | undefined;
+        if (init.rawBody !== undefined) {
+            headers["Content-Type"] = init.contentType ?? "application/octet-stream";
+            body = <BodyInit>init.rawBody;
+        } else if (init.body !== undefined) {
+            headers["Content-Type"] = "application/json";
+            body = JSON.stringify(init.body);
+        }
+
+        const response = await this.fetch(url, <RequestInit>{
+            method,
+            headers,
+            body,
+            signal: init.signal,
+            // needed for streamed uploads
+            ...(typeof ReadableStream !== "undefined" && body instanceof ReadableStream && { duplex: "half" }),
+        });
+        if (!response.ok) {
+            const errorBody = await response.json().catch(() => ({}));
+            const httpHeaders: { [name: string]: string } = {};
+            response.headers.forEach((value, name) => (httpHeaders[name] = value));
+            throw new MatrixHttpError(url, response.status, httpHeaders, errorBody);
+        }
+        return response;
+    }
+}
+
+function path(...segments: string[]): string {
+    return segments.map(encodeURIComponent).join("/");
+}
@@ -14,16 +14,14 @@
  * limitations under the License.
  */
 
-import {
-    Capability,
-    IOpenIDCredentials,
-    OpenIDRequestState,
-    SimpleObservable,
-    IRoomEvent,
-    IRoomAccountData,
-    ITurnServer,
-    IWidgetApiErrorResponseDataDetails,
-} from "..";
+import { Capability } from "../interfaces/Capabilities";
+import { IOpenIDCredentials, OpenIDRequestState } from "../interfaces/GetOpenIDAction";
+import { SimpleObservable } from "../util/SimpleObservable";
+import { IRoomEvent } from "../interfaces/IRoomEvent";
+import { IRoomAccountData } from "../interfaces/IRoomAccountData";
+import { ITurnServer } from "../interfaces/TurnServerActions";
+import { IWidgetApiErrorResponseDataDetails } from "../interfaces/IWidgetApiErrorResponse";
+import { WidgetDriverFeature, WidgetDriverFeatures } from "./WidgetDriverFeature";
 
 export interface ISendEventDetails {
     roomId: string;
@@ -55,6 +53,20 @@ export interface ISearchUserDirectoryResult {
     }>;
 }
 
+export interface IUploadFileOptions {
+    /**
+     * Aborted if the widget cancels the upload.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Reports the progress of the upload back to the widget.
+     * @param sent - The number of bytes sent so far.
+     * @param total - The total number of bytes to send.
+     */
+    onProgress?(sent: number, total: number): void;
+}
+
 export interface IGetMediaConfigResult {
     [key: string]: unknown;
     "m.upload.size"?: number;
@@ -66,10 +78,33 @@ export interface IGetMediaConfigResult {
  * the UI. Clients are expected to implement this class and override
  * any functions they need/want to support.
  *
+ * Functions belonging to an optional {@link WidgetDriverFeature} are only
+ * called if the driver lists the feature from {@link getFeatures}. Widgets are
+ * not offered the API versions or capabilities of features which are missing.
+ *
  * This class assumes the client will have a context of a Widget
  * instance already.
  */
 export abstract class WidgetDriver {
+    /**
+     * Gets the optional features this driver implements.
+     *
+     * By default, a feature is listed if the driver overrides any of the
+     * functions belonging to it, so that drivers which don't list their features
+     * keep working. Drivers are encouraged to list their features explicitly.
+     * @returns {Set<WidgetDriverFeature>} The features the driver implements.
+     */
+    public getFeatures(): Set<WidgetDriverFeature> {
+        const features = new Set<WidgetDriverFeature>();
+        for (const [feature, { methods }] of Object.entries(WidgetDriverFeatures)) {
+            const overridden = methods.some(
+                (m) => typeof this[m] === "function" && this[m] !== WidgetDriver.prototype[m],
+            );
+            if (overridden) features.add(<WidgetDriverFeature>feature);
+        }
+        return features;
+    }
+
     /**
      * Verifies the widget's requested capabilities, returning the ones
      * it is approved to use. Mutating the requested capabilities will
@@ -450,19 +485,25 @@ export abstract class WidgetDriver {
     /**
      * Upload a file to the media repository on the homeserver.
      * @param file - The object to upload. Something that can be sent to
-     *               XMLHttpRequest.send (typically a File).
+     *               XMLHttpRequest.send (typically a File), or a stream of the
+     *               file's contents from widgets which transfer their uploads.
+     * @param options - Progress reporting and cancellation for the upload.
      * @returns Resolves to the location of the uploaded file.
      */
-    public uploadFile(file: XMLHttpRequestBodyInit): Promise<{ contentUri: string }> {
+    public uploadFile(
+        file: XMLHttpRequestBodyInit | ReadableStream<Uint8Array>,
+        options?: IUploadFileOptions,
+    ): Promise<{ contentUri: string }> {
         throw new Error("Upload file is not implemented");
     }
 
     /**
      * Download a file from the media repository on the homeserver.
      * @param contentUri - MXC URI of the file to download.
-     * @returns Resolves to the contents of the file.
+     * @returns Resolves to the contents of the file. ArrayBuffers and streams
+     * are transferred to widgets which support it, rather than copied.
      */
-    public downloadFile(contentUri: string): Promise<{ file: XMLHttpRequestBodyInit }> {
+    public downloadFile(contentUri: string): Promise<{ file: XMLHttpRequestBodyInit | ReadableStream<Uint8Array> }> {
         throw new Error("Download file is not implemented");
     }
 
@@ -0,0 +1,135 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { WidgetDriver } from "./WidgetDriver";
+import { ApiVersion, UnstableApiVersion } from "../interfaces/ApiVersion";
+import { Capability, MatrixCapabilities } from "../interfaces/Capabilities";
+import { WidgetApiFromWidgetAction } from "../interfaces/WidgetApiAction";
+
+/**
+ * Optional features a {@link WidgetDriver} may implement.
+ */
+export enum WidgetDriverFeature {
+    /**
+     * @experimental Part of MSC4140 & MSC4157
+     */
+    DelayedEvents = "delayed_events",
+    /**
+     * @experimental Part of MSC4407
+     */
+    StickyEvents = "sticky_events",
+    Media = "media",
+    TurnServers = "turn_servers",
+    UserDirectory = "user_directory",
+    Navigation = "navigation",
+    EventRelations = "event_relations",
+    RoomAccountData = "room_account_data",
+}
+
+export interface IWidgetDriverFeatureDefinition {
+    /**
+     * The driver methods making up the feature.
+     */
+    methods: ReadonlyArray<keyof WidgetDriver>;
+
+    /**
+     * The API versions which are only advertised to widgets if the driver
+     * implements the feature.
+     */
+    versions: readonly ApiVersion[];
+
+    /**
+     * The capabilities which are denied without asking the driver if it does
+     * not implement the feature.
+     */
+    capabilities: readonly Capability[];
+
+    /**
+     * Prefixes of further capabilities which are denied like
+     * {@link capabilities}.
+     */
+    capabilityPrefixes?: readonly string[];
+
+    /**
+     * The widget actions which are refused if the driver does not implement the
+     * feature.
+     */
+    actions: readonly WidgetApiFromWidgetAction[];
+}
+
+/**
+ * What each optional driver feature gives widgets access to.
+ */
+export const WidgetDriverFeatures: { readonly [feature in WidgetDriverFeature]: IWidgetDriverFeatureDefinition } = {
+    [WidgetDriverFeature.DelayedEvents]: {
+        methods: [
+            "sendDelayedEvent",
+            "cancelScheduledDelayedEvent",
+            "restartScheduledDelayedEvent",
+            "sendScheduledDelayedEvent",
+        ],
+        versions: [],
+        capabilities: [MatrixCapabilities.MSC4157SendDelayedEvent, MatrixCapabilities.MSC4157UpdateDelayedEvent],
+        actions: [WidgetApiFromWidgetAction.MSC4157UpdateDelayedEvent],
+    },
+    [WidgetDriverFeature.StickyEvents]: {
+        methods: ["sendStickyEvent", "sendDelayedStickyEvent"],
+        versions: [],
+        capabilities: [MatrixCapabilities.MSC4407SendStickyEvent],
+        actions: [],
+    },
+    [WidgetDriverFeature.Media]: {
+        methods: ["getMediaConfig", "uploadFile", "downloadFile"],
+        versions: [UnstableApiVersion.MSC4039],
+        capabilities: [MatrixCapabilities.MSC4039UploadFile, MatrixCapabilities.MSC4039DownloadFile],
+        actions: [
+            WidgetApiFromWidgetAction.MSC4039GetMediaConfigAction,
+            WidgetApiFromWidgetAction.MSC4039UploadFileAction,
+            WidgetApiFromWidgetAction.MSC4039DownloadFileAction,
+        ],
+    },
+    [WidgetDriverFeature.TurnServers]: {
+        methods: ["getTurnServers"],
+        versions: [UnstableApiVersion.MSC3846],
+        capabilities: [MatrixCapabilities.MSC3846TurnServers],
+        actions: [WidgetApiFromWidgetAction.WatchTurnServers, WidgetApiFromWidgetAction.UnwatchTurnServers],
+    },
+    [WidgetDriverFeature.UserDirectory]: {
+        methods: ["searchUserDirectory"],
+        versions: [UnstableApiVersion.MSC3973],
+        capabilities: [MatrixCapabilities.MSC3973UserDirectorySearch],
+        actions: [WidgetApiFromWidgetAction.MSC3973UserDirectorySearch],
+    },
+    [WidgetDriverFeature.Navigation]: {
+        methods: ["navigate"],
+        versions: [UnstableApiVersion.MSC2931],
+        capabilities: [MatrixCapabilities.MSC2931Navigate],
+        actions: [WidgetApiFromWidgetAction.MSC2931Navigate],
+    },
+    [WidgetDriverFeature.EventRelations]: {
+        methods: ["readEventRelations"],
+        versions: [UnstableApiVersion.MSC3869],
+        capabilities: [],
+        actions: [WidgetApiFromWidgetAction.MSC3869ReadRelations],
+    },
+    [WidgetDriverFeature.RoomAccountData]: {
+        methods: ["readRoomAccountData"],
+        versions: [],
+        capabilities: [],
+        capabilityPrefixes: ["com.beeper.capabilities.receive.room_account_data:"],
+        actions: [WidgetApiFromWidgetAction.BeeperReadRoomAccountData],
+    },
+};
@@ -21,7 +21,13 @@ export * from "./Symbols";
 
 // Transports (not sure why you'd use these directly, but might as well export all the things)
 export type * from "./transport/ITransport";
+export type * from "./transport/ITransportInterceptor";
+export * from "./transport/BaseTransport";
+export * from "./transport/WindowMessageRouter";
 export * from "./transport/PostmessageTransport";
+export * from "./transport/MessageChannelTransport";
+export * from "./transport/LoopbackTransport";
+export * from "./transport/WorkerTransport";
 
 // Interfaces and simple models
 export type * from "./interfaces/ICustomWidgetData";
@@ -46,6 +52,7 @@ export type * from "./interfaces/VisibilityAction";
 export * from "./interfaces/GetOpenIDAction";
 export type * from "./interfaces/OpenIDCredentialsAction";
 export * from "./interfaces/WidgetKind";
+export * from "./interfaces/WidgetSessionState";
 export * from "./interfaces/ModalButtonKind";
 export * from "./interfaces/ModalWidgetActions";
 export type * from "./interfaces/SetModalButtonEnabledAction";
@@ -65,17 +72,31 @@ export type * from "./interfaces/UploadFileAction";
 export type * from "./interfaces/DownloadFileAction";
 export type * from "./interfaces/ThemeChangeAction";
 export type * from "./interfaces/LanguageChangeAction";
+export type * from "./interfaces/MessageChannelAction";
+export type * from "./interfaces/AbortRequestAction";
+export type * from "./interfaces/UploadProgressAction";
 
 // Complex models
 export * from "./models/WidgetEventCapability";
+export * from "./models/WidgetEventCapabilityIndex";
+export * from "./models/StructuredCapability";
 export * from "./models/validation/url";
 export * from "./models/validation/utils";
+export * from "./models/validation/requests";
 export * from "./models/Widget";
+export * from "./models/UploadHandle";
 export * from "./models/WidgetParser";
 
 // Utilities
 export * from "./templating/url-template";
 export * from "./util/SimpleObservable";
+export * from "./util/Logger";
 
 // Drivers
 export * from "./driver/WidgetDriver";
+export * from "./driver/WidgetDriverFeature";
+export * from "./driver/InMemoryWidgetDriver";
+export * from "./driver/MatrixHttpWidgetDriver";
+export * from "./driver/CapabilityGrantStore";
+export * from "./driver/CapabilityPolicy";
+export * from "./driver/CapabilityDescriber";
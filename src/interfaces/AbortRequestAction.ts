@@ -0,0 +1,36 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IWidgetApiRequest, IWidgetApiRequestData } from "./IWidgetApiRequest";
+import { WidgetApiFromWidgetAction, WidgetApiToWidgetAction } from "./WidgetApiAction";
+import { IWidgetApiAcknowledgeResponseData } from "./IWidgetApiResponse";
+
+export interface IAbortRequestActionRequestData extends IWidgetApiRequestData {
+    /**
+     * The ID of the request which the sender has abandoned. Any response to it
+     * will be ignored.
+     */
+    request_id: string;
+}
+
+export interface IAbortRequestActionRequest extends IWidgetApiRequest {
+    action: WidgetApiFromWidgetAction.AbortRequest | WidgetApiToWidgetAction.AbortRequest;
+    data: IAbortRequestActionRequestData;
+}
+
+export interface IAbortRequestActionResponse extends IAbortRequestActionRequest {
+    response: IWidgetApiAcknowledgeResponseData;
+}
@@ -33,6 +33,35 @@ export enum UnstableApiVersion {
     MSC3869 = "org.matrix.msc3869",
     MSC3973 = "org.matrix.msc3973",
     MSC4039 = "org.matrix.msc4039",
+    /**
+     * @experimental Not yet part of any MSC. Only advertised by peers which are
+     * able to move the session onto a dedicated MessageChannel.
+     */
+    MessageChannel = "org.matrix.widget_api.message_channel",
+    /**
+     * @experimental Not yet part of any MSC. Advertised by peers which accept
+     * uploads, downloads and screenshots as transferred ArrayBuffers and
+     * ReadableStreams.
+     */
+    Transferables = "org.matrix.widget_api.transferables",
+    /**
+     * @experimental Not yet part of any MSC. Advertised by widgets which accept
+     * room events in batches through the SendEvents action.
+     */
+    BatchedEvents = "org.matrix.widget_api.batched_events",
+    /**
+     * @experimental Advertised by peers which understand the stable `m.*`
+     * spellings of the event and timeline capabilities from MSC2762 and
+     * MSC3819, such as `m.send.event:m.room.message`, as well as the
+     * unstable ones.
+     */
+    StableCapabilities = "org.matrix.widget_api.stable_capabilities",
+    /**
+     * @experimental Not yet part of any MSC. Advertised by widgets whose event
+     * capabilities ending in an unescaped `*` are patterns rather than literal
+     * event types or state keys (see {@link WidgetEventCapability}).
+     */
+    EventCapabilityPatterns = "org.matrix.widget_api.event_capability_patterns",
 }
 
 export type ApiVersion = MatrixApiVersion | UnstableApiVersion | string;
@@ -53,4 +82,8 @@ export const CurrentApiVersions: ApiVersion[] = [
     UnstableApiVersion.MSC3869,
     UnstableApiVersion.MSC3973,
     UnstableApiVersion.MSC4039,
+    UnstableApiVersion.Transferables,
+    UnstableApiVersion.BatchedEvents,
+    UnstableApiVersion.StableCapabilities,
+    UnstableApiVersion.EventCapabilityPatterns,
 ];
@@ -15,6 +15,7 @@
  */
 
 import { Symbols } from "../Symbols";
+import { ApiVersion, UnstableApiVersion } from "./ApiVersion";
 
 export enum MatrixCapabilities {
     Screenshots = "m.capability.screenshot",
@@ -68,14 +69,86 @@ export type Capability = MatrixCapabilities | string;
 export const StickerpickerCapabilities: Capability[] = [MatrixCapabilities.StickerSending];
 export const VideoConferenceCapabilities: Capability[] = [MatrixCapabilities.AlwaysOnScreen];
 
+// Unstable prefix → stable prefix of the capabilities specified by MSC2762 and MSC3819
+const StableCapabilityPrefixes: [string, string][] = [
+    ["org.matrix.msc2762.send.event:", "m.send.event:"],
+    ["org.matrix.msc2762.receive.event:", "m.receive.event:"],
+    ["org.matrix.msc2762.send.state_event:", "m.send.state_event:"],
+    ["org.matrix.msc2762.receive.state_event:", "m.receive.state_event:"],
+    ["org.matrix.msc2762.timeline:", "m.timeline:"],
+    ["org.matrix.msc3819.send.to_device:", "m.send.to_device:"],
+    ["org.matrix.msc3819.receive.to_device:", "m.receive.to_device:"],
+];
+
+/**
+ * Determines if a peer understands the stable `m.*` spellings of event and
+ * timeline capabilities, rather than only their MSC prefixes.
+ * @param {ApiVersion[]} versions The API versions the peer supports.
+ * @returns {boolean} True if the stable spellings are understood.
+ */
+export function supportsStableCapabilities(versions: ApiVersion[]): boolean {
+    return versions.includes(UnstableApiVersion.StableCapabilities);
+}
+
+/**
+ * Normalizes a capability to its stable spelling, so that capabilities using
+ * the unstable and stable spellings can be compared. Capabilities without a
+ * stable spelling are returned unchanged.
+ * @param {Capability} capability The capability to normalize.
+ * @returns {Capability} The capability with its stable spelling.
+ */
+export function normalizeCapability(capability: Capability): Capability {
+    for (const [unstable, stable] of StableCapabilityPrefixes) {
+        if (capability.startsWith(unstable)) return stable + capability.substring(unstable.length);
+    }
+    return capability;
+}
+
+/**
+ * Spells a capability the way a peer understands it: stable if the peer
+ * supports the stable spellings, and unstable otherwise.
+ * @param {Capability} capability The capability, in either spelling.
+ * @param {ApiVersion[]} versions The API versions the peer supports.
+ * @returns {Capability} The capability in the spelling the peer understands.
+ */
+export function spellCapabilityFor(capability: Capability, versions: ApiVersion[]): Capability {
+    const normalized = normalizeCapability(capability);
+    if (supportsStableCapabilities(versions)) return normalized;
+    for (const [unstable, stable] of StableCapabilityPrefixes) {
+        if (normalized.startsWith(stable)) return unstable + normalized.substring(stable.length);
+    }
+    return capability;
+}
+
+/**
+ * Determines if two capabilities are the same, however they are spelled.
+ * @param {Capability} a The first capability.
+ * @param {Capability} b The second capability.
+ * @returns {boolean} True if the capabilities are equivalent.
+ */
+export function isSameCapability(a: Capability, b: Capability): boolean {
+    return a === b || normalizeCapability(a) === normalizeCapability(b);
+}
+
+/**
+ * Gets the timeline capability for a room.
+ * @param {string | Symbols.AnyRoom} roomId The room ID, or `Symbols.AnyRoom` for
+ * all known rooms.
+ * @param {ApiVersion[]} versions The API versions the peer supports, to spell
+ * the capability the way the peer understands it. Unstable if not given.
+ * @returns {Capability} The timeline capability.
+ */
+export function getTimelineCapability(roomId: string | Symbols.AnyRoom, versions: ApiVersion[] = []): Capability {
+    return spellCapabilityFor(`org.matrix.msc2762.timeline:${roomId}`, versions);
+}
+
 /**
  * Determines if a capability is a capability for a timeline.
  * @param {Capability} capability The capability to test.
  * @returns {boolean} True if a timeline capability, false otherwise.
  */
 export function isTimelineCapability(capability: Capability): boolean {
-    // TODO: Change when MSC2762 becomes stable.
-    return capability?.startsWith("org.matrix.msc2762.timeline:");
+    return normalizeCapability(capability ?? "").startsWith("m.timeline:");
 }
 
 /**
@@ -85,7 +158,7 @@ export function isTimelineCapability(capability: Capability): boolean {
  * @returns {boolean} True if a matching capability, false otherwise.
  */
 export function isTimelineCapabilityFor(capability: Capability, roomId: string | Symbols.AnyRoom): boolean {
-    return capability === `org.matrix.msc2762.timeline:${roomId}`;
+    return normalizeCapability(capability) === `m.timeline:${roomId}`;
 }
 
 /**
@@ -28,7 +28,7 @@ export interface IDownloadFileActionFromWidgetActionRequest extends IWidgetApiRe
 }
 
 export interface IDownloadFileActionFromWidgetResponseData extends IWidgetApiResponseData {
-    file: XMLHttpRequestBodyInit;
+    file: XMLHttpRequestBodyInit | ReadableStream<Uint8Array>;
 }
 
 export interface IDownloadFileActionFromWidgetActionResponse extends IDownloadFileActionFromWidgetActionRequest {
@@ -24,7 +24,7 @@ export interface IScreenshotActionRequest extends IWidgetApiRequest {
 }
 
 export interface IScreenshotActionResponseData extends IWidgetApiResponseData {
-    screenshot: Blob;
+    screenshot: Blob | ArrayBuffer | ReadableStream<Uint8Array>;
 }
 
 export interface IScreenshotActionResponse extends IScreenshotActionRequest {
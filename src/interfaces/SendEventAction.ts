@@ -16,7 +16,7 @@
 
 import { IWidgetApiRequest, IWidgetApiRequestData } from "./IWidgetApiRequest";
 import { WidgetApiFromWidgetAction, WidgetApiToWidgetAction } from "./WidgetApiAction";
-import { IWidgetApiResponseData } from "./IWidgetApiResponse";
+import { IWidgetApiAcknowledgeResponseData, IWidgetApiResponseData } from "./IWidgetApiResponse";
 import { IRoomEvent } from "./IRoomEvent";
 
 export interface ISendEventFromWidgetRequestData extends IWidgetApiRequestData {
@@ -64,3 +64,19 @@ export interface ISendEventToWidgetResponseData extends IWidgetApiResponseData {
 export interface ISendEventToWidgetActionResponse extends ISendEventToWidgetActionRequest {
     response: ISendEventToWidgetResponseData;
 }
+
+export interface ISendEventsToWidgetRequestData extends IWidgetApiRequestData {
+    /**
+     * The events, in the order the widget should handle them.
+     */
+    events: IRoomEvent[];
+}
+
+export interface ISendEventsToWidgetActionRequest extends IWidgetApiRequest {
+    action: WidgetApiToWidgetAction.SendEvents;
+    data: ISendEventsToWidgetRequestData;
+}
+
+export interface ISendEventsToWidgetActionResponse extends ISendEventsToWidgetActionRequest {
+    response: IWidgetApiAcknowledgeResponseData;
+}
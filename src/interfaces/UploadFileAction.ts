@@ -19,7 +19,14 @@ import { IWidgetApiResponseData } from "./IWidgetApiResponse";
 import { WidgetApiFromWidgetAction } from "./WidgetApiAction";
 
 export interface IUploadFileActionFromWidgetRequestData extends IWidgetApiRequestData {
-    file: XMLHttpRequestBodyInit;
+    file: XMLHttpRequestBodyInit | ReadableStream<Uint8Array>;
+
+    /**
+     * An ID chosen by the widget to receive progress updates for the upload
+     * under. If not given, no progress updates are sent.
+     * @experimental It is not recommended to rely on this existing - it can be removed without notice.
+     */
+    upload_id?: string; // eslint-disable-line camelcase
 }
 
 export interface IUploadFileActionFromWidgetActionRequest extends IWidgetApiRequest {
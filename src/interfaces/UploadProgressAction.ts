@@ -0,0 +1,45 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IWidgetApiRequest, IWidgetApiRequestData } from "./IWidgetApiRequest";
+import { WidgetApiToWidgetAction } from "./WidgetApiAction";
+import { IWidgetApiAcknowledgeResponseData } from "./IWidgetApiResponse";
+
+export interface IUploadProgressActionRequestData extends IWidgetApiRequestData {
+    /**
+     * The ID the widget gave the upload.
+     */
+    upload_id: string; // eslint-disable-line camelcase
+
+    /**
+     * The number of bytes sent so far.
+     */
+    sent: number;
+
+    /**
+     * The total number of bytes to send.
+     */
+    total: number;
+}
+
+export interface IUploadProgressActionRequest extends IWidgetApiRequest {
+    action: WidgetApiToWidgetAction.UploadProgress;
+    data: IUploadProgressActionRequestData;
+}
+
+export interface IUploadProgressActionResponse extends IUploadProgressActionRequest {
+    response: IWidgetApiAcknowledgeResponseData;
+}
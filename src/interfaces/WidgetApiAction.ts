@@ -30,6 +30,21 @@ export enum WidgetApiToWidgetAction {
     SendToDevice = "send_to_device",
     UpdateState = "update_state",
     UpdateTurnServers = "update_turn_servers",
+
+    /**
+     * @experimental It is not recommended to rely on this existing - it can be removed without notice.
+     */
+    AbortRequest = "org.matrix.widget_api.abort_request",
+
+    /**
+     * @experimental It is not recommended to rely on this existing - it can be removed without notice.
+     */
+    UploadProgress = "org.matrix.widget_api.upload_progress",
+
+    /**
+     * @experimental It is not recommended to rely on this existing - it can be removed without notice.
+     */
+    SendEvents = "org.matrix.widget_api.send_events",
 }
 
 export enum WidgetApiFromWidgetAction {
@@ -92,6 +107,16 @@ export enum WidgetApiFromWidgetAction {
      * @experimental It is not recommended to rely on this existing - it can be removed without notice.
      */
     MSC4157UpdateDelayedEvent = "org.matrix.msc4157.update_delayed_event",
+
+    /**
+     * @experimental It is not recommended to rely on this existing - it can be removed without notice.
+     */
+    MessageChannelHandshake = "org.matrix.widget_api.message_channel",
+
+    /**
+     * @experimental It is not recommended to rely on this existing - it can be removed without notice.
+     */
+    AbortRequest = "org.matrix.widget_api.abort_request",
 }
 
 export type WidgetApiAction = WidgetApiToWidgetAction | WidgetApiFromWidgetAction | string;
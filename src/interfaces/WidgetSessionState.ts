@@ -0,0 +1,42 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The states of a client's session with a widget.
+ */
+export enum WidgetSessionState {
+    /** Waiting for the widget to load. */
+    Loading = "loading",
+    /** The widget has loaded, and is expected to say when its content has too. */
+    AwaitingContentLoaded = "awaiting_content_loaded",
+    /** Agreeing on the capabilities the widget may use. */
+    Negotiating = "negotiating",
+    /** The widget is running with its approved capabilities. */
+    Ready = "ready",
+    /** The widget has asked for more capabilities while running. */
+    Renegotiating = "renegotiating",
+    /** The client has stopped talking to the widget. This is final. */
+    Stopped = "stopped",
+    /** The widget could not be set up. It may recover by reloading. */
+    Failed = "failed",
+}
+
+export interface IWidgetSessionStateChange {
+    previous: WidgetSessionState;
+    state: WidgetSessionState;
+    /** What went wrong, when the session has failed. */
+    error?: unknown;
+}
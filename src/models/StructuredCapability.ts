@@ -0,0 +1,281 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Capability, normalizeCapability } from "../interfaces/Capabilities";
+import { Symbols } from "../Symbols";
+import { EventDirection, EventKind } from "./WidgetEventCapability";
+
+/**
+ * A capability to send or receive room events of a type.
+ */
+export interface IRoomEventCapability {
+    kind: EventKind.Event;
+    direction: EventDirection;
+    eventType: string;
+    // Whether eventType is a prefix of the event types covered
+    eventTypeIsPrefix: boolean;
+
+    /**
+     * The msgtype the capability is limited to, or null for any. Only
+     * capabilities for exactly m.room.message can be limited to a msgtype.
+     */
+    msgtype: string | null;
+
+    // Whether the capability is spelled in the stable `m.*` namespace
+    stable: boolean;
+}
+
+/**
+ * A capability to send or receive state events of a type.
+ */
+export interface IStateEventCapability {
+    kind: EventKind.State;
+    direction: EventDirection;
+    eventType: string;
+    eventTypeIsPrefix: boolean;
+
+    /**
+     * The state key the capability is limited to, or null for any.
+     */
+    stateKey: string | null;
+    // Whether stateKey is a prefix of the state keys covered
+    stateKeyIsPrefix: boolean;
+
+    stable: boolean;
+}
+
+/**
+ * A capability to send or receive to-device messages of a type.
+ */
+export interface IToDeviceCapability {
+    kind: EventKind.ToDevice;
+    direction: EventDirection;
+    eventType: string;
+    eventTypeIsPrefix: boolean;
+    stable: boolean;
+}
+
+/**
+ * A capability to send or receive room account data of a type. Room account
+ * data has no stable spelling.
+ */
+export interface IRoomAccountDataCapability {
+    kind: EventKind.RoomAccount;
+    direction: EventDirection;
+    eventType: string;
+    eventTypeIsPrefix: boolean;
+}
+
+/**
+ * A capability to use the timeline of a room other than the viewed one.
+ */
+export interface ITimelineCapability {
+    kind: "timeline";
+    roomId: string | Symbols.AnyRoom;
+    stable: boolean;
+}
+
+/**
+ * Any other capability, which has no structure.
+ */
+export interface IPlainCapability {
+    kind: "plain";
+    capability: Capability;
+}
+
+/**
+ * A capability broken down into what it is for. Serializing and then parsing
+ * a structured capability gives back an equal one. Shapes which no capability
+ * can be spelled as, such as a msgtype for other event types than exactly
+ * m.room.message, are refused by {@link serializeCapability}.
+ */
+export type StructuredCapability =
+    | IRoomEventCapability
+    | IStateEventCapability
+    | IToDeviceCapability
+    | IRoomAccountDataCapability
+    | ITimelineCapability
+    | IPlainCapability;
+
+type EventCapability = Exclude<StructuredCapability, ITimelineCapability | IPlainCapability>;
+
+// The name of each kind of event in capabilities. Looked up lazily, as
+// WidgetEventCapability imports this module.
+function kindName(kind: EventKind): string {
+    return kind === EventKind.RoomAccount ? "room_account_data" : kind;
+}
+
+function kindFromName(name: string): EventKind | undefined {
+    return [EventKind.Event, EventKind.State, EventKind.ToDevice, EventKind.RoomAccount].find(
+        (k) => kindName(k) === name,
+    );
+}
+
+// Characters which a backslash escapes. Before any other character, a
+// backslash stands for itself, as older versions of this library wrote them.
+const Escapable = ["\\", "#", "*"];
+
+/**
+ * Parses a capability, in either its unstable or stable spelling.
+ * @param {Capability} capability The capability to parse.
+ * @returns {StructuredCapability} The structured capability. Capabilities
+ * which aren't for events or timelines are plain.
+ */
+export function parseCapability(capability: Capability): StructuredCapability {
+    const normalized = normalizeCapability(capability);
+    const stable = normalized === capability;
+
+    if (normalized.startsWith("m.timeline:")) {
+        return { kind: "timeline", roomId: normalized.substring("m.timeline:".length), stable };
+    }
+
+    const match = /^(m|com\.beeper\.capabilities)\.(send|receive)\.([a-z_]+):/.exec(normalized);
+    const kind = match && kindFromName(match[3]);
+    // Room account data is only spelled with the Beeper prefix, and everything else never is
+    if (!match || !kind || (kind === EventKind.RoomAccount) !== (match[1] !== "m")) {
+        return { kind: "plain", capability };
+    }
+    const direction = match[2] === "send" ? EventDirection.Send : EventDirection.Receive;
+    const segment = normalized.substring(match[0].length);
+
+    // The event type runs up to the first unescaped `#`, if the kind of event
+    // has keys, with the state key or msgtype after it
+    const eventType = unescape(segment, (soFar) => kind === EventKind.State || soFar === "m.room.message");
+    const key = eventType.end < segment.length ? unescape(segment.substring(eventType.end + 1)) : null;
+
+    switch (kind) {
+        case EventKind.Event:
+            return {
+                kind,
+                direction,
+                eventType: eventType.value,
+                eventTypeIsPrefix: eventType.isPrefix,
+                // msgtypes can't be patterns, so a trailing `*` is literal
+                msgtype: key && key.value + (key.isPrefix ? "*" : ""),
+                stable,
+            };
+        case EventKind.State:
+            return {
+                kind,
+                direction,
+                eventType: eventType.value,
+                eventTypeIsPrefix: eventType.isPrefix,
+                stateKey: key && key.value,
+                stateKeyIsPrefix: key?.isPrefix ?? false,
+                stable,
+            };
+        case EventKind.ToDevice:
+            return { kind, direction, eventType: eventType.value, eventTypeIsPrefix: eventType.isPrefix, stable };
+        case EventKind.RoomAccount:
+            return { kind, direction, eventType: eventType.value, eventTypeIsPrefix: eventType.isPrefix };
+    }
+}
+
+/**
+ * Serializes a structured capability.
+ * @param {StructuredCapability} capability The capability to serialize.
+ * @returns {Capability} The capability, spelled as its `stable` field says.
+ * @throws Throws if the capability would parse back as a different one.
+ */
+export function serializeCapability(capability: StructuredCapability): Capability {
+    switch (capability.kind) {
+        case "plain":
+            if (parseCapability(capability.capability).kind !== "plain") {
+                throw new Error("Plain capabilities can't be spelled as event or timeline capabilities");
+            }
+            return capability.capability;
+        case "timeline":
+            return `${capability.stable ? "m" : "org.matrix.msc2762"}.timeline:${capability.roomId}`;
+        default:
+            return serializeEventCapability(capability);
+    }
+}
+
+function serializeEventCapability(capability: EventCapability): Capability {
+    if (
+        capability.kind === EventKind.Event &&
+        capability.msgtype !== null &&
+        (capability.eventType !== "m.room.message" || capability.eventTypeIsPrefix)
+    ) {
+        throw new Error("Only capabilities for exactly m.room.message can be limited to a msgtype");
+    }
+    if (capability.kind === EventKind.State && capability.stateKey === null && capability.stateKeyIsPrefix) {
+        throw new Error("Capabilities for any state key can't be state key prefixes");
+    }
+
+    let key: string | null = null;
+    if (capability.kind === EventKind.Event && capability.msgtype !== null) {
+        key = escape(capability.msgtype, false);
+    } else if (capability.kind === EventKind.State && capability.stateKey !== null) {
+        key = escape(capability.stateKey, capability.stateKeyIsPrefix);
+    }
+
+    let namespace: string;
+    if (capability.kind === EventKind.RoomAccount) namespace = "com.beeper.capabilities";
+    else if (capability.stable) namespace = "m";
+    else namespace = capability.kind === EventKind.ToDevice ? "org.matrix.msc3819" : "org.matrix.msc2762";
+
+    const eventType = escape(capability.eventType, capability.eventTypeIsPrefix, true);
+    const prefix = `${namespace}.${capability.direction}.${kindName(capability.kind)}:`;
+    return prefix + eventType + (key === null ? "" : `#${key}`);
+}
+
+/**
+ * Escapes a part of a capability.
+ * @param {string} value The value to escape.
+ * @param {boolean} isPrefix Whether to end it with an unescaped `*`, making a
+ * pattern.
+ * @param {boolean} escapeHash Whether to escape `#`, which would otherwise
+ * separate the event type from its key.
+ * @returns {string} The escaped value.
+ */
+function escape(value: string, isPrefix: boolean, escapeHash = false): string {
+    let escaped = value.replace(escapeHash ? /[\\#]/g : /\\/g, (c) => `\\${c}`);
+    if (isPrefix) return escaped + "*";
+    // Otherwise a trailing `*` would make a pattern
+    if (escaped.endsWith("*")) escaped = escaped.substring(0, escaped.length - 1) + "\\*";
+    return escaped;
+}
+
+/**
+ * Reads an escaped part of a capability.
+ * @param {string} str The string to read.
+ * @param {(soFar: string) => boolean} splitsAt Whether an unescaped `#` after
+ * what has been read so far ends the part.
+ * @returns The value, whether it ended in an unescaped `*`, and the index it
+ * ended at.
+ */
+function unescape(
+    str: string,
+    splitsAt: (soFar: string) => boolean = (): boolean => false,
+): { value: string; isPrefix: boolean; end: number } {
+    let value = "";
+    let lastEscaped = false;
+    let i = 0;
+    for (; i < str.length; i++) {
+        const c = str[i];
+        if (c === "\\" && i + 1 < str.length && Escapable.includes(str[i + 1])) {
+            value += str[++i];
+            lastEscaped = true;
+            continue;
+        }
+        if (c === "#" && splitsAt(value)) break;
+        value += c;
+        lastEscaped = false;
+    }
+    const isPrefix = value.endsWith("*") && !lastEscaped;
+    return { value: isPrefix ? value.substring(0, value.length - 1) : value, isPrefix, end: i };
+}
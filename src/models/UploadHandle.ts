@@ -0,0 +1,99 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "events";
+
+import { IUploadFileActionFromWidgetResponseData } from "../interfaces/UploadFileAction";
+
+export interface IUploadProgress {
+    /**
+     * The number of bytes sent so far.
+     */
+    sent: number;
+
+    /**
+     * The total number of bytes to send.
+     */
+    total: number;
+}
+
+/**
+ * An upload in progress, as started by {@link WidgetApi.startUpload}.
+ *
+ * Progress reported by the client is raised through a "progress" CustomEvent
+ * with an {@link IUploadProgress} as its detail. Clients which don't report
+ * progress will never raise it.
+ */
+export class UploadHandle extends EventEmitter {
+    /**
+     * Resolves to the location of the uploaded file, or rejects if the upload
+     * fails or is cancelled.
+     */
+    public readonly result: Promise<IUploadFileActionFromWidgetResponseData>;
+
+    private readonly controller = new AbortController();
+    private _progress: IUploadProgress | null = null;
+
+    /**
+     * Creates a new upload handle, starting the upload.
+     * @param {Function} send Sends the upload request, abandoning it when the
+     * given signal is aborted.
+     * @param {AbortSignal} signal A signal to cancel the upload with, in addition
+     * to {@link cancel}.
+     */
+    public constructor(
+        send: (signal: AbortSignal) => Promise<IUploadFileActionFromWidgetResponseData>,
+        signal?: AbortSignal,
+    ) {
+        super();
+        const onAbort = (): void => this.cancel(signal!.reason);
+        if (signal?.aborted) {
+            onAbort();
+        } else {
+            signal?.addEventListener("abort", onAbort);
+        }
+
+        this.result = send(this.controller.signal);
+        const cleanUp = (): void => signal?.removeEventListener("abort", onAbort);
+        this.result.then(cleanUp, cleanUp);
+    }
+
+    /**
+     * The last progress reported by the client, or null if none has been.
+     */
+    public get progress(): IUploadProgress | null {
+        return this._progress;
+    }
+
+    /**
+     * Cancels the upload. The client is asked to abort it, and the result
+     * rejects with the given reason.
+     * @param {unknown} reason The reason for cancelling. Defaults to an AbortError.
+     */
+    public cancel(reason?: unknown): void {
+        this.controller.abort(reason);
+    }
+
+    /**
+     * Records progress reported by the client for the upload.
+     * @param {IUploadProgress} progress The progress of the upload.
+     */
+    public updateProgress(progress: IUploadProgress): void {
+        if (this.controller.signal.aborted) return;
+        this._progress = progress;
+        this.emit("progress", new CustomEvent<IUploadProgress>("progress", { detail: progress }));
+    }
+}
@@ -15,6 +15,9 @@
  */
 
 import { Capability } from "..";
+import { ApiVersion } from "../interfaces/ApiVersion";
+import { supportsStableCapabilities } from "../interfaces/Capabilities";
+import { parseCapability, serializeCapability, StructuredCapability } from "./StructuredCapability";
 
 export enum EventKind {
     Event = "event",
@@ -28,6 +31,25 @@ export enum EventDirection {
     Receive = "receive",
 }
 
+/**
+ * A capability to send or receive events of a type.
+ *
+ * Event types, and the state keys of state event capabilities, may end in an
+ * unescaped `*` to match everything starting with what comes before it, such
+ * as `org.matrix.msc2762.receive.event:org.matrix.msc3401.call.*`. A `*`
+ * anywhere else, or escaped as `\*` at the end, is matched literally. Such
+ * patterns have {@link eventTypeIsPrefix} or {@link keyStrIsPrefix} set, with
+ * the `*` left out of {@link eventType} and {@link keyStr}.
+ *
+ * Before patterns, a trailing `*` was matched literally. Clients only treat
+ * it as a pattern for widgets advertising
+ * {@link UnstableApiVersion.EventCapabilityPatterns}, so that capabilities
+ * granted to older widgets keep covering what they did.
+ *
+ * A backslash escapes a following `\`, `#` or `*`. Capabilities are parsed
+ * and built through {@link StructuredCapability}, so the builders escape
+ * whatever they are given.
+ */
 export class WidgetEventCapability {
     private constructor(
         public readonly direction: EventDirection,
@@ -35,14 +57,28 @@ export class WidgetEventCapability {
         public readonly kind: EventKind,
         public readonly keyStr: string | null,
         public readonly raw: string,
+        public readonly eventTypeIsPrefix = false,
+        public readonly keyStrIsPrefix = false,
     ) {}
 
+    /**
+     * Whether the capability covers more than one event type or state key.
+     */
+    public get isPattern(): boolean {
+        return this.eventTypeIsPrefix || this.keyStrIsPrefix;
+    }
+
+    private matchesEventType(eventType: string): boolean {
+        return this.eventTypeIsPrefix ? eventType.startsWith(this.eventType) : eventType === this.eventType;
+    }
+
     public matchesAsStateEvent(direction: EventDirection, eventType: string, stateKey: string | null): boolean {
         if (this.kind !== EventKind.State) return false; // not a state event
         if (this.direction !== direction) return false; // direction mismatch
-        if (this.eventType !== eventType) return false; // event type mismatch
+        if (!this.matchesEventType(eventType)) return false; // event type mismatch
         if (this.keyStr === null) return true; // all state keys are allowed
         if (this.keyStr === stateKey) return true; // this state key is allowed
+        if (this.keyStrIsPrefix && stateKey?.startsWith(this.keyStr)) return true; // state key matches the pattern
 
         // Default not allowed
         return false;
@@ -51,7 +87,7 @@ export class WidgetEventCapability {
     public matchesAsToDeviceEvent(direction: EventDirection, eventType: string): boolean {
         if (this.kind !== EventKind.ToDevice) return false; // not a to-device event
         if (this.direction !== direction) return false; // direction mismatch
-        if (this.eventType !== eventType) return false; // event type mismatch
+        if (!this.matchesEventType(eventType)) return false; // event type mismatch
 
         // Checks passed, the event is allowed
         return true;
@@ -60,9 +96,9 @@ export class WidgetEventCapability {
     public matchesAsRoomEvent(direction: EventDirection, eventType: string, msgtype: string | null = null): boolean {
         if (this.kind !== EventKind.Event) return false; // not a room event
         if (this.direction !== direction) return false; // direction mismatch
-        if (this.eventType !== eventType) return false; // event type mismatch
+        if (!this.matchesEventType(eventType)) return false; // event type mismatch
 
-        if (this.eventType === "m.room.message") {
+        if (this.eventType === "m.room.message" && !this.eventTypeIsPrefix) {
             if (this.keyStr === null) return true; // all message types are allowed
             if (this.keyStr === msgtype) return true; // this message type is allowed
         } else {
@@ -76,7 +112,7 @@ export class WidgetEventCapability {
     public matchesAsRoomAccountData(direction: EventDirection, eventType: string): boolean {
         if (this.kind !== EventKind.RoomAccount) return false; // not room account data
         if (this.direction !== direction) return false; // direction mismatch
-        if (this.eventType !== eventType) return false; // event type mismatch
+        if (!this.matchesEventType(eventType)) return false; // event type mismatch
 
         // Checks passed, the event is allowed
         return true;
@@ -86,138 +122,140 @@ export class WidgetEventCapability {
         direction: EventDirection,
         eventType: string,
         stateKey?: string,
+        versions: ApiVersion[] = [],
     ): WidgetEventCapability {
-        // TODO: Enable support for m.* namespace once the MSC lands.
-        // https://github.com/matrix-org/matrix-widget-api/issues/22
-        eventType = eventType.replace(/#/g, "\\#");
-        stateKey = stateKey !== null && stateKey !== undefined ? `#${stateKey}` : "";
-        const str = `org.matrix.msc2762.${direction}.state_event:${eventType}${stateKey}`;
-
-        // cheat by sending it through the processor
-        return WidgetEventCapability.findEventCapabilities([str])[0];
+        return WidgetEventCapability.from({
+            kind: EventKind.State,
+            direction,
+            eventType,
+            eventTypeIsPrefix: false,
+            stateKey: stateKey ?? null,
+            stateKeyIsPrefix: false,
+            stable: supportsStableCapabilities(versions),
+        });
     }
 
-    public static forToDeviceEvent(direction: EventDirection, eventType: string): WidgetEventCapability {
-        // TODO: Enable support for m.* namespace once the MSC lands.
-        // https://github.com/matrix-org/matrix-widget-api/issues/56
-        const str = `org.matrix.msc3819.${direction}.to_device:${eventType}`;
-
-        // cheat by sending it through the processor
-        return WidgetEventCapability.findEventCapabilities([str])[0];
+    public static forToDeviceEvent(
+        direction: EventDirection,
+        eventType: string,
+        versions: ApiVersion[] = [],
+    ): WidgetEventCapability {
+        return WidgetEventCapability.from({
+            kind: EventKind.ToDevice,
+            direction,
+            eventType,
+            eventTypeIsPrefix: false,
+            stable: supportsStableCapabilities(versions),
+        });
     }
 
-    public static forRoomEvent(direction: EventDirection, eventType: string): WidgetEventCapability {
-        // TODO: Enable support for m.* namespace once the MSC lands.
-        // https://github.com/matrix-org/matrix-widget-api/issues/22
-        const str = `org.matrix.msc2762.${direction}.event:${eventType}`;
-
-        // cheat by sending it through the processor
-        return WidgetEventCapability.findEventCapabilities([str])[0];
+    public static forRoomEvent(
+        direction: EventDirection,
+        eventType: string,
+        versions: ApiVersion[] = [],
+    ): WidgetEventCapability {
+        return WidgetEventCapability.from({
+            kind: EventKind.Event,
+            direction,
+            eventType,
+            eventTypeIsPrefix: false,
+            msgtype: null,
+            stable: supportsStableCapabilities(versions),
+        });
     }
 
-    public static forRoomMessageEvent(direction: EventDirection, msgtype?: string): WidgetEventCapability {
-        // TODO: Enable support for m.* namespace once the MSC lands.
-        // https://github.com/matrix-org/matrix-widget-api/issues/22
-        msgtype = msgtype === null || msgtype === undefined ? "" : msgtype;
-        const str = `org.matrix.msc2762.${direction}.event:m.room.message#${msgtype}`;
-
-        // cheat by sending it through the processor
-        return WidgetEventCapability.findEventCapabilities([str])[0];
+    public static forRoomMessageEvent(
+        direction: EventDirection,
+        msgtype?: string,
+        versions: ApiVersion[] = [],
+    ): WidgetEventCapability {
+        return WidgetEventCapability.from({
+            kind: EventKind.Event,
+            direction,
+            eventType: "m.room.message",
+            eventTypeIsPrefix: false,
+            msgtype: msgtype ?? "",
+            stable: supportsStableCapabilities(versions),
+        });
     }
 
     public static forRoomAccountData(direction: EventDirection, eventType: string): WidgetEventCapability {
-        const str = `com.beeper.capabilities.${direction}.room_account_data:${eventType}`;
+        return WidgetEventCapability.from({
+            kind: EventKind.RoomAccount,
+            direction,
+            eventType,
+            eventTypeIsPrefix: false,
+        });
+    }
 
-        return WidgetEventCapability.findEventCapabilities([str])[0];
+    /**
+     * Serializes a structured event capability and parses it back.
+     */
+    private static from(capability: StructuredCapability): WidgetEventCapability {
+        return WidgetEventCapability.findEventCapabilities([serializeCapability(capability)])[0];
     }
 
     /**
      * Parses a capabilities request to find all the event capability requests.
+     * Both the unstable (MSC) and stable `m.*` spellings are accepted, and parse
+     * to the same capability apart from {@link raw}.
      * @param {Iterable<Capability>} capabilities The capabilities requested/to parse.
+     * @param {boolean} allowPatterns Whether a trailing unescaped `*` makes a
+     * pattern. Only pass true for widgets which support
+     * {@link UnstableApiVersion.EventCapabilityPatterns}: otherwise, it is matched
+     * literally, as it was before patterns existed.
      * @returns {WidgetEventCapability[]} An array of event capability requests. May be empty, but never null.
      */
-    public static findEventCapabilities(capabilities: Iterable<Capability>): WidgetEventCapability[] {
-        const parsed: WidgetEventCapability[] = [];
-        for (const cap of capabilities) {
-            let direction: EventDirection | null = null;
-            let eventSegment: string | undefined;
-            let kind: EventKind | null = null;
-
-            // TODO: Enable support for m.* namespace once the MSCs land.
-            // https://github.com/matrix-org/matrix-widget-api/issues/22
-            // https://github.com/matrix-org/matrix-widget-api/issues/56
-
-            if (cap.startsWith("org.matrix.msc2762.send.event:")) {
-                direction = EventDirection.Send;
-                kind = EventKind.Event;
-                eventSegment = cap.substring("org.matrix.msc2762.send.event:".length);
-            } else if (cap.startsWith("org.matrix.msc2762.send.state_event:")) {
-                direction = EventDirection.Send;
-                kind = EventKind.State;
-                eventSegment = cap.substring("org.matrix.msc2762.send.state_event:".length);
-            } else if (cap.startsWith("org.matrix.msc3819.send.to_device:")) {
-                direction = EventDirection.Send;
-                kind = EventKind.ToDevice;
-                eventSegment = cap.substring("org.matrix.msc3819.send.to_device:".length);
-            } else if (cap.startsWith("org.matrix.msc2762.receive.event:")) {
-                direction = EventDirection.Receive;
-                kind = EventKind.Event;
-                eventSegment = cap.substring("org.matrix.msc2762.receive.event:".length);
-            } else if (cap.startsWith("org.matrix.msc2762.receive.state_event:")) {
-                direction = EventDirection.Receive;
-                kind = EventKind.State;
-                eventSegment = cap.substring("org.matrix.msc2762.receive.state_event:".length);
-            } else if (cap.startsWith("org.matrix.msc3819.receive.to_device:")) {
-                direction = EventDirection.Receive;
-                kind = EventKind.ToDevice;
-                eventSegment = cap.substring("org.matrix.msc3819.receive.to_device:".length);
-            } else if (cap.startsWith("com.beeper.capabilities.receive.room_account_data:")) {
-                direction = EventDirection.Receive;
-                kind = EventKind.RoomAccount;
-                eventSegment = cap.substring("com.beeper.capabilities.receive.room_account_data:".length);
-            }
+    public static findEventCapabilities(
+        capabilities: Iterable<Capability>,
+        allowPatterns = false,
+    ): WidgetEventCapability[] {
+        const literal = (value: string, isPrefix: boolean): string =>
+            isPrefix && !allowPatterns ? value + "*" : value;
 
-            if (direction === null || kind === null || eventSegment === undefined) continue;
-
-            // The capability uses `#` as a separator between event type and state key/msgtype,
-            // so we split on that. However, a # is also valid in either one of those so we
-            // join accordingly.
-            // Eg: `m.room.message##m.text` is "m.room.message" event with msgtype "#m.text".
-            const expectingKeyStr = eventSegment.startsWith("m.room.message#") || kind === EventKind.State;
-            let keyStr: string | null = null;
-            if (eventSegment.includes("#") && expectingKeyStr) {
-                // Dev note: regex is difficult to write, so instead the rules are manually written
-                // out. This is probably just as understandable as a boring regex though, so win-win?
-
-                // Test cases:
-                // str                      eventSegment        keyStr
-                // -------------------------------------------------------------
-                // m.room.message#          m.room.message      <empty string>
-                // m.room.message#test      m.room.message      test
-                // m.room.message\#         m.room.message#     test
-                // m.room.message##test     m.room.message      #test
-                // m.room.message\##test    m.room.message#     test
-                // m.room.message\\##test   m.room.message\#    test
-                // m.room.message\\###test  m.room.message\#    #test
-
-                // First step: explode the string
-                const parts = eventSegment.split("#");
-
-                // To form the eventSegment, we'll keep finding parts of the exploded string until
-                // there's one that doesn't end with the escape character (\). We'll then join those
-                // segments together with the exploding character. We have to remember to consume the
-                // escape character as well.
-                const idx = parts.findIndex((p) => !p.endsWith("\\"));
-                eventSegment = parts
-                    .slice(0, idx + 1)
-                    .map((p) => (p.endsWith("\\") ? p.substring(0, p.length - 1) : p))
-                    .join("#");
-
-                // The keyStr is whatever is left over.
-                keyStr = parts.slice(idx + 1).join("#");
+        const parsed: WidgetEventCapability[] = [];
+        for (const raw of capabilities) {
+            const cap = parseCapability(raw);
+            switch (cap.kind) {
+                case EventKind.Event:
+                    parsed.push(
+                        new WidgetEventCapability(
+                            cap.direction,
+                            literal(cap.eventType, cap.eventTypeIsPrefix),
+                            cap.kind,
+                            cap.msgtype,
+                            raw,
+                            cap.eventTypeIsPrefix && allowPatterns,
+                        ),
+                    );
+                    break;
+                case EventKind.State:
+                    parsed.push(
+                        new WidgetEventCapability(
+                            cap.direction,
+                            literal(cap.eventType, cap.eventTypeIsPrefix),
+                            cap.kind,
+                            cap.stateKey === null ? null : literal(cap.stateKey, cap.stateKeyIsPrefix),
+                            raw,
+                            cap.eventTypeIsPrefix && allowPatterns,
+                            cap.stateKeyIsPrefix && allowPatterns,
+                        ),
+                    );
+                    break;
+                case EventKind.ToDevice:
+                case EventKind.RoomAccount:
+                    parsed.push(
+                        new WidgetEventCapability(
+                            cap.direction,
+                            literal(cap.eventType, cap.eventTypeIsPrefix),
+                            cap.kind,
+                            null,
+                            raw,
+                            cap.eventTypeIsPrefix && allowPatterns,
+                        ),
+                    );
+                    break;
             }
-
-            parsed.push(new WidgetEventCapability(direction, eventSegment, kind, keyStr, cap));
         }
         return parsed;
     }
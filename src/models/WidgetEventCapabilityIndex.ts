@@ -0,0 +1,166 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventDirection, EventKind, WidgetEventCapability } from "./WidgetEventCapability";
+
+/**
+ * What the capabilities for one event type allow.
+ */
+interface IEventTypeEntry {
+    // Whether any key (msgtype or state key) is allowed
+    anyKey: boolean;
+    keys: Set<string>;
+    keyPrefixes: string[];
+}
+
+/**
+ * The capabilities of one kind and direction.
+ */
+interface IBucket {
+    // Event type → what its capabilities allow
+    eventTypes: Map<string, IEventTypeEntry>;
+    // Capabilities with event type patterns, which can't be looked up by type
+    patterns: WidgetEventCapability[];
+}
+
+/**
+ * Event capabilities compiled for fast matching. Lookups by exact event type
+ * take constant time however many capabilities there are, with only
+ * capabilities using event type patterns checked one by one.
+ *
+ * Matches the same events as checking each capability's `matchesAs*` methods.
+ */
+export class WidgetEventCapabilityIndex implements Iterable<WidgetEventCapability> {
+    private capabilities: WidgetEventCapability[] = [];
+    // `${kind} ${direction}` → capabilities
+    private buckets = new Map<string, IBucket>();
+
+    public constructor(capabilities: Iterable<WidgetEventCapability> = []) {
+        this.add(capabilities);
+    }
+
+    /**
+     * The number of capabilities in the index.
+     */
+    public get size(): number {
+        return this.capabilities.length;
+    }
+
+    public [Symbol.iterator](): Iterator<WidgetEventCapability> {
+        return this.capabilities[Symbol.iterator]();
+    }
+
+    /**
+     * Adds capabilities to the index.
+     * @param {Iterable<WidgetEventCapability>} capabilities The capabilities to add.
+     */
+    public add(capabilities: Iterable<WidgetEventCapability>): void {
+        for (const cap of capabilities) {
+            this.capabilities.push(cap);
+
+            const bucketKey = `${cap.kind} ${cap.direction}`;
+            let bucket = this.buckets.get(bucketKey);
+            if (bucket === undefined) {
+                bucket = { eventTypes: new Map(), patterns: [] };
+                this.buckets.set(bucketKey, bucket);
+            }
+            if (cap.eventTypeIsPrefix) {
+                bucket.patterns.push(cap);
+                continue;
+            }
+
+            let entry = bucket.eventTypes.get(cap.eventType);
+            if (entry === undefined) {
+                entry = { anyKey: false, keys: new Set(), keyPrefixes: [] };
+                bucket.eventTypes.set(cap.eventType, entry);
+            }
+            if (cap.keyStr === null || !hasKeys(cap)) entry.anyKey = true;
+            else if (cap.keyStrIsPrefix) entry.keyPrefixes.push(cap.keyStr);
+            else entry.keys.add(cap.keyStr);
+        }
+    }
+
+    /**
+     * Removes capabilities from the index.
+     * @param {(cap: WidgetEventCapability) => boolean} predicate Decides which
+     * capabilities to remove.
+     */
+    public remove(predicate: (cap: WidgetEventCapability) => boolean): void {
+        const remaining = this.capabilities.filter((cap) => !predicate(cap));
+        this.clear();
+        this.add(remaining);
+    }
+
+    /**
+     * Removes all capabilities from the index.
+     */
+    public clear(): void {
+        this.capabilities = [];
+        this.buckets = new Map();
+    }
+
+    public matchesAsStateEvent(direction: EventDirection, eventType: string, stateKey: string | null): boolean {
+        return this.matches(EventKind.State, direction, eventType, stateKey, (cap) =>
+            cap.matchesAsStateEvent(direction, eventType, stateKey),
+        );
+    }
+
+    public matchesAsToDeviceEvent(direction: EventDirection, eventType: string): boolean {
+        return this.matches(EventKind.ToDevice, direction, eventType, null, (cap) =>
+            cap.matchesAsToDeviceEvent(direction, eventType),
+        );
+    }
+
+    public matchesAsRoomEvent(direction: EventDirection, eventType: string, msgtype: string | null = null): boolean {
+        return this.matches(EventKind.Event, direction, eventType, msgtype, (cap) =>
+            cap.matchesAsRoomEvent(direction, eventType, msgtype),
+        );
+    }
+
+    public matchesAsRoomAccountData(direction: EventDirection, eventType: string): boolean {
+        return this.matches(EventKind.RoomAccount, direction, eventType, null, (cap) =>
+            cap.matchesAsRoomAccountData(direction, eventType),
+        );
+    }
+
+    private matches(
+        kind: EventKind,
+        direction: EventDirection,
+        eventType: string,
+        key: string | null,
+        matchesPattern: (cap: WidgetEventCapability) => boolean,
+    ): boolean {
+        const bucket = this.buckets.get(`${kind} ${direction}`);
+        if (bucket === undefined) return false;
+
+        const entry = bucket.eventTypes.get(eventType);
+        if (entry !== undefined) {
+            if (entry.anyKey) return true;
+            if (key !== null && (entry.keys.has(key) || entry.keyPrefixes.some((p) => key.startsWith(p)))) {
+                return true;
+            }
+        }
+        return bucket.patterns.length > 0 && bucket.patterns.some(matchesPattern);
+    }
+}
+
+/**
+ * Whether a capability's key limits what it matches: the state key of state
+ * events, or the msgtype of m.room.message events.
+ */
+function hasKeys(cap: WidgetEventCapability): boolean {
+    return cap.kind === EventKind.State || (cap.kind === EventKind.Event && cap.eventType === "m.room.message");
+}
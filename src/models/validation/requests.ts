@@ -0,0 +1,328 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IWidgetApiRequest } from "../../interfaces/IWidgetApiRequest";
+import { WidgetApiFromWidgetAction, WidgetApiToWidgetAction } from "../../interfaces/WidgetApiAction";
+import { WidgetApiDirection } from "../../interfaces/WidgetApiDirection";
+import { UpdateDelayedEventAction } from "../../interfaces/UpdateDelayedEventAction";
+import { OpenIDRequestState } from "../../interfaces/GetOpenIDAction";
+import { Symbols } from "../../Symbols";
+
+/**
+ * Raised by request validators when a request's data is malformed. The message
+ * is suitable for sending back to the remote end as an error response.
+ */
+export class InvalidRequestError extends Error {
+    static {
+        this.prototype.name = this.name;
+    }
+}
+
+/**
+ * Checks the data of a request for a particular action.
+ * @throws {InvalidRequestError} describing the first problem found.
+ */
+export type RequestValidator = (data: unknown) => void;
+
+interface IField {
+    label: string;
+    optional?: boolean;
+    /**
+     * Describes what is wrong with a present value, or returns null if it is fine.
+     */
+    problem(value: unknown): string | null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function string(label: string, optional = false): IField {
+    return { label, optional, problem: (v) => (typeof v === "string" ? null : "must be a string") };
+}
+
+function boolean(label: string, optional = false): IField {
+    return { label, optional, problem: (v) => (typeof v === "boolean" ? null : "must be a boolean") };
+}
+
+function count(label: string, optional = false): IField {
+    return {
+        label,
+        optional,
+        problem: (v): string | null => {
+            if (typeof v !== "number") return "must be a number";
+            return Number.isFinite(v) && v >= 0 ? null : "out of range";
+        },
+    };
+}
+
+function object(label: string, optional = false): IField {
+    return { label, optional, problem: (v) => (isPlainObject(v) ? null : "must be an object") };
+}
+
+function stringArray(label: string, optional = false): IField {
+    return { label, optional, problem: (v) => (isStringArray(v) ? null : "must be a list of strings") };
+}
+
+function oneOf(label: string, values: readonly string[], optional = false): IField {
+    return {
+        label,
+        optional,
+        problem: (v) => (values.includes(<string>v) ? null : `must be one of: ${values.join(", ")}`),
+    };
+}
+
+function present(label: string): IField {
+    return { label, problem: () => null };
+}
+
+const roomIds: IField = {
+    label: "room IDs",
+    optional: true,
+    problem: (v) => (v === Symbols.AnyRoom || isStringArray(v) ? null : `must be a list of strings or "*"`),
+};
+
+const stateKey: IField = {
+    label: "state key",
+    optional: true,
+    problem: (v) => (typeof v === "string" || typeof v === "boolean" ? null : "must be a string or boolean"),
+};
+
+const deviceMessages: IField = {
+    label: "event contents",
+    problem: (v) =>
+        isPlainObject(v) &&
+        Object.values(v).every((devices) => isPlainObject(devices) && Object.values(devices).every(isPlainObject))
+            ? null
+            : "must map user IDs to device IDs to objects",
+};
+
+function check(data: unknown, fields: Record<string, IField>): void {
+    if (data !== undefined && data !== null && !isPlainObject(data)) {
+        throw new InvalidRequestError("Invalid request - data must be an object");
+    }
+    const values = isPlainObject(data) ? data : {};
+    for (const [key, field] of Object.entries(fields)) {
+        const value = values[key];
+        if (value === undefined || value === null) {
+            if (field.optional) continue;
+            throw new InvalidRequestError(`Invalid request - missing ${field.label}`);
+        }
+        const problem = field.problem(value);
+        if (problem) throw new InvalidRequestError(`Invalid request - ${field.label} ${problem}`);
+    }
+}
+
+function fields(spec: Record<string, IField>): RequestValidator {
+    return (data) => check(data, spec);
+}
+
+function listOf(label: string, validator: RequestValidator, optional = false): IField {
+    return {
+        label,
+        optional,
+        problem: (v): string | null => {
+            if (!Array.isArray(v)) return "must be a list";
+            for (const item of v) {
+                if (!isPlainObject(item)) return "must be a list of objects";
+                try {
+                    validator(item);
+                } catch (e) {
+                    if (e instanceof InvalidRequestError) return `contains an invalid entry: ${e.message}`;
+                    throw e;
+                }
+            }
+            return null;
+        },
+    };
+}
+
+const noData = fields({});
+
+const validateRoomEvent = fields({
+    type: string("event type"),
+    sender: string("sender"),
+    event_id: string("event ID"),
+    room_id: string("room ID"),
+    state_key: string("state key", true),
+    origin_server_ts: count("timestamp"),
+    content: object("event contents"),
+    unsigned: object("unsigned data", true),
+});
+
+const validateModalWidget = fields({
+    type: string("widget type"),
+    url: string("widget URL"),
+    name: string("widget name", true),
+    data: object("widget data", true),
+    waitForIframeLoad: boolean("waitForIframeLoad flag", true),
+    buttons: listOf(
+        "buttons",
+        fields({ id: string("button ID"), label: string("button label"), kind: string("button kind") }),
+        true,
+    ),
+});
+
+/**
+ * Validators for the data of each request a widget can send to the client.
+ */
+export const FromWidgetRequestValidators: { [action in WidgetApiFromWidgetAction]: RequestValidator } = {
+    [WidgetApiFromWidgetAction.SupportedApiVersions]: noData,
+    [WidgetApiFromWidgetAction.ContentLoaded]: noData,
+    [WidgetApiFromWidgetAction.SendSticker]: fields({
+        name: string("sticker name"),
+        description: string("sticker description", true),
+        content: object("sticker content"),
+    }),
+    [WidgetApiFromWidgetAction.UpdateAlwaysOnScreen]: fields({ value: boolean("value") }),
+    [WidgetApiFromWidgetAction.GetOpenIDCredentials]: noData,
+    [WidgetApiFromWidgetAction.CloseModalWidget]: noData,
+    [WidgetApiFromWidgetAction.OpenModalWidget]: validateModalWidget,
+    [WidgetApiFromWidgetAction.SetModalButtonEnabled]: fields({
+        button: string("button ID"),
+        enabled: boolean("enabled flag"),
+    }),
+    [WidgetApiFromWidgetAction.SendEvent]: fields({
+        type: string("event type"),
+        // left for the homeserver to judge
+        content: present("event contents"),
+        state_key: string("state key", true),
+        room_id: string("room ID", true),
+        delay: count("delay", true),
+        parent_delay_id: string("parent delay ID", true),
+        sticky_duration_ms: count("sticky duration", true),
+    }),
+    [WidgetApiFromWidgetAction.SendToDevice]: fields({
+        type: string("event type"),
+        messages: deviceMessages,
+        encrypted: boolean("encryption flag"),
+    }),
+    [WidgetApiFromWidgetAction.WatchTurnServers]: noData,
+    [WidgetApiFromWidgetAction.UnwatchTurnServers]: noData,
+    [WidgetApiFromWidgetAction.BeeperReadRoomAccountData]: fields({
+        type: string("event type"),
+        room_ids: roomIds,
+    }),
+    [WidgetApiFromWidgetAction.MSC2876ReadEvents]: fields({
+        type: string("event type"),
+        msgtype: string("msgtype", true),
+        state_key: stateKey,
+        limit: count("limit", true),
+        room_ids: roomIds,
+        since: string("since token", true),
+    }),
+    [WidgetApiFromWidgetAction.MSC2931Navigate]: fields({ uri: string("URI") }),
+    [WidgetApiFromWidgetAction.MSC2974RenegotiateCapabilities]: fields({
+        capabilities: stringArray("capabilities"),
+    }),
+    [WidgetApiFromWidgetAction.MSC3869ReadRelations]: fields({
+        event_id: string("event ID"),
+        rel_type: string("relation type", true),
+        event_type: string("event type", true),
+        room_id: string("room ID", true),
+        limit: count("limit", true),
+        from: string("from token", true),
+        to: string("to token", true),
+        direction: oneOf("direction", ["f", "b"], true),
+    }),
+    [WidgetApiFromWidgetAction.MSC3973UserDirectorySearch]: fields({
+        search_term: string("search term"),
+        limit: count("limit", true),
+    }),
+    [WidgetApiFromWidgetAction.MSC4039GetMediaConfigAction]: noData,
+    [WidgetApiFromWidgetAction.MSC4039UploadFileAction]: fields({
+        file: present("file"),
+        upload_id: string("upload ID", true),
+    }),
+    [WidgetApiFromWidgetAction.MSC4039DownloadFileAction]: fields({ content_uri: string("content URI") }),
+    [WidgetApiFromWidgetAction.MSC4157UpdateDelayedEvent]: fields({
+        delay_id: string("delay_id"),
+        action: oneOf("action", Object.values(UpdateDelayedEventAction)),
+    }),
+    [WidgetApiFromWidgetAction.MessageChannelHandshake]: fields({
+        port: {
+            label: "message port",
+            problem: (v) => (typeof (<MessagePort>v).postMessage === "function" ? null : "must be a MessagePort"),
+        },
+    }),
+    [WidgetApiFromWidgetAction.AbortRequest]: fields({ request_id: string("request ID") }),
+};
+
+/**
+ * Validators for the data of each request a client can send to a widget.
+ */
+export const ToWidgetRequestValidators: { [action in WidgetApiToWidgetAction]: RequestValidator } = {
+    [WidgetApiToWidgetAction.SupportedApiVersions]: noData,
+    [WidgetApiToWidgetAction.Capabilities]: noData,
+    [WidgetApiToWidgetAction.NotifyCapabilities]: fields({
+        requested: stringArray("requested capabilities"),
+        approved: stringArray("approved capabilities"),
+    }),
+    [WidgetApiToWidgetAction.ThemeChange]: noData,
+    [WidgetApiToWidgetAction.LanguageChange]: fields({ lang: string("language") }),
+    [WidgetApiToWidgetAction.TakeScreenshot]: noData,
+    [WidgetApiToWidgetAction.UpdateVisibility]: fields({ visible: boolean("visibility") }),
+    [WidgetApiToWidgetAction.OpenIDCredentials]: fields({
+        state: oneOf("state", Object.values(OpenIDRequestState)),
+        original_request_id: string("original request ID"),
+        access_token: string("access token", true),
+        expires_in: count("expiry", true),
+        matrix_server_name: string("server name", true),
+        token_type: string("token type", true),
+    }),
+    [WidgetApiToWidgetAction.WidgetConfig]: validateModalWidget,
+    [WidgetApiToWidgetAction.CloseModalWidget]: noData,
+    [WidgetApiToWidgetAction.ButtonClicked]: fields({ id: string("button ID") }),
+    [WidgetApiToWidgetAction.SendEvent]: validateRoomEvent,
+    [WidgetApiToWidgetAction.SendToDevice]: fields({
+        type: string("event type"),
+        sender: string("sender"),
+        content: object("event contents"),
+        encrypted: boolean("encryption flag"),
+    }),
+    [WidgetApiToWidgetAction.UpdateState]: fields({ state: listOf("state", validateRoomEvent) }),
+    [WidgetApiToWidgetAction.UpdateTurnServers]: fields({
+        uris: stringArray("URIs"),
+        username: string("username"),
+        password: string("password"),
+    }),
+    [WidgetApiToWidgetAction.AbortRequest]: fields({ request_id: string("request ID") }),
+    [WidgetApiToWidgetAction.UploadProgress]: fields({
+        upload_id: string("upload ID"),
+        sent: count("bytes sent"),
+        total: count("total bytes"),
+    }),
+    [WidgetApiToWidgetAction.SendEvents]: fields({ events: listOf("events", validateRoomEvent) }),
+};
+
+/**
+ * Checks the data of a request against the validator for its action and
+ * direction. Requests for actions without a validator (such as custom actions)
+ * are only checked to carry object data.
+ * @param {IWidgetApiRequest} request The request to check.
+ * @throws {InvalidRequestError} describing the first problem found.
+ */
+export function validateRequest(request: IWidgetApiRequest): void {
+    const validators: Record<string, RequestValidator> =
+        request.api === WidgetApiDirection.FromWidget ? FromWidgetRequestValidators : ToWidgetRequestValidators;
+    (Object.prototype.hasOwnProperty.call(validators, request.action) ? validators[request.action] : noData)(
+        request.data,
+    );
+}
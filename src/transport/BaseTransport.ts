@@ -0,0 +1,350 @@
+/*
+ * Copyright 2020 - 2024 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "events";
+
+import { ITransport, ITransportSendOptions } from "./ITransport";
+import { ITransportInterceptor } from "./ITransportInterceptor";
+import { IWidgetApiErrorResponseData, isErrorResponse } from "../interfaces/IWidgetApiErrorResponse";
+import { IWidgetApiRequest, IWidgetApiRequestData } from "../interfaces/IWidgetApiRequest";
+import { IWidgetApiResponse, IWidgetApiResponseData } from "../interfaces/IWidgetApiResponse";
+import { WidgetApiAction, WidgetApiFromWidgetAction, WidgetApiToWidgetAction } from "../interfaces/WidgetApiAction";
+import { invertedDirection, WidgetApiDirection } from "../interfaces/WidgetApiDirection";
+import { WidgetApiResponseError } from "./WidgetApiResponseError";
+import { IAbortRequestActionRequestData } from "../interfaces/AbortRequestAction";
+import { ILogger, SilentLogger } from "../util/Logger";
+
+interface IOutboundRequest {
+    request: IWidgetApiRequest;
+    resolve: (response: IWidgetApiResponse) => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * Runs a hook through each interceptor in turn, stopping early if one of them
+ * returns response data. Stays synchronous for as long as the hooks do.
+ * @param {ITransportInterceptor[]} interceptors The interceptors to run through.
+ * @param {Function} run Calls the hook on the given interceptor.
+ * @param {Function} next Called once the pipeline completes, with any response data.
+ * @param {Function} fail Called if a hook throws.
+ */
+function runInterceptors(
+    interceptors: ITransportInterceptor[],
+    run: (interceptor: ITransportInterceptor) => unknown,
+    next: (responseData?: IWidgetApiResponseData) => void,
+    fail: (err: Error) => void,
+): void {
+    for (let i = 0; i < interceptors.length; i++) {
+        let result: unknown;
+        try {
+            result = run(interceptors[i]);
+        } catch (e) {
+            return fail(toError(e));
+        }
+
+        if (result instanceof Promise) {
+            const remaining = interceptors.slice(i + 1);
+            result.then(
+                (data) => (data ? next(data) : runInterceptors(remaining, run, next, fail)),
+                (e) => fail(toError(e)),
+            );
+            return;
+        }
+        if (result) return next(<IWidgetApiResponseData>result);
+    }
+    next();
+}
+
+function toError(e: unknown): Error {
+    return e instanceof Error ? e : new Error(String(e));
+}
+
+function toErrorResponseData(err: Error): IWidgetApiErrorResponseData {
+    if (err instanceof WidgetApiResponseError) {
+        return { error: { ...err.data, message: err.message } };
+    }
+    return { error: { message: err.message } };
+}
+
+/**
+ * Common request/response handling for transports. Implementations only
+ * need to deliver messages to the remote end and feed received messages
+ * into {@link BaseTransport.handleInbound}.
+ */
+export abstract class BaseTransport extends EventEmitter implements ITransport {
+    public strictOriginCheck = false;
+    public targetOrigin = "*";
+    public timeoutSeconds = 10;
+    public logger: ILogger = new SilentLogger();
+
+    private _ready = false;
+    private _widgetId: string | null;
+    private readonly outboundRequests = new Map<string, IOutboundRequest | null>();
+    private readonly stopController = new AbortController();
+    private readonly interceptors: ITransportInterceptor[] = [];
+
+    public get ready(): boolean {
+        return this._ready;
+    }
+
+    public get widgetId(): string | null {
+        return this._widgetId || null;
+    }
+
+    protected constructor(
+        protected readonly sendDirection: WidgetApiDirection,
+        initialWidgetId: string | null,
+    ) {
+        super();
+        this._widgetId = initialWidgetId;
+    }
+
+    private get nextRequestId(): string {
+        const idBase = `widgetapi-${Date.now()}`;
+        let index = 0;
+        let id = idBase;
+        while (this.outboundRequests.has(id)) {
+            id = `${idBase}-${index++}`;
+        }
+
+        // reserve the ID
+        this.outboundRequests.set(id, null);
+
+        return id;
+    }
+
+    /**
+     * Delivers a message to the remote end.
+     * @param {IWidgetApiRequest|IWidgetApiResponse} message The message to deliver.
+     * @param {Transferable[]} transfer Objects referenced by the message to transfer
+     * rather than copy.
+     */
+    protected abstract sendInternal(message: IWidgetApiRequest | IWidgetApiResponse, transfer?: Transferable[]): void;
+
+    public addInterceptor(interceptor: ITransportInterceptor): void {
+        this.interceptors.push(interceptor);
+    }
+
+    public removeInterceptor(interceptor: ITransportInterceptor): void {
+        const index = this.interceptors.indexOf(interceptor);
+        if (index >= 0) this.interceptors.splice(index, 1);
+    }
+
+    public reply<T extends IWidgetApiResponseData>(
+        request: IWidgetApiRequest,
+        responseData: T,
+        transfer?: Transferable[],
+    ): void {
+        const response = <IWidgetApiResponse>{
+            ...request,
+            response: responseData,
+        };
+        runInterceptors(
+            [...this.interceptors],
+            (i) => i.outboundResponse?.(response),
+            () => this.sendInternal(response, transfer),
+            (err) => this.sendInternal(<IWidgetApiResponse>{ ...request, response: toErrorResponseData(err) }),
+        );
+    }
+
+    public send<T extends IWidgetApiRequestData, R extends IWidgetApiResponseData>(
+        action: WidgetApiAction,
+        data: T,
+        options?: ITransportSendOptions,
+    ): Promise<R> {
+        return this.sendComplete(action, data, options).then((r) => <R>r.response);
+    }
+
+    public sendComplete<T extends IWidgetApiRequestData, R extends IWidgetApiResponse>(
+        action: WidgetApiAction,
+        data: T,
+        options?: ITransportSendOptions,
+    ): Promise<R> {
+        return this.sendRequest(action, data, options);
+    }
+
+    /**
+     * Sends a request to the remote end.
+     * @param {WidgetApiAction} action The action to send.
+     * @param {IWidgetApiRequestData} data The request data.
+     * @param {ITransportSendOptions} options Options for the request.
+     * @returns {Promise<IWidgetApiResponse>} A promise which resolves to the remote end's response.
+     */
+    protected sendRequest<T extends IWidgetApiRequestData, R extends IWidgetApiResponse>(
+        action: WidgetApiAction,
+        data: T,
+        options: ITransportSendOptions = {},
+    ): Promise<R> {
+        if (!this.ready || !this.widgetId) {
+            return Promise.reject(new Error("Not ready or unknown widget ID"));
+        }
+        const signal = options.signal;
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+        const request: IWidgetApiRequest = {
+            api: this.sendDirection,
+            widgetId: this.widgetId,
+            requestId: this.nextRequestId,
+            action: action,
+            data: data,
+        };
+        if (action === WidgetApiToWidgetAction.UpdateVisibility) {
+            request["visible"] = data["visible"];
+        }
+        return new Promise<R>((prResolve, prReject) => {
+            const resolve = (response: IWidgetApiResponse): void => {
+                cleanUp();
+                prResolve(<R>response);
+            };
+            const reject = (err: Error): void => {
+                cleanUp();
+                prReject(err);
+            };
+
+            const timeoutSeconds = options.timeoutSeconds ?? this.timeoutSeconds;
+            const timerId = setTimeout(() => reject(new Error("Request timed out")), (timeoutSeconds || 1) * 1000);
+
+            const onStop = (): void => reject(new Error("Transport stopped"));
+            this.stopController.signal.addEventListener("abort", onStop);
+
+            let sent = false;
+            const onAbort = (): void => {
+                reject(signal!.reason);
+                if (sent) this.notifyAborted(request);
+            };
+            signal?.addEventListener("abort", onAbort);
+
+            const cleanUp = (): void => {
+                this.outboundRequests.delete(request.requestId);
+                clearTimeout(timerId);
+                this.stopController.signal.removeEventListener("abort", onStop);
+                signal?.removeEventListener("abort", onAbort);
+            };
+
+            const outbound = { request, resolve, reject };
+            this.outboundRequests.set(request.requestId, outbound);
+            runInterceptors(
+                [...this.interceptors],
+                (i) => i.outboundRequest?.(request),
+                (responseData) => {
+                    if (responseData) {
+                        this.settleRequest(outbound, { ...request, response: responseData });
+                    } else {
+                        sent = true;
+                        this.sendInternal(request, options.transfer);
+                    }
+                },
+                reject,
+            );
+        });
+    }
+
+    /**
+     * Tells the remote end that a request it was sent has been abandoned. This is
+     * best effort: remote ends which don't know about it will reply with an error,
+     * which is ignored.
+     * @param {IWidgetApiRequest} request The abandoned request.
+     */
+    private notifyAborted(request: IWidgetApiRequest): void {
+        const action =
+            this.sendDirection === WidgetApiDirection.FromWidget
+                ? WidgetApiFromWidgetAction.AbortRequest
+                : WidgetApiToWidgetAction.AbortRequest;
+        this.sendRequest<IAbortRequestActionRequestData, IWidgetApiResponse>(action, {
+            request_id: request.requestId,
+        }).catch(() => {});
+    }
+
+    public start(): void {
+        this._ready = true;
+    }
+
+    public stop(): void {
+        this._ready = false;
+        this.stopController.abort();
+    }
+
+    protected get isStopped(): boolean {
+        return this.stopController.signal.aborted;
+    }
+
+    /**
+     * Handles a message which has passed any channel-specific checks, routing it
+     * to the response or request handling as appropriate.
+     * @param {unknown} message The received message.
+     */
+    protected handleInbound(message: unknown): void {
+        if (this.isStopped) return;
+
+        // treat the message as a response first, then downgrade to a request
+        const response = <IWidgetApiResponse>message;
+        if (!response?.action || !response.requestId || !response.widgetId) return; // invalid request/response
+
+        if (response.response) {
+            if (response.api !== this.sendDirection) return; // wrong direction
+            this.handleResponse(response);
+        } else {
+            const request = <IWidgetApiRequest>response;
+            if (request.api !== invertedDirection(this.sendDirection)) return; // wrong direction
+            this.handleRequest(request);
+        }
+    }
+
+    protected handleRequest(request: IWidgetApiRequest): void {
+        if (this.widgetId) {
+            if (this.widgetId !== request.widgetId) return; // wrong widget
+        } else {
+            this._widgetId = request.widgetId;
+        }
+
+        runInterceptors(
+            [...this.interceptors],
+            (i) => i.inboundRequest?.(request),
+            (responseData) => {
+                if (responseData) {
+                    this.reply(request, responseData);
+                } else {
+                    this.emit("message", new CustomEvent("message", { detail: request }));
+                }
+            },
+            (err) => this.reply(request, toErrorResponseData(err)),
+        );
+    }
+
+    private handleResponse(response: IWidgetApiResponse): void {
+        if (response.widgetId !== this.widgetId) return; // wrong widget
+
+        const req = this.outboundRequests.get(response.requestId);
+        if (!req) return; // response to an unknown request
+
+        runInterceptors(
+            [...this.interceptors],
+            (i) => i.inboundResponse?.(response),
+            () => this.settleRequest(req, response),
+            req.reject,
+        );
+    }
+
+    private settleRequest(req: IOutboundRequest, response: IWidgetApiResponse): void {
+        if (isErrorResponse(response.response)) {
+            const { message, ...data } = response.response.error;
+            req.reject(new WidgetApiResponseError(message, data));
+        } else {
+            req.resolve(response);
+        }
+    }
+}
@@ -24,6 +24,32 @@ import {
     IWidgetApiResponseData,
     WidgetApiAction,
 } from "..";
+import { ITransportInterceptor } from "./ITransportInterceptor";
+import { ILogger } from "../util/Logger";
+
+/**
+ * Options for an individual request sent over a transport.
+ */
+export interface ITransportSendOptions {
+    /**
+     * A signal to abandon the request with. When aborted, the request is
+     * rejected with the signal's reason and the remote end is told that the
+     * request was abandoned.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * The number of seconds the request is allowed to take before it times out.
+     * Defaults to the transport's timeoutSeconds.
+     */
+    timeoutSeconds?: number;
+
+    /**
+     * Objects referenced by the request data to transfer to the remote end
+     * rather than copy. They are no longer usable by the sender once sent.
+     */
+    transfer?: Transferable[];
+}
 
 /**
  * A transport for widget requests/responses. All actions
@@ -60,6 +86,11 @@ export interface ITransport extends EventEmitter {
      */
     timeoutSeconds: number;
 
+    /**
+     * The logger to write diagnostics, including message traffic, to.
+     */
+    logger: ILogger;
+
     /**
      * Starts the transport for listening
      */
@@ -74,6 +105,7 @@ export interface ITransport extends EventEmitter {
      * Sends a request to the remote end.
      * @param action The action to send.
      * @param data The request data.
+     * @param options Options for the request.
      * @returns A promise which resolves to the remote end's response.
      * @throws {Error} if the request failed with a generic error.
      * @throws {WidgetApiResponseError} if the request failed with error details
@@ -82,6 +114,7 @@ export interface ITransport extends EventEmitter {
     send<T extends IWidgetApiRequestData, R extends IWidgetApiResponseData = IWidgetApiAcknowledgeResponseData>(
         action: WidgetApiAction,
         data: T,
+        options?: ITransportSendOptions,
     ): Promise<R>;
 
     /**
@@ -90,6 +123,7 @@ export interface ITransport extends EventEmitter {
      * data.
      * @param {WidgetApiAction} action The action to send.
      * @param {IWidgetApiRequestData} data The request data.
+     * @param {ITransportSendOptions} options Options for the request.
      * @returns {Promise<IWidgetApiResponseData>} A promise which resolves to the remote end's response
      * @throws {Error} if the request failed with a generic error.
      * @throws {WidgetApiResponseError} if the request failed with error details
@@ -98,12 +132,32 @@ export interface ITransport extends EventEmitter {
     sendComplete<T extends IWidgetApiRequestData, R extends IWidgetApiResponse>(
         action: WidgetApiAction,
         data: T,
+        options?: ITransportSendOptions,
     ): Promise<R>;
 
     /**
      * Replies to a request.
      * @param {IWidgetApiRequest} request The request to reply to.
      * @param {IWidgetApiResponseData} responseData The response data to reply with.
+     * @param {Transferable[]} transfer Objects referenced by the response data to
+     * transfer to the remote end rather than copy.
+     */
+    reply<T extends IWidgetApiResponseData>(
+        request: IWidgetApiRequest,
+        responseData: T,
+        transfer?: Transferable[],
+    ): void;
+
+    /**
+     * Adds an interceptor to the end of the transport's pipeline. It will see
+     * every request and response passing through the transport from then on.
+     * @param {ITransportInterceptor} interceptor The interceptor to add.
+     */
+    addInterceptor(interceptor: ITransportInterceptor): void;
+
+    /**
+     * Removes an interceptor previously added to the transport.
+     * @param {ITransportInterceptor} interceptor The interceptor to remove.
      */
-    reply<T extends IWidgetApiResponseData>(request: IWidgetApiRequest, responseData: T): void;
+    removeInterceptor(interceptor: ITransportInterceptor): void;
 }
@@ -0,0 +1,82 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IWidgetApiRequest } from "../interfaces/IWidgetApiRequest";
+import { IWidgetApiResponse, IWidgetApiResponseData } from "../interfaces/IWidgetApiResponse";
+
+/**
+ * What a request interceptor returns. Returning nothing lets the request carry
+ * on through the pipeline. Returning response data short-circuits the request,
+ * answering it with that data instead.
+ */
+export type TransportRequestInterceptorResult =
+    | IWidgetApiResponseData
+    | void
+    | undefined
+    | Promise<IWidgetApiResponseData | void | undefined>;
+
+/**
+ * What a response interceptor returns. Responses cannot be short-circuited, so
+ * the only thing to wait for is any asynchronous work the interceptor does.
+ */
+export type TransportResponseInterceptorResult = void | Promise<void>;
+
+/**
+ * Observes and manipulates the messages passing through a transport. All hooks
+ * are optional, and are called in the order the interceptors were added to the
+ * transport.
+ *
+ * Hooks may mutate the message they are given, which is what the rest of the
+ * pipeline will then see. A hook which throws (or returns a rejected promise)
+ * rejects the message:
+ * - a rejected outbound request fails the send with the thrown error;
+ * - a rejected inbound request is answered with an error response;
+ * - a rejected reply is replaced by an error response;
+ * - a rejected inbound response fails the request it responds to.
+ *
+ * Error responses (see {@link isErrorResponse}) pass through the same hooks as
+ * any other response.
+ */
+export interface ITransportInterceptor {
+    /**
+     * Called before a request is sent to the remote end.
+     * @param {IWidgetApiRequest} request The request about to be sent.
+     * @returns {TransportRequestInterceptorResult} Response data to resolve the
+     * request with locally, without sending it, or nothing to send it.
+     */
+    outboundRequest?(request: IWidgetApiRequest): TransportRequestInterceptorResult;
+
+    /**
+     * Called before a request from the remote end is raised by the transport.
+     * @param {IWidgetApiRequest} request The request received.
+     * @returns {TransportRequestInterceptorResult} Response data to reply with,
+     * without raising the request, or nothing to raise it.
+     */
+    inboundRequest?(request: IWidgetApiRequest): TransportRequestInterceptorResult;
+
+    /**
+     * Called before a reply is sent to the remote end.
+     * @param {IWidgetApiResponse} response The reply about to be sent.
+     */
+    outboundResponse?(response: IWidgetApiResponse): TransportResponseInterceptorResult;
+
+    /**
+     * Called before a response from the remote end is handed to the pending
+     * request it responds to.
+     * @param {IWidgetApiResponse} response The response received.
+     */
+    inboundResponse?(response: IWidgetApiResponse): TransportResponseInterceptorResult;
+}
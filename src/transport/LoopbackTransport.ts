@@ -0,0 +1,97 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BaseTransport } from "./BaseTransport";
+import { ITransport } from "./ITransport";
+import { IWidgetApiRequest } from "../interfaces/IWidgetApiRequest";
+import { IWidgetApiResponse } from "../interfaces/IWidgetApiResponse";
+import { WidgetApiDirection } from "../interfaces/WidgetApiDirection";
+
+/**
+ * In-memory transport which delivers messages straight to a peer transport,
+ * without any windows being involved. Created in connected pairs through
+ * {@link createLoopbackTransports}.
+ *
+ * Messages are delivered asynchronously, and are structured-cloned where the
+ * environment supports it. Messages sent before the peer has been started are
+ * queued until it is.
+ */
+export class LoopbackTransport extends BaseTransport {
+    private peer: LoopbackTransport | null = null;
+    private readonly pendingMessages: unknown[] = [];
+
+    public constructor(sendDirection: WidgetApiDirection, widgetId: string) {
+        super(sendDirection, widgetId);
+    }
+
+    /**
+     * Connects two transports to each other.
+     * @param {LoopbackTransport} a One end of the loop.
+     * @param {LoopbackTransport} b The other end of the loop.
+     */
+    public static connect(a: LoopbackTransport, b: LoopbackTransport): void {
+        a.peer = b;
+        b.peer = a;
+    }
+
+    public start(): void {
+        super.start();
+        for (const message of this.pendingMessages.splice(0)) this.handleInbound(message);
+    }
+
+    protected sendInternal(message: IWidgetApiRequest | IWidgetApiResponse, transfer: Transferable[] = []): void {
+        const peer = this.peer;
+        if (!peer) throw new Error("Loopback transport is not connected");
+
+        const copy = typeof structuredClone === "function" ? structuredClone(message, { transfer }) : message;
+        Promise.resolve().then(() => peer.receive(copy));
+    }
+
+    private receive(message: unknown): void {
+        if (this.ready) {
+            this.handleInbound(message);
+        } else if (!this.isStopped) {
+            this.pendingMessages.push(message);
+        }
+    }
+}
+
+export interface ILoopbackTransports {
+    /**
+     * The transport to give to the {@link ClientWidgetApi}.
+     */
+    clientTransport: ITransport;
+
+    /**
+     * The transport to give to the {@link WidgetApi}.
+     */
+    widgetTransport: ITransport;
+}
+
+/**
+ * Creates a pair of connected in-memory transports, allowing a
+ * {@link ClientWidgetApi} and a {@link WidgetApi} to talk to each other
+ * directly. Useful for running widgets and clients together in tests or
+ * other environments without any iframes.
+ * @param {string} widgetId The ID of the widget talking over the transports.
+ * @returns {ILoopbackTransports} The connected transports.
+ */
+export function createLoopbackTransports(widgetId: string): ILoopbackTransports {
+    const clientTransport = new LoopbackTransport(WidgetApiDirection.ToWidget, widgetId);
+    const widgetTransport = new LoopbackTransport(WidgetApiDirection.FromWidget, widgetId);
+    LoopbackTransport.connect(clientTransport, widgetTransport);
+    return { clientTransport, widgetTransport };
+}
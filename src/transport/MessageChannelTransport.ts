@@ -0,0 +1,150 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MessageRejectionReason, PostmessageTransport } from "./PostmessageTransport";
+import {
+    IMessageChannelHandshakeActionRequest,
+    IMessageChannelHandshakeActionRequestData,
+} from "../interfaces/MessageChannelAction";
+import { IWidgetApiErrorResponseData } from "../interfaces/IWidgetApiErrorResponse";
+import { IWidgetApiRequest } from "../interfaces/IWidgetApiRequest";
+import { IWidgetApiResponse } from "../interfaces/IWidgetApiResponse";
+import { WidgetApiFromWidgetAction } from "../interfaces/WidgetApiAction";
+
+/**
+ * Transport for the Widget API over a dedicated MessageChannel. The transport
+ * starts out talking over postMessage, exactly like {@link PostmessageTransport},
+ * and moves onto a private MessagePort pair once one side calls
+ * {@link MessageChannelTransport.establishChannel} and the other side accepts.
+ * From then on, other frames on the page can neither see nor spoof the traffic.
+ *
+ * Both sides must use this transport for the channel to be established. The side
+ * initiating the handshake should only do so once the remote end has advertised
+ * {@link UnstableApiVersion.MessageChannel} support. Handshakes are only accepted
+ * from the transport window and, once {@link targetOrigin} is set, its origin.
+ */
+export class MessageChannelTransport extends PostmessageTransport {
+    private port: MessagePort | null = null;
+    private established = false;
+
+    /**
+     * True if the transport has moved its traffic onto the MessageChannel.
+     */
+    public get channelEstablished(): boolean {
+        return this.established;
+    }
+
+    /**
+     * Creates a MessageChannel and hands one end of it to the remote end. Traffic
+     * sent after calling this will go through the channel. If the remote end
+     * refuses the channel, the transport falls back to postMessage.
+     * @returns {Promise<void>} Resolves when the remote end has accepted the channel.
+     * @throws Throws if the remote end refused the channel or did not respond.
+     */
+    public async establishChannel(): Promise<void> {
+        if (this.port) throw new Error("Message channel already established");
+
+        const channel = new MessageChannel();
+        // The handshake itself still goes through the window, while anything sent
+        // after this point uses the port.
+        const ack = this.sendRequest<IMessageChannelHandshakeActionRequestData, IWidgetApiResponse>(
+            WidgetApiFromWidgetAction.MessageChannelHandshake,
+            { port: channel.port2 },
+            { transfer: [channel.port2] },
+        );
+        this.attachPort(channel.port1);
+
+        try {
+            await ack;
+            this.established = true;
+        } catch (e) {
+            this.detachPort();
+            throw e;
+        }
+    }
+
+    public stop(): void {
+        super.stop();
+        this.detachPort();
+    }
+
+    protected sendInternal(message: IWidgetApiRequest | IWidgetApiResponse, transfer: Transferable[] = []): void {
+        if (this.port && !this.isHandshake(message)) {
+            this.logger.debug("[MessageChannelTransport] Sending message over message channel", { message });
+            this.port.postMessage(message, transfer);
+        } else {
+            super.sendInternal(message, transfer);
+        }
+    }
+
+    protected handleMessage(ev: MessageEvent): void {
+        if (this.isStopped) return;
+        if (this.isHandshake(ev.data)) {
+            // The widget ID is public, so only the transport window itself may
+            // hand over a channel, whatever the source checks are set to.
+            if (ev.source !== this.transportWindow) {
+                return this.rejectMessage(ev, MessageRejectionReason.UnexpectedSource);
+            }
+            if (this.targetOrigin !== "*" && ev.origin !== this.targetOrigin) {
+                return this.rejectMessage(ev, MessageRejectionReason.DisallowedOrigin);
+            }
+        } else if (this.established) {
+            // Once the channel is up, the window is only listened to for a new
+            // handshake, which happens when the widget reloads.
+            return;
+        }
+        super.handleMessage(ev);
+    }
+
+    protected handleRequest(request: IWidgetApiRequest): void {
+        if (!this.isHandshake(request)) return super.handleRequest(request);
+        if (this.widgetId !== request.widgetId) return; // wrong (or not yet known) widget
+
+        const port = (<IMessageChannelHandshakeActionRequest>request).data?.port;
+        // Never echo the port back: it has been transferred to us.
+        const reply = { ...request, data: {} };
+        if (typeof port?.postMessage !== "function") {
+            return this.reply<IWidgetApiErrorResponseData>(reply, {
+                error: { message: "Invalid request - missing message port" },
+            });
+        }
+
+        this.detachPort();
+        this.attachPort(port);
+        this.established = true;
+        this.reply(reply, {});
+    }
+
+    private isHandshake(message: unknown): boolean {
+        const request = <IWidgetApiResponse>message;
+        return request?.action === WidgetApiFromWidgetAction.MessageChannelHandshake && !request.response;
+    }
+
+    private attachPort(port: MessagePort): void {
+        port.addEventListener("message", (ev: MessageEvent) => {
+            if (this.isStopped || port !== this.port) return;
+            this.handleInbound(ev.data);
+        });
+        port.start();
+        this.port = port;
+    }
+
+    private detachPort(): void {
+        this.port?.close();
+        this.port = null;
+        this.established = false;
+    }
+}
@@ -14,188 +14,125 @@
  * limitations under the License.
  */
 
-import { EventEmitter } from "events";
-
-import { ITransport } from "./ITransport";
-import {
-    invertedDirection,
-    isErrorResponse,
-    IWidgetApiRequest,
-    IWidgetApiRequestData,
-    IWidgetApiResponse,
-    IWidgetApiResponseData,
-    WidgetApiResponseError,
-    WidgetApiAction,
-    WidgetApiDirection,
-    WidgetApiToWidgetAction,
-} from "..";
-
-interface IOutboundRequest {
-    request: IWidgetApiRequest;
-    resolve: (response: IWidgetApiResponse) => void;
-    reject: (err: Error) => void;
+import { BaseTransport } from "./BaseTransport";
+import { IWidgetApiRequest } from "../interfaces/IWidgetApiRequest";
+import { IWidgetApiResponse } from "../interfaces/IWidgetApiResponse";
+import { WidgetApiDirection } from "../interfaces/WidgetApiDirection";
+import { IWindowMessageRoute, WindowMessageRouter } from "./WindowMessageRouter";
+
+export enum MessageRejectionReason {
+    /**
+     * The message did not come from the window the transport is talking to.
+     */
+    UnexpectedSource = "unexpected_source",
+
+    /**
+     * The message came from an origin the transport does not accept messages from.
+     */
+    DisallowedOrigin = "disallowed_origin",
 }
 
 /**
- * Transport for the Widget API over postMessage.
+ * Details of a message refused by a {@link PostmessageTransport}, raised as the
+ * detail of its "messageRejected" CustomEvent.
  */
-export class PostmessageTransport extends EventEmitter implements ITransport {
-    public strictOriginCheck = false;
-    public targetOrigin = "*";
-    public timeoutSeconds = 10;
-
-    private _ready = false;
-    private _widgetId: string | null;
-    private readonly outboundRequests = new Map<string, IOutboundRequest | null>();
-    private readonly stopController = new AbortController();
-
-    public get ready(): boolean {
-        return this._ready;
-    }
-
-    public get widgetId(): string | null {
-        return this._widgetId || null;
-    }
+export interface IRejectedMessage {
+    reason: MessageRejectionReason;
+    origin: string;
+    source: MessageEventSource | null;
+    data: unknown;
+}
 
+/**
+ * Transport for the Widget API over postMessage. Inbound messages are received
+ * through a {@link WindowMessageRouter}, which only hands over messages coming
+ * from the transport window.
+ *
+ * Messages refused by the transport's source and origin checks are raised
+ * through a "messageRejected" CustomEvent with an {@link IRejectedMessage} as
+ * its detail.
+ */
+export class PostmessageTransport extends BaseTransport {
+    /**
+     * The origins to accept messages from, or null to accept messages from any
+     * origin.
+     */
+    public allowedOrigins: string[] | null = null;
+
+    /**
+     * If true, only messages which come from the transport window itself are
+     * accepted. Messages without a source window are refused.
+     */
+    public strictSourceCheck = false;
+
+    private readonly route: IWindowMessageRoute;
+
+    /**
+     * Creates a new postMessage transport.
+     * @param {WidgetApiDirection} sendDirection The direction of requests sent by the transport.
+     * @param {string|null} initialWidgetId The widget ID, or null if not yet known.
+     * @param {Window|typeof globalThis} transportWindow The window to talk to.
+     * @param {Window|typeof globalThis} inboundWindow The window messages are received on.
+     * @param {WindowMessageRouter} router The router to receive messages through. Defaults
+     * to the router shared by everything receiving messages on the inbound window.
+     */
     public constructor(
-        private readonly sendDirection: WidgetApiDirection,
+        sendDirection: WidgetApiDirection,
         initialWidgetId: string | null,
-        private readonly transportWindow: Window | typeof globalThis,
-        private readonly inboundWindow: Window | typeof globalThis,
+        protected readonly transportWindow: Window | typeof globalThis,
+        inboundWindow: Window | typeof globalThis,
+        private readonly router = WindowMessageRouter.forWindow(inboundWindow),
     ) {
-        super();
-        this._widgetId = initialWidgetId;
-    }
-
-    private get nextRequestId(): string {
-        const idBase = `widgetapi-${Date.now()}`;
-        let index = 0;
-        let id = idBase;
-        while (this.outboundRequests.has(id)) {
-            id = `${idBase}-${index++}`;
-        }
-
-        // reserve the ID
-        this.outboundRequests.set(id, null);
-
-        return id;
-    }
-
-    private sendInternal(message: IWidgetApiRequest | IWidgetApiResponse): void {
-        console.log(`[PostmessageTransport] Sending object to ${this.targetOrigin}: `, message);
-        this.transportWindow.postMessage(message, this.targetOrigin);
-    }
-
-    public reply<T extends IWidgetApiResponseData>(request: IWidgetApiRequest, responseData: T): void {
-        return this.sendInternal(<IWidgetApiResponse>{
-            ...request,
-            response: responseData,
-        });
-    }
-
-    public send<T extends IWidgetApiRequestData, R extends IWidgetApiResponseData>(
-        action: WidgetApiAction,
-        data: T,
-    ): Promise<R> {
-        return this.sendComplete(action, data).then((r) => <R>r.response);
-    }
-
-    public sendComplete<T extends IWidgetApiRequestData, R extends IWidgetApiResponse>(
-        action: WidgetApiAction,
-        data: T,
-    ): Promise<R> {
-        if (!this.ready || !this.widgetId) {
-            return Promise.reject(new Error("Not ready or unknown widget ID"));
-        }
-        const request: IWidgetApiRequest = {
-            api: this.sendDirection,
-            widgetId: this.widgetId,
-            requestId: this.nextRequestId,
-            action: action,
-            data: data,
+        super(sendDirection, initialWidgetId);
+        this.route = {
+            source: transportWindow,
+            widgetId: (): string | null => this.widgetId,
+            onMessage: (ev): void => this.handleMessage(ev),
+            onMisdirectedMessage: (ev): void => {
+                if (!this.isStopped) this.rejectMessage(ev, MessageRejectionReason.UnexpectedSource);
+            },
         };
-        if (action === WidgetApiToWidgetAction.UpdateVisibility) {
-            request["visible"] = data["visible"];
-        }
-        return new Promise<R>((prResolve, prReject) => {
-            const resolve = (response: IWidgetApiResponse): void => {
-                cleanUp();
-                prResolve(<R>response);
-            };
-            const reject = (err: Error): void => {
-                cleanUp();
-                prReject(err);
-            };
-
-            const timerId = setTimeout(() => reject(new Error("Request timed out")), (this.timeoutSeconds || 1) * 1000);
-
-            const onStop = (): void => reject(new Error("Transport stopped"));
-            this.stopController.signal.addEventListener("abort", onStop);
-
-            const cleanUp = (): void => {
-                this.outboundRequests.delete(request.requestId);
-                clearTimeout(timerId);
-                this.stopController.signal.removeEventListener("abort", onStop);
-            };
+    }
 
-            this.outboundRequests.set(request.requestId, { request, resolve, reject });
-            this.sendInternal(request);
-        });
+    protected sendInternal(message: IWidgetApiRequest | IWidgetApiResponse, transfer: Transferable[] = []): void {
+        this.logger.debug("[PostmessageTransport] Sending message", { targetOrigin: this.targetOrigin, message });
+        this.transportWindow.postMessage(message, this.targetOrigin, transfer);
     }
 
     public start(): void {
-        this.inboundWindow.addEventListener("message", (ev: MessageEvent) => {
-            this.handleMessage(ev);
-        });
-        this._ready = true;
+        this.router.register(this.route);
+        super.start();
     }
 
     public stop(): void {
-        this._ready = false;
-        this.stopController.abort();
+        super.stop();
+        this.router.unregister(this.route);
     }
 
-    private handleMessage(ev: MessageEvent): void {
-        if (this.stopController.signal.aborted) return;
+    protected handleMessage(ev: MessageEvent): void {
+        if (this.isStopped) return;
         if (!ev.data) return; // invalid event
 
-        if (this.strictOriginCheck && ev.origin !== globalThis.origin) return; // bad origin
-
-        // treat the message as a response first, then downgrade to a request
-        const response = <IWidgetApiResponse>ev.data;
-        if (!response.action || !response.requestId || !response.widgetId) return; // invalid request/response
-
-        if (response.response) {
-            if (response.api !== this.sendDirection) return; // wrong direction
-            this.handleResponse(response);
-        } else {
-            const request = <IWidgetApiRequest>response;
-            if (request.api !== invertedDirection(this.sendDirection)) return; // wrong direction
-            this.handleRequest(request);
+        if (this.strictSourceCheck && ev.source !== this.transportWindow) {
+            return this.rejectMessage(ev, MessageRejectionReason.UnexpectedSource);
         }
-    }
-
-    private handleRequest(request: IWidgetApiRequest): void {
-        if (this.widgetId) {
-            if (this.widgetId !== request.widgetId) return; // wrong widget
-        } else {
-            this._widgetId = request.widgetId;
+        if (
+            (this.strictOriginCheck && ev.origin !== globalThis.origin) ||
+            (this.allowedOrigins && !this.allowedOrigins.includes(ev.origin))
+        ) {
+            return this.rejectMessage(ev, MessageRejectionReason.DisallowedOrigin);
         }
 
-        this.emit("message", new CustomEvent("message", { detail: request }));
+        this.handleInbound(ev.data);
     }
 
-    private handleResponse(response: IWidgetApiResponse): void {
-        if (response.widgetId !== this.widgetId) return; // wrong widget
-
-        const req = this.outboundRequests.get(response.requestId);
-        if (!req) return; // response to an unknown request
-
-        if (isErrorResponse(response.response)) {
-            const { message, ...data } = response.response.error;
-            req.reject(new WidgetApiResponseError(message, data));
-        } else {
-            req.resolve(response);
-        }
+    protected rejectMessage(ev: MessageEvent, reason: MessageRejectionReason): void {
+        this.logger.warn("[PostmessageTransport] Rejected message", { reason, origin: ev.origin, data: ev.data });
+        this.emit(
+            "messageRejected",
+            new CustomEvent<IRejectedMessage>("messageRejected", {
+                detail: { reason, origin: ev.origin, source: ev.source, data: ev.data },
+            }),
+        );
     }
 }
@@ -0,0 +1,149 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IWidgetApiRequest } from "../interfaces/IWidgetApiRequest";
+
+type MessageWindow = Window | typeof globalThis;
+
+/**
+ * A destination for messages received by a {@link WindowMessageRouter}.
+ */
+export interface IWindowMessageRoute {
+    /**
+     * The window messages for this route come from: the window on the other
+     * end of the conversation.
+     */
+    readonly source: MessageWindow;
+
+    /**
+     * Gets the widget ID messages for this route are about.
+     * @returns {string|null} The widget ID, or null to accept messages about any widget.
+     */
+    widgetId(): string | null;
+
+    /**
+     * Called with each message routed to this route.
+     * @param {MessageEvent} ev The message.
+     */
+    onMessage(ev: MessageEvent): void;
+
+    /**
+     * Called with messages which claim to be about this route's widget, but
+     * came from a window other than the route's source.
+     * @param {MessageEvent} ev The message.
+     */
+    onMisdirectedMessage?(ev: MessageEvent): void;
+}
+
+/**
+ * Listens for messages on a window on behalf of any number of transports,
+ * handing each message only to the routes registered for the window it came
+ * from and the widget it is about. This keeps a page hosting many widgets down
+ * to a single listener, which is removed once the last route is unregistered.
+ *
+ * Messages without a source window (which browsers don't produce, but other
+ * environments might) are routed by widget ID alone.
+ */
+export class WindowMessageRouter {
+    private static readonly sharedRouters = new WeakMap<MessageWindow, WindowMessageRouter>();
+
+    private readonly routes = new Map<MessageEventSource | MessageWindow, Set<IWindowMessageRoute>>();
+    private readonly listener = (ev: MessageEvent): void => this.onMessage(ev);
+
+    /**
+     * Gets the router shared by all transports receiving messages on a window.
+     * @param {Window|typeof globalThis} window The window to receive messages on.
+     * @returns {WindowMessageRouter} The router for the window.
+     */
+    public static forWindow(window: MessageWindow): WindowMessageRouter {
+        let router = WindowMessageRouter.sharedRouters.get(window);
+        if (!router) {
+            router = new WindowMessageRouter(window);
+            WindowMessageRouter.sharedRouters.set(window, router);
+        }
+        return router;
+    }
+
+    /**
+     * Creates a new router. Most callers will want the shared router from
+     * {@link WindowMessageRouter.forWindow} instead.
+     * @param {Window|typeof globalThis} window The window to receive messages on.
+     */
+    public constructor(private readonly window: MessageWindow) {}
+
+    /**
+     * The number of routes currently registered.
+     */
+    public get size(): number {
+        let size = 0;
+        for (const routes of this.routes.values()) size += routes.size;
+        return size;
+    }
+
+    /**
+     * Starts routing messages to the given route.
+     * @param {IWindowMessageRoute} route The route to register.
+     */
+    public register(route: IWindowMessageRoute): void {
+        if (this.size === 0) this.window.addEventListener("message", this.listener);
+
+        let routes = this.routes.get(route.source);
+        if (!routes) {
+            routes = new Set();
+            this.routes.set(route.source, routes);
+        }
+        routes.add(route);
+    }
+
+    /**
+     * Stops routing messages to the given route. Does nothing if the route isn't
+     * registered.
+     * @param {IWindowMessageRoute} route The route to unregister.
+     */
+    public unregister(route: IWindowMessageRoute): void {
+        const routes = this.routes.get(route.source);
+        if (!routes?.delete(route)) return;
+
+        if (routes.size === 0) this.routes.delete(route.source);
+        if (this.size === 0) this.window.removeEventListener("message", this.listener);
+    }
+
+    private get allRoutes(): IWindowMessageRoute[] {
+        return [...this.routes.values()].flatMap((r) => [...r]);
+    }
+
+    private onMessage(ev: MessageEvent): void {
+        // copy the routes, as handling the message may (un)register some
+        const candidates = ev.source ? [...(this.routes.get(ev.source) ?? [])] : this.allRoutes;
+
+        const widgetId = (<IWidgetApiRequest | null>ev.data)?.widgetId;
+        let routed = false;
+        for (const route of candidates) {
+            const routeWidgetId = route.widgetId();
+            if (routeWidgetId && routeWidgetId !== widgetId) continue; // wrong widget
+            route.onMessage(ev);
+            routed = true;
+        }
+
+        if (!routed && widgetId) {
+            // Nothing is talking to that window about that widget: let whoever
+            // is talking to the widget know that something is impersonating it.
+            for (const route of this.allRoutes) {
+                if (route.widgetId() === widgetId) route.onMisdirectedMessage?.(ev);
+            }
+        }
+    }
+}
@@ -0,0 +1,92 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BaseTransport } from "./BaseTransport";
+import { IWidgetApiRequest } from "../interfaces/IWidgetApiRequest";
+import { IWidgetApiResponse } from "../interfaces/IWidgetApiResponse";
+import { WidgetApiDirection } from "../interfaces/WidgetApiDirection";
+
+/**
+ * One end of a connection to or from a worker. This is satisfied by Web
+ * Workers and their global scope, by MessagePorts, and by worker_threads
+ * Workers and their parent port.
+ */
+export interface IWorkerEndpoint {
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+
+    // Web Workers and MessagePorts dispatch MessageEvents
+    addEventListener?(type: "message", listener: (ev: MessageEvent) => void): void;
+    removeEventListener?(type: "message", listener: (ev: MessageEvent) => void): void;
+
+    // worker_threads Workers emit the messages themselves
+    on?(event: "message", listener: (message: unknown) => void): unknown;
+    off?(event: "message", listener: (message: unknown) => void): unknown;
+
+    // MessagePorts only deliver messages once started
+    start?(): void;
+}
+
+/**
+ * Transport for the Widget API between a worker and the code which started
+ * it, allowing widgets to run without a window. The host side gives the
+ * transport the worker, and the widget side its own global scope (or
+ * `parentPort` under worker_threads).
+ *
+ * Unlike windows, workers can only talk to the code which started them, so
+ * messages are not checked for their origin.
+ */
+export class WorkerTransport extends BaseTransport {
+    private readonly onMessageEvent = (ev: MessageEvent): void => this.handleInbound(ev.data);
+    private readonly onMessage = (message: unknown): void => this.handleInbound(message);
+
+    /**
+     * Creates a transport over a worker connection.
+     * @param {WidgetApiDirection} sendDirection The direction of requests this transport sends.
+     * @param {string|null} widgetId The ID of the widget, or null to learn it from
+     * the first request received.
+     * @param {IWorkerEndpoint} endpoint This side's end of the connection.
+     */
+    public constructor(
+        sendDirection: WidgetApiDirection,
+        widgetId: string | null,
+        private readonly endpoint: IWorkerEndpoint,
+    ) {
+        super(sendDirection, widgetId);
+    }
+
+    public start(): void {
+        if (this.endpoint.addEventListener) {
+            this.endpoint.addEventListener("message", this.onMessageEvent);
+            this.endpoint.start?.();
+        } else if (this.endpoint.on) {
+            this.endpoint.on("message", this.onMessage);
+        } else {
+            throw new Error("Worker endpoint can't receive messages");
+        }
+        super.start();
+    }
+
+    public stop(): void {
+        super.stop();
+        this.endpoint.removeEventListener?.("message", this.onMessageEvent);
+        this.endpoint.off?.("message", this.onMessage);
+    }
+
+    protected sendInternal(message: IWidgetApiRequest | IWidgetApiResponse, transfer: Transferable[] = []): void {
+        this.logger.debug("[WorkerTransport] Sending message", { message });
+        this.endpoint.postMessage(message, transfer);
+    }
+}
@@ -0,0 +1,147 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export enum LogLevel {
+    Debug,
+    Info,
+    Warn,
+    Error,
+    Silent,
+}
+
+/**
+ * Structured data to attach to a log line.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A logger used by the API classes and transports.
+ */
+export interface ILogger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * The fields which are redacted by default: credentials handed out by the client,
+ * and the contents of events which may be end-to-end encrypted.
+ */
+export const DEFAULT_REDACTED_FIELDS: readonly string[] = ["access_token", "password", "content"];
+
+const REDACTED = "<redacted>";
+
+/**
+ * Copies a value, replacing any fields with the given names (at any depth) with
+ * a placeholder. Only plain objects and arrays are descended into.
+ * @param {unknown} value The value to redact.
+ * @param {string[]} fields The names of the fields to redact.
+ * @returns {unknown} The redacted copy of the value.
+ */
+export function redact(value: unknown, fields: readonly string[] = DEFAULT_REDACTED_FIELDS): unknown {
+    const seen = new WeakSet<object>();
+    const walk = (val: unknown): unknown => {
+        if (Array.isArray(val)) {
+            if (seen.has(val)) return "[Circular]";
+            seen.add(val);
+            return val.map(walk);
+        }
+        if (val !== null && typeof val === "object" && Object.getPrototypeOf(val) === Object.prototype) {
+            if (seen.has(val)) return "[Circular]";
+            seen.add(val);
+            return Object.fromEntries(
+                Object.entries(val).map(([k, v]) => [k, fields.includes(k) ? REDACTED : walk(v)]),
+            );
+        }
+        return val;
+    };
+    return walk(value);
+}
+
+/**
+ * Logs to the console, dropping anything below the configured level.
+ */
+export class ConsoleLogger implements ILogger {
+    /**
+     * Creates a new console logger.
+     * @param {LogLevel} level The minimum level to log. Defaults to warnings, so
+     * that message traffic is not logged unless asked for.
+     */
+    public constructor(public level = LogLevel.Warn) {}
+
+    public debug(message: string, fields?: LogFields): void {
+        if (this.level <= LogLevel.Debug) console.debug(message, ...(fields ? [fields] : []));
+    }
+
+    public info(message: string, fields?: LogFields): void {
+        if (this.level <= LogLevel.Info) console.info(message, ...(fields ? [fields] : []));
+    }
+
+    public warn(message: string, fields?: LogFields): void {
+        if (this.level <= LogLevel.Warn) console.warn(message, ...(fields ? [fields] : []));
+    }
+
+    public error(message: string, fields?: LogFields): void {
+        if (this.level <= LogLevel.Error) console.error(message, ...(fields ? [fields] : []));
+    }
+}
+
+/**
+ * Drops everything logged to it. Used when no logger is given, so that the
+ * library stays off the console unless the host asks otherwise.
+ */
+export class SilentLogger implements ILogger {
+    public debug(): void {}
+    public info(): void {}
+    public warn(): void {}
+    public error(): void {}
+}
+
+/**
+ * Wraps another logger, redacting sensitive fields before they reach it.
+ */
+export class RedactingLogger implements ILogger {
+    /**
+     * Creates a new redacting logger.
+     * @param {ILogger} logger The logger to pass redacted log lines on to.
+     * @param {string[]} fields The names of the fields to redact.
+     */
+    public constructor(
+        private readonly logger: ILogger,
+        private readonly fields: readonly string[] = DEFAULT_REDACTED_FIELDS,
+    ) {}
+
+    public debug(message: string, fields?: LogFields): void {
+        this.logger.debug(message, this.redact(fields));
+    }
+
+    public info(message: string, fields?: LogFields): void {
+        this.logger.info(message, this.redact(fields));
+    }
+
+    public warn(message: string, fields?: LogFields): void {
+        this.logger.warn(message, this.redact(fields));
+    }
+
+    public error(message: string, fields?: LogFields): void {
+        this.logger.error(message, this.redact(fields));
+    }
+
+    private redact(fields?: LogFields): LogFields | undefined {
+        return fields && <LogFields>redact(fields, this.fields);
+    }
+}
@@ -0,0 +1,47 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Gets the objects to transfer when sending a binary payload. Views onto part
+ * of a larger buffer are copied rather than giving away the whole buffer.
+ * @param {unknown} body The payload.
+ * @returns {Transferable[]} The objects to transfer, if any.
+ */
+export function getTransferables(body: unknown): Transferable[] {
+    if (body instanceof ArrayBuffer) return [body];
+    if (ArrayBuffer.isView(body)) {
+        const { buffer, byteOffset, byteLength } = body;
+        return buffer instanceof ArrayBuffer && byteOffset === 0 && byteLength === buffer.byteLength ? [buffer] : [];
+    }
+    if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) return [body];
+    return [];
+}
+
+/**
+ * Copies a binary payload owned by someone else, such as the driver, so that
+ * transferring it doesn't detach their buffer. Other payloads are returned as
+ * they are.
+ * @param {T} body The payload.
+ * @returns {T} The copy, or the payload itself.
+ */
+export function copyBinary<T>(body: T): T {
+    if (body instanceof ArrayBuffer) return <T>body.slice(0);
+    if (ArrayBuffer.isView(body)) {
+        const copy = body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength);
+        return <T>new (<new (buffer: ArrayBufferLike) => ArrayBufferView>body.constructor)(copy);
+    }
+    return body;
+}
@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    createLoopbackTransports,
+    isErrorResponse,
+    ITransport,
+    IWidgetApiRequest,
+    IWidgetApiResponse,
+    WidgetApiFromWidgetAction,
+    WidgetApiResponseError,
+} from "../src";
+
+describe("BaseTransport", () => {
+    let clientTransport: ITransport;
+    let widgetTransport: ITransport;
+    let onClientMessage: jest.Mock;
+
+    beforeEach(() => {
+        ({ clientTransport, widgetTransport } = createLoopbackTransports("test"));
+        onClientMessage = jest.fn((ev: CustomEvent<IWidgetApiRequest>) => {
+            clientTransport.reply(ev.detail, { echo: ev.detail.data });
+        });
+        clientTransport.on("message", onClientMessage);
+        clientTransport.start();
+        widgetTransport.start();
+    });
+
+    afterEach(() => {
+        clientTransport.stop();
+        widgetTransport.stop();
+    });
+
+    describe("cancellation", () => {
+        beforeEach(() => {
+            clientTransport.removeAllListeners("message");
+            onClientMessage = jest.fn((ev: CustomEvent<IWidgetApiRequest>) => {
+                // leave pings hanging, but acknowledge everything else
+                if (ev.detail.action !== "com.example.ping") clientTransport.reply(ev.detail, {});
+            });
+            clientTransport.on("message", onClientMessage);
+        });
+
+        it("should reject with the abort reason and tell the remote end", async () => {
+            const controller = new AbortController();
+            const result = widgetTransport.send("com.example.ping", {}, { signal: controller.signal });
+            await new Promise((resolve) => setTimeout(resolve));
+            controller.abort(new Error("User navigated away"));
+
+            await expect(result).rejects.toThrow("User navigated away");
+            await new Promise((resolve) => setTimeout(resolve));
+            const [[ping], [abort]] = onClientMessage.mock.calls;
+            expect(abort.detail).toMatchObject({
+                action: WidgetApiFromWidgetAction.AbortRequest,
+                data: { request_id: ping.detail.requestId },
+            });
+        });
+
+        it("should not send requests which are already aborted", async () => {
+            await expect(
+                widgetTransport.send("com.example.ping", {}, { signal: AbortSignal.abort(new Error("Too late")) }),
+            ).rejects.toThrow("Too late");
+            await new Promise((resolve) => setTimeout(resolve));
+            expect(onClientMessage).not.toHaveBeenCalled();
+        });
+
+        it("should time out requests using the per-request timeout", async () => {
+            jest.useFakeTimers();
+            try {
+                const result = widgetTransport.send("com.example.ping", {}, { timeoutSeconds: 1 });
+                jest.advanceTimersByTime(1000);
+                await expect(result).rejects.toThrow("Request timed out");
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe("interceptors", () => {
+        it("should see every message in order", async () => {
+            const seen: string[] = [];
+            const record =
+                (name: string) =>
+                (message: IWidgetApiRequest | IWidgetApiResponse): void => {
+                    seen.push(`${name}:${message.action}`);
+                };
+            widgetTransport.addInterceptor({
+                outboundRequest: record("widget-out"),
+                inboundResponse: record("widget-in"),
+            });
+            clientTransport.addInterceptor({
+                inboundRequest: record("client-in"),
+                outboundResponse: record("client-out"),
+            });
+
+            await widgetTransport.send("com.example.ping", {});
+
+            expect(seen).toEqual([
+                "widget-out:com.example.ping",
+                "client-in:com.example.ping",
+                "client-out:com.example.ping",
+                "widget-in:com.example.ping",
+            ]);
+        });
+
+        it("should let interceptors mutate messages", async () => {
+            clientTransport.addInterceptor({
+                inboundRequest: async (request) => {
+                    request.data = { ...request.data, password: "<redacted>" };
+                },
+            });
+            widgetTransport.addInterceptor({
+                inboundResponse: (response) => {
+                    response.response = { ...response.response, audited: true };
+                },
+            });
+
+            await expect(widgetTransport.send("com.example.login", { password: "hunter2" })).resolves.toEqual({
+                echo: { password: "<redacted>" },
+                audited: true,
+            });
+        });
+
+        it("should short-circuit outbound requests", async () => {
+            const later = jest.fn();
+            widgetTransport.addInterceptor({ outboundRequest: () => Promise.resolve({ cached: true }) });
+            widgetTransport.addInterceptor({ outboundRequest: later });
+
+            await expect(widgetTransport.send("com.example.ping", {})).resolves.toEqual({ cached: true });
+            expect(later).not.toHaveBeenCalled();
+            expect(onClientMessage).not.toHaveBeenCalled();
+        });
+
+        it("should short-circuit inbound requests with a synthetic reply", async () => {
+            clientTransport.addInterceptor({
+                inboundRequest: (request) =>
+                    request.action === "com.example.gated" ? { error: { message: "Feature disabled" } } : undefined,
+            });
+
+            await expect(widgetTransport.send("com.example.gated", {})).rejects.toThrow("Feature disabled");
+            await expect(widgetTransport.send("com.example.ping", {})).resolves.toEqual({ echo: {} });
+            expect(onClientMessage).toHaveBeenCalledTimes(1);
+        });
+
+        it("should fail outbound requests rejected by an interceptor", async () => {
+            widgetTransport.addInterceptor({
+                outboundRequest: () => {
+                    throw new Error("Not allowed");
+                },
+            });
+
+            await expect(widgetTransport.send("com.example.ping", {})).rejects.toThrow("Not allowed");
+            expect(onClientMessage).not.toHaveBeenCalled();
+        });
+
+        it("should answer inbound requests rejected by an interceptor with an error", async () => {
+            clientTransport.addInterceptor({
+                inboundRequest: () => Promise.reject(new WidgetApiResponseError("Denied", {})),
+            });
+
+            await expect(widgetTransport.send("com.example.ping", {})).rejects.toThrow(
+                new WidgetApiResponseError("Denied", {}),
+            );
+            expect(onClientMessage).not.toHaveBeenCalled();
+        });
+
+        it("should replace replies rejected by an interceptor with an error", async () => {
+            clientTransport.addInterceptor({
+                outboundResponse: () => {
+                    throw new Error("Reply blocked");
+                },
+            });
+
+            await expect(widgetTransport.send("com.example.ping", {})).rejects.toThrow("Reply blocked");
+        });
+
+        it("should let interceptors retry error responses", async () => {
+            let attempts = 0;
+            clientTransport.removeAllListeners("message");
+            clientTransport.on("message", (ev: CustomEvent<IWidgetApiRequest>) => {
+                attempts++;
+                clientTransport.reply(ev.detail, attempts < 3 ? { error: { message: "Try again" } } : { ok: true });
+            });
+            widgetTransport.addInterceptor({
+                inboundResponse: async (response) => {
+                    while (isErrorResponse(response.response)) {
+                        const retried = await widgetTransport.sendComplete(response.action, {}).catch((e) => ({
+                            response: { error: { message: e.message } },
+                        }));
+                        response.response = retried.response;
+                    }
+                },
+            });
+
+            await expect(widgetTransport.send("com.example.flaky", {})).resolves.toEqual({ ok: true });
+            expect(attempts).toBe(3);
+        });
+
+        it("should stop intercepting once removed", async () => {
+            const interceptor = { outboundRequest: jest.fn() };
+            widgetTransport.addInterceptor(interceptor);
+            widgetTransport.removeInterceptor(interceptor);
+
+            await widgetTransport.send("com.example.ping", {});
+            expect(interceptor.outboundRequest).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    CapabilityDescriber,
+    CapabilityGroup,
+    CapabilityMessage,
+    CapabilityRisk,
+    EnglishCapabilityMessages,
+    ICapabilityMessageCatalog,
+    MatrixCapabilities,
+} from "../src";
+
+const userId = "@alice:example.org";
+
+describe("CapabilityDescriber", () => {
+    const describer = new CapabilityDescriber({ userId });
+
+    function describeOne(capability: string): [string, CapabilityRisk, CapabilityGroup] {
+        const [description] = describer.describe([capability]);
+        return [description.text, description.risk, description.group];
+    }
+
+    it("should describe every known capability", () => {
+        const descriptions = describer.describe(Object.values(MatrixCapabilities));
+
+        for (const description of descriptions) {
+            expect(description.message).not.toBe(CapabilityMessage.Unknown);
+            expect(description.text).not.toMatch(/\{\w+\}/);
+        }
+    });
+
+    it("should describe event capabilities", () => {
+        expect(describeOne("org.matrix.msc2762.receive.event:m.room.message")).toEqual([
+            "Read messages in this room",
+            CapabilityRisk.Medium,
+            CapabilityGroup.Read,
+        ]);
+        expect(describeOne("m.send.event:m.room.message#m.image")).toEqual([
+            "Send images in this room on your behalf",
+            CapabilityRisk.High,
+            CapabilityGroup.Send,
+        ]);
+        expect(describeOne("org.matrix.msc2762.send.event:org.example.game")).toEqual([
+            "Send “org.example.game” events in this room on your behalf",
+            CapabilityRisk.High,
+            CapabilityGroup.Send,
+        ]);
+        expect(describeOne("org.matrix.msc2762.receive.event:org.matrix.msc3401.call.*")).toEqual([
+            "Read events starting with “org.matrix.msc3401.call.” in this room",
+            CapabilityRisk.Medium,
+            CapabilityGroup.Read,
+        ]);
+    });
+
+    it("should describe state event capabilities", () => {
+        expect(describeOne("org.matrix.msc2762.receive.state_event:m.room.member#@alice:example.org")).toEqual([
+            "See room membership for “@alice:example.org” in this room",
+            CapabilityRisk.Low,
+            CapabilityGroup.Read,
+        ]);
+        expect(
+            describeOne("org.matrix.msc2762.send.state_event:org.matrix.msc3401.call.member#_@alice:example.org_*"),
+        ).toEqual(["Send call membership in this room on your behalf", CapabilityRisk.Medium, CapabilityGroup.Send]);
+        expect(describeOne("org.matrix.msc2762.send.state_event:m.room.power_levels")).toEqual([
+            "Change room permissions in this room",
+            CapabilityRisk.High,
+            CapabilityGroup.Send,
+        ]);
+    });
+
+    it("should describe to-device and room account data capabilities", () => {
+        expect(describeOne("org.matrix.msc3819.send.to_device:io.element.call.encryption_keys")).toEqual([
+            "Send call encryption keys directly to people's devices",
+            CapabilityRisk.Medium,
+            CapabilityGroup.Devices,
+        ]);
+        expect(describeOne("com.beeper.capabilities.receive.room_account_data:m.fully_read")).toEqual([
+            "Read your private “m.fully_read” data in this room",
+            CapabilityRisk.Medium,
+            CapabilityGroup.Read,
+        ]);
+    });
+
+    it("should describe capabilities in the rooms the timeline capabilities allow", () => {
+        const descriptions = describer.describe([
+            "org.matrix.msc2762.timeline:*",
+            "org.matrix.msc2762.receive.event:m.room.message",
+        ]);
+
+        expect(descriptions.map((d) => [d.text, d.risk, d.group])).toEqual([
+            ["Use all your rooms", CapabilityRisk.High, CapabilityGroup.Rooms],
+            ["Read messages in all your rooms", CapabilityRisk.High, CapabilityGroup.Read],
+        ]);
+        expect(describer.describe(["m.timeline:!room:example.org", "m.receive.event:m.reaction"])[1].text).toBe(
+            "Read reactions in this and other allowed rooms",
+        );
+    });
+
+    it("should treat unknown capabilities as risky", () => {
+        expect(describer.describe(["org.example.unknown"])[0]).toEqual({
+            capability: "org.example.unknown",
+            message: CapabilityMessage.Unknown,
+            params: { capability: "org.example.unknown" },
+            text: "Use the unknown capability “org.example.unknown”",
+            risk: CapabilityRisk.High,
+            group: CapabilityGroup.Other,
+        });
+    });
+
+    it.each(["constructor", "toString", "__proto__", "hasOwnProperty"])(
+        "should describe capabilities named like prototype members, such as %s",
+        (name) => {
+            expect(describeOne(name)).toEqual([
+                `Use the unknown capability “${name}”`,
+                CapabilityRisk.High,
+                CapabilityGroup.Other,
+            ]);
+            expect(describeOne(`m.receive.event:${name}`)[0]).toBe(`Read “${name}” events in this room`);
+            expect(describeOne(`m.receive.event:m.room.message#${name}`)[0]).toBe(
+                `Read “${name}” messages in this room`,
+            );
+        },
+    );
+
+    it("should use the given catalog", () => {
+        const catalog: ICapabilityMessageCatalog = {
+            messages: {
+                ...EnglishCapabilityMessages.messages,
+                [CapabilityMessage.ReceiveEvent]: "Lire {events} {rooms}",
+                [CapabilityMessage.InCurrentRoom]: "dans ce salon",
+            },
+            eventTypes: { "m.room.message": "les messages" },
+            msgtypes: {},
+        };
+
+        const [description] = new CapabilityDescriber({ catalog }).describe([
+            "org.matrix.msc2762.receive.event:m.room.message",
+        ]);
+
+        expect(description.text).toBe("Lire les messages dans ce salon");
+        expect(description.params).toMatchObject({ eventType: "m.room.message", events: "les messages" });
+    });
+});
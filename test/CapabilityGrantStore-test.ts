@@ -0,0 +1,222 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Capability,
+    CapabilityGrantStore,
+    ICapabilityGrantKey,
+    IStringStorage,
+    JsonCapabilityGrantStorage,
+    MatrixCapabilities,
+    Widget,
+    WidgetDriver,
+    withCapabilityGrants,
+} from "../src";
+
+class TestDriver extends WidgetDriver {
+    public validateCapabilities = jest.fn((requested: Set<Capability>) =>
+        Promise.resolve(new Set([...requested].filter((c) => c !== MatrixCapabilities.MSC2931Navigate))),
+    );
+}
+
+class StringStorage implements IStringStorage {
+    public readonly items = new Map<string, string>();
+
+    public getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
+
+const key: ICapabilityGrantKey = {
+    widgetId: "test",
+    origin: "https://example.org",
+    creatorUserId: "@alice:example.org",
+    roomId: "!room:example.org",
+};
+
+describe("CapabilityGrantStore", () => {
+    let time: number;
+    let store: CapabilityGrantStore;
+
+    beforeEach(() => {
+        time = 1000;
+        store = new CapabilityGrantStore({ now: (): number => time });
+    });
+
+    it("should key grants by widget, origin, creator and room", async () => {
+        await store.remember(key, [MatrixCapabilities.AlwaysOnScreen], true);
+
+        expect(await store.getGrants(key)).toEqual([{ capability: MatrixCapabilities.AlwaysOnScreen, allowed: true }]);
+        expect(await store.getGrants({ ...key, origin: "https://example.net" })).toEqual([]);
+        expect(await store.getGrants({ ...key, creatorUserId: "@mallory:example.org" })).toEqual([]);
+        expect(await store.getGrants({ ...key, roomId: undefined })).toEqual([]);
+    });
+
+    it("should derive keys from widgets", () => {
+        const widget = new Widget({
+            id: "test",
+            creatorUserId: "@alice:example.org",
+            type: "m.custom",
+            url: "https://example.org/widget?foo=bar",
+        });
+
+        expect(CapabilityGrantStore.keyFor(widget, "!room:example.org")).toEqual(key);
+    });
+
+    it("should replace earlier decisions", async () => {
+        await store.remember(key, [MatrixCapabilities.AlwaysOnScreen], true);
+        await store.remember(key, [MatrixCapabilities.AlwaysOnScreen], false);
+
+        expect(await store.getGrants(key)).toEqual([{ capability: MatrixCapabilities.AlwaysOnScreen, allowed: false }]);
+    });
+
+    it("should forget expired decisions", async () => {
+        await store.remember(key, [MatrixCapabilities.AlwaysOnScreen], true, 2000);
+        expect(await store.getGrants(key)).toHaveLength(1);
+
+        time = 2000;
+        expect(await store.getGrants(key)).toEqual([]);
+    });
+
+    it("should forget decisions on request", async () => {
+        await store.remember(key, [MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.Screenshots], true);
+
+        await store.forget(key, [MatrixCapabilities.Screenshots]);
+        expect(await store.getGrants(key)).toEqual([{ capability: MatrixCapabilities.AlwaysOnScreen, allowed: true }]);
+
+        await store.forget(key);
+        expect(await store.getGrants(key)).toEqual([]);
+    });
+});
+
+describe("JsonCapabilityGrantStorage", () => {
+    it("should keep grants as JSON", async () => {
+        const strings = new StringStorage();
+        await new CapabilityGrantStore({ storage: new JsonCapabilityGrantStorage(strings) }).remember(
+            key,
+            [MatrixCapabilities.AlwaysOnScreen],
+            true,
+            5000,
+        );
+
+        // A new store over the same strings sees the same grants
+        const store = new CapabilityGrantStore({
+            storage: new JsonCapabilityGrantStorage(strings),
+            now: (): number => 0,
+        });
+        expect(await store.getGrants(key)).toEqual([
+            { capability: MatrixCapabilities.AlwaysOnScreen, allowed: true, expiresAt: 5000 },
+        ]);
+        expect([...strings.items.keys()]).toEqual([
+            'mx_widget_capability_grants_["test","https://example.org","@alice:example.org","!room:example.org"]',
+        ]);
+
+        await store.forget(key);
+        expect(strings.items.size).toBe(0);
+    });
+
+    it("should ignore unreadable grants", async () => {
+        const strings = new StringStorage();
+        const storage = new JsonCapabilityGrantStorage(strings, "");
+        strings.setItem("broken", "{");
+        strings.setItem("mixed", JSON.stringify([{ capability: "a", allowed: true }, { capability: 1 }, null]));
+
+        expect(await storage.load("broken")).toEqual([]);
+        expect(await storage.load("mixed")).toEqual([{ capability: "a", allowed: true }]);
+    });
+});
+
+describe("withCapabilityGrants", () => {
+    let time: number;
+    let store: CapabilityGrantStore;
+    let driver: TestDriver;
+    let validateCapabilities: TestDriver["validateCapabilities"];
+
+    beforeEach(() => {
+        time = 1000;
+        store = new CapabilityGrantStore({ now: (): number => time });
+        driver = new TestDriver();
+        validateCapabilities = driver.validateCapabilities;
+    });
+
+    it("should only ask the driver about undecided capabilities", async () => {
+        await store.remember(key, [MatrixCapabilities.AlwaysOnScreen], true);
+        await store.remember(key, [MatrixCapabilities.Screenshots], false);
+        withCapabilityGrants(driver, store, key);
+
+        const allowed = await driver.validateCapabilities(
+            new Set([
+                MatrixCapabilities.AlwaysOnScreen,
+                MatrixCapabilities.Screenshots,
+                MatrixCapabilities.StickerSending,
+            ]),
+        );
+
+        expect(allowed).toEqual(new Set([MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.StickerSending]));
+        expect(validateCapabilities).toHaveBeenCalledWith(new Set([MatrixCapabilities.StickerSending]));
+    });
+
+    it("should apply decisions to both spellings of a capability", async () => {
+        await store.remember(key, ["org.matrix.msc2762.send.event:org.example.test"], true);
+        withCapabilityGrants(driver, store, key);
+
+        const allowed = await driver.validateCapabilities(new Set(["m.send.event:org.example.test"]));
+
+        expect(allowed).toEqual(new Set(["m.send.event:org.example.test"]));
+        expect(validateCapabilities).not.toHaveBeenCalled();
+    });
+
+    it("should remember what the driver allowed", async () => {
+        withCapabilityGrants(driver, store, key);
+        const requested = new Set([MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.MSC2931Navigate]);
+
+        expect(await driver.validateCapabilities(requested)).toEqual(new Set([MatrixCapabilities.AlwaysOnScreen]));
+        expect(await driver.validateCapabilities(requested)).toEqual(new Set([MatrixCapabilities.AlwaysOnScreen]));
+
+        // The denied capability is asked about again
+        expect(validateCapabilities).toHaveBeenCalledTimes(2);
+        expect(validateCapabilities).toHaveBeenLastCalledWith(new Set([MatrixCapabilities.MSC2931Navigate]));
+    });
+
+    it("should remember denials and expire decisions if asked to", async () => {
+        withCapabilityGrants(driver, store, key, { rememberDenied: true, rememberFor: 500, now: (): number => time });
+        const requested = new Set([MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.MSC2931Navigate]);
+
+        await driver.validateCapabilities(requested);
+        expect(await store.getGrants(key)).toEqual([
+            { capability: MatrixCapabilities.AlwaysOnScreen, allowed: true, expiresAt: 1500 },
+            { capability: MatrixCapabilities.MSC2931Navigate, allowed: false, expiresAt: 1500 },
+        ]);
+        await driver.validateCapabilities(requested);
+        expect(validateCapabilities).toHaveBeenCalledTimes(1);
+
+        time = 1500;
+        await driver.validateCapabilities(requested);
+        expect(validateCapabilities).toHaveBeenCalledTimes(2);
+    });
+});
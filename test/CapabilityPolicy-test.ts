@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Capability,
+    CapabilityPolicy,
+    EventDirection,
+    EventKind,
+    ICapabilityPolicyContext,
+    ICapabilityPolicyResult,
+    MatrixCapabilities,
+    MatrixWidgetType,
+    PolicyOutcome,
+    Widget,
+    WidgetDriver,
+    WidgetEventCapability,
+    withCapabilityPolicy,
+} from "../src";
+
+const userId = "@alice:example.org";
+
+function context(type: string, url = "https://jitsi.example.org/widget"): ICapabilityPolicyContext {
+    return { widget: new Widget({ id: "test", creatorUserId: userId, type, url }), userId };
+}
+
+const policy = new CapabilityPolicy([
+    {
+        id: "jitsi",
+        outcome: PolicyOutcome.Allow,
+        widgetTypes: [MatrixWidgetType.JitsiMeet],
+        origins: ["https://jitsi.example.org"],
+        capabilities: [MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.MSC3846TurnServers],
+    },
+    {
+        id: "no-timelines",
+        outcome: PolicyOutcome.Deny,
+        capabilities: ["org.matrix.msc2762.timeline:*"],
+    },
+    {
+        id: "own-state",
+        outcome: PolicyOutcome.Allow,
+        events: { kind: EventKind.State, stateKeyIsUserId: true },
+    },
+    {
+        id: "to-device",
+        outcome: PolicyOutcome.Prompt,
+        capabilityPrefixes: ["org.matrix.msc3819."],
+    },
+]);
+
+describe("CapabilityPolicy", () => {
+    it("should allow capabilities for matching widgets only", () => {
+        const requested = [MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.MSC3846TurnServers];
+
+        expect(policy.evaluate(requested, context(MatrixWidgetType.JitsiMeet)).allowed).toEqual(new Set(requested));
+        expect(policy.evaluate(requested, context(MatrixWidgetType.Custom)).prompt).toEqual(new Set(requested));
+        expect(
+            policy.evaluate(requested, context(MatrixWidgetType.JitsiMeet, "https://example.net/widget")).prompt,
+        ).toEqual(new Set(requested));
+    });
+
+    it("should deny capabilities", () => {
+        const result = policy.evaluate(
+            ["org.matrix.msc2762.timeline:*", "org.matrix.msc2762.timeline:!room:example.org"],
+            context(MatrixWidgetType.Custom),
+        );
+
+        expect(result.denied).toEqual(new Set(["org.matrix.msc2762.timeline:*"]));
+        expect(result.prompt).toEqual(new Set(["org.matrix.msc2762.timeline:!room:example.org"]));
+    });
+
+    it("should match event capabilities", () => {
+        const own = WidgetEventCapability.forStateEvent(EventDirection.Send, "org.example.state", userId);
+        const other = WidgetEventCapability.forStateEvent(EventDirection.Send, "org.example.state", "@bob:example.org");
+        const any = WidgetEventCapability.forStateEvent(EventDirection.Send, "org.example.state");
+
+        const result = policy.evaluate([own, other, any.raw], context(MatrixWidgetType.Custom));
+
+        expect(result.allowed).toEqual(new Set([own.raw]));
+        expect(result.prompt).toEqual(new Set([other.raw, any.raw]));
+    });
+
+    it("should only match event type patterns when asked to", () => {
+        const strict = new CapabilityPolicy([
+            {
+                id: "reactions",
+                outcome: PolicyOutcome.Allow,
+                events: { kind: EventKind.Event, eventType: "m.reaction" },
+            },
+            {
+                id: "call-member",
+                outcome: PolicyOutcome.Allow,
+                events: { kind: EventKind.State, eventType: "org.matrix.msc3401.call.member", stateKeyIsUserId: true },
+            },
+        ]);
+        const reactions = "org.matrix.msc2762.send.event:m.reaction*";
+        const callMembers = `org.matrix.msc2762.send.state_event:org.matrix.msc3401.call.member*#${userId}`;
+
+        const result = strict.evaluate(
+            ["org.matrix.msc2762.send.event:m.reaction", reactions, callMembers],
+            context(MatrixWidgetType.Custom),
+        );
+
+        expect(result.allowed).toEqual(new Set(["org.matrix.msc2762.send.event:m.reaction"]));
+        expect(result.prompt).toEqual(new Set([reactions, callMembers]));
+        expect(result.decisions[1].trace[0]).toMatchObject({
+            matched: false,
+            reason: "Event capability is for an event type pattern",
+        });
+    });
+
+    it("should let the most restrictive outcome win", () => {
+        const strict = new CapabilityPolicy([
+            { id: "allow-all", outcome: PolicyOutcome.Allow },
+            { id: "prompt-to-device", outcome: PolicyOutcome.Prompt, events: { kind: EventKind.ToDevice } },
+            { id: "deny-screenshots", outcome: PolicyOutcome.Deny, capabilities: [MatrixCapabilities.Screenshots] },
+        ]);
+        const toDevice = WidgetEventCapability.forToDeviceEvent(EventDirection.Send, "org.example.ping").raw;
+
+        const result = strict.evaluate(
+            [MatrixCapabilities.Screenshots, toDevice, MatrixCapabilities.AlwaysOnScreen],
+            context(MatrixWidgetType.Custom),
+        );
+
+        expect(result.decisions.map((d) => [d.capability, d.outcome, d.ruleId])).toEqual([
+            [MatrixCapabilities.Screenshots, PolicyOutcome.Deny, "deny-screenshots"],
+            [toDevice, PolicyOutcome.Prompt, "prompt-to-device"],
+            [MatrixCapabilities.AlwaysOnScreen, PolicyOutcome.Allow, "allow-all"],
+        ]);
+    });
+
+    it("should match both spellings of capabilities", () => {
+        const spelled = new CapabilityPolicy([
+            { id: "allow-test", outcome: PolicyOutcome.Allow, capabilities: ["m.send.event:org.example.test"] },
+            { id: "deny-timelines", outcome: PolicyOutcome.Deny, capabilityPrefixes: ["org.matrix.msc2762.timeline:"] },
+        ]);
+
+        const result = spelled.evaluate(
+            ["org.matrix.msc2762.send.event:org.example.test", "m.timeline:*"],
+            context(MatrixWidgetType.Custom),
+        );
+
+        expect(result.allowed).toEqual(new Set(["org.matrix.msc2762.send.event:org.example.test"]));
+        expect(result.denied).toEqual(new Set(["m.timeline:*"]));
+    });
+
+    it("should use the default outcome when no rule applies", () => {
+        const closed = new CapabilityPolicy([], { defaultOutcome: PolicyOutcome.Deny });
+
+        const [decision] = closed.evaluate(
+            [MatrixCapabilities.AlwaysOnScreen],
+            context(MatrixWidgetType.Custom),
+        ).decisions;
+
+        expect(decision).toEqual({
+            capability: MatrixCapabilities.AlwaysOnScreen,
+            outcome: PolicyOutcome.Deny,
+            trace: [],
+        });
+    });
+
+    it("should trace every rule", () => {
+        const [decision] = policy.evaluate(
+            [MatrixCapabilities.AlwaysOnScreen],
+            context(MatrixWidgetType.Custom),
+        ).decisions;
+
+        expect(decision).toEqual({
+            capability: MatrixCapabilities.AlwaysOnScreen,
+            outcome: PolicyOutcome.Prompt,
+            trace: [
+                {
+                    ruleId: "jitsi",
+                    outcome: PolicyOutcome.Allow,
+                    matched: false,
+                    reason: "Widget type m.custom is not one of m.jitsi",
+                },
+                {
+                    ruleId: "no-timelines",
+                    outcome: PolicyOutcome.Deny,
+                    matched: false,
+                    reason: "Capability is not listed",
+                },
+                {
+                    ruleId: "own-state",
+                    outcome: PolicyOutcome.Allow,
+                    matched: false,
+                    reason: "Capability is not an event capability",
+                },
+                {
+                    ruleId: "to-device",
+                    outcome: PolicyOutcome.Prompt,
+                    matched: false,
+                    reason: "Capability does not start with a listed prefix",
+                },
+            ],
+        });
+    });
+});
+
+describe("withCapabilityPolicy", () => {
+    class TestDriver extends WidgetDriver {
+        public validateCapabilities = jest.fn((requested: Set<Capability>) => Promise.resolve(requested));
+    }
+
+    it("should only ask the driver about capabilities the policy prompts for", async () => {
+        const driver = new TestDriver();
+        const validateCapabilities = driver.validateCapabilities;
+        const onEvaluated = jest.fn();
+        withCapabilityPolicy(driver, policy, context(MatrixWidgetType.JitsiMeet), { onEvaluated });
+
+        const allowed = await driver.validateCapabilities(
+            new Set([
+                MatrixCapabilities.AlwaysOnScreen,
+                "org.matrix.msc2762.timeline:*",
+                MatrixCapabilities.Screenshots,
+            ]),
+        );
+
+        expect(allowed).toEqual(new Set([MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.Screenshots]));
+        expect(validateCapabilities).toHaveBeenCalledWith(new Set([MatrixCapabilities.Screenshots]));
+        const result: ICapabilityPolicyResult = onEvaluated.mock.calls[0][0];
+        expect(result.denied).toEqual(new Set(["org.matrix.msc2762.timeline:*"]));
+    });
+});
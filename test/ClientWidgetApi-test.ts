@@ -40,11 +40,15 @@ import {
     ISendToDeviceFromWidgetActionRequest,
     IUpdateDelayedEventFromWidgetActionRequest,
     IUploadFileActionFromWidgetActionRequest,
+    IWatchTurnServersRequest,
     IWidgetApiErrorResponseDataDetails,
+    IWidgetReloadedEventDetail,
+    IWidgetSessionStateChange,
     OpenIDRequestState,
     SimpleObservable,
     Symbols,
     UpdateDelayedEventAction,
+    WidgetSessionState,
 } from "../src";
 import { IGetMediaConfigActionFromWidgetActionRequest } from "../src/interfaces/GetMediaConfigAction";
 import { IReadRoomAccountDataFromWidgetActionRequest } from "../src/interfaces/ReadRoomAccountDataAction";
@@ -176,6 +180,351 @@ describe("ClientWidgetApi", () => {
         expect(clientWidgetApi.hasCapability("m.sticker")).toBe(false);
     });
 
+    describe("session state", () => {
+        let changes: IWidgetSessionStateChange[];
+
+        const contentLoaded: IWidgetApiRequest = {
+            api: WidgetApiDirection.FromWidget,
+            widgetId: "test",
+            requestId: "0",
+            action: WidgetApiFromWidgetAction.ContentLoaded,
+            data: {},
+        };
+
+        function recordChanges(): void {
+            changes = [];
+            clientWidgetApi.on("stateChanged", (ev: CustomEvent<IWidgetSessionStateChange>) => changes.push(ev.detail));
+        }
+
+        function useWidgetWaitingForContent(): void {
+            clientWidgetApi.stop();
+            clientWidgetApi = new ClientWidgetApi(
+                new Widget({
+                    id: "test",
+                    creatorUserId: "@alice:example.org",
+                    type: "example",
+                    url: "https://example.org",
+                    waitForIframeLoad: false,
+                }),
+                iframe,
+                driver,
+            );
+            transport = jest.mocked(PostmessageTransport).mock.instances[1];
+            emitEvent = jest.mocked(transport.on).mock.lastCall![1];
+            jest.mocked(transport.send).mockResolvedValue({});
+            recordChanges();
+        }
+
+        beforeEach(() => {
+            recordChanges();
+        });
+
+        it("should negotiate capabilities once the widget has loaded", async () => {
+            expect(clientWidgetApi.state).toBe(WidgetSessionState.Loading);
+
+            await loadIframe([]);
+
+            expect(clientWidgetApi.state).toBe(WidgetSessionState.Ready);
+            expect(changes).toEqual([
+                { previous: WidgetSessionState.Loading, state: WidgetSessionState.Negotiating },
+                { previous: WidgetSessionState.Negotiating, state: WidgetSessionState.Ready },
+            ]);
+        });
+
+        it("should stay stopped", () => {
+            clientWidgetApi.stop();
+            iframe.dispatchEvent(new Event("load"));
+
+            expect(clientWidgetApi.state).toBe(WidgetSessionState.Stopped);
+            expect(changes).toEqual([{ previous: WidgetSessionState.Loading, state: WidgetSessionState.Stopped }]);
+        });
+
+        it("should fail if negotiating capabilities fails", async () => {
+            const error = new Error("Validation failed");
+            driver.validateCapabilities.mockRejectedValue(error);
+            const failed = new Promise((resolve) => clientWidgetApi.once("error:preparing", resolve));
+
+            iframe.dispatchEvent(new Event("load"));
+
+            expect(await failed).toBe(error);
+            expect(clientWidgetApi.state).toBe(WidgetSessionState.Failed);
+            expect(changes[changes.length - 1]).toEqual({
+                previous: WidgetSessionState.Negotiating,
+                state: WidgetSessionState.Failed,
+                error,
+            });
+        });
+
+        it("should wait for the widget's content to load", async () => {
+            useWidgetWaitingForContent();
+            const ready = new Promise((resolve) => clientWidgetApi.once("ready", resolve));
+
+            iframe.dispatchEvent(new Event("load"));
+            expect(clientWidgetApi.state).toBe(WidgetSessionState.AwaitingContentLoaded);
+
+            emitEvent(new CustomEvent("", { detail: contentLoaded }));
+            await ready;
+
+            expect(transport.reply).toHaveBeenCalledWith(contentLoaded, {});
+            expect(clientWidgetApi.state).toBe(WidgetSessionState.Ready);
+        });
+
+        it("should accept the widget's content loading before the widget", async () => {
+            jest.useFakeTimers();
+            try {
+                useWidgetWaitingForContent();
+                jest.mocked(transport.send).mockImplementation(async (action) =>
+                    action === WidgetApiToWidgetAction.Capabilities
+                        ? { capabilities: [MatrixCapabilities.AlwaysOnScreen] }
+                        : {},
+                );
+                driver.validateCapabilities.mockResolvedValue(new Set([MatrixCapabilities.AlwaysOnScreen]));
+                const onReloaded = jest.fn();
+                clientWidgetApi.on("reloaded", onReloaded);
+                const ready = new Promise((resolve) => clientWidgetApi.once("ready", resolve));
+
+                emitEvent(new CustomEvent("", { detail: contentLoaded }));
+                await ready;
+                iframe.dispatchEvent(new Event("load"));
+                jest.advanceTimersByTime(10000);
+
+                expect(clientWidgetApi.state).toBe(WidgetSessionState.Ready);
+                expect(clientWidgetApi.hasCapability(MatrixCapabilities.AlwaysOnScreen)).toBe(true);
+                expect(onReloaded).not.toHaveBeenCalled();
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it("should reject content loading twice", async () => {
+            useWidgetWaitingForContent();
+            const ready = new Promise((resolve) => clientWidgetApi.once("ready", resolve));
+            iframe.dispatchEvent(new Event("load"));
+            emitEvent(new CustomEvent("", { detail: contentLoaded }));
+            await ready;
+
+            emitEvent(new CustomEvent("", { detail: { ...contentLoaded, requestId: "1" } }));
+
+            expect(transport.reply).toHaveBeenLastCalledWith(
+                { ...contentLoaded, requestId: "1" },
+                {
+                    error: {
+                        message:
+                            "Improper sequence: ContentLoaded Action can only be sent once after the widget loaded",
+                    },
+                },
+            );
+        });
+
+        it("should fail if the widget's content doesn't load in time", () => {
+            jest.useFakeTimers();
+            try {
+                useWidgetWaitingForContent();
+                const onError = jest.fn();
+                clientWidgetApi.on("error:preparing", onError);
+
+                iframe.dispatchEvent(new Event("load"));
+                jest.advanceTimersByTime(10000);
+
+                expect(clientWidgetApi.state).toBe(WidgetSessionState.Failed);
+                expect(onError).toHaveBeenCalled();
+
+                emitEvent(new CustomEvent("", { detail: contentLoaded }));
+                expect(transport.reply).toHaveBeenCalledWith(contentLoaded, {
+                    error: { message: "The widget session has failed" },
+                });
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe("reload", () => {
+        function reloaded(): Promise<IWidgetReloadedEventDetail> {
+            return new Promise((resolve) =>
+                clientWidgetApi.once("reloaded", (ev: CustomEvent<IWidgetReloadedEventDetail>) => resolve(ev.detail)),
+            );
+        }
+
+        function requestCapabilities(requested: Capability[]): void {
+            jest.mocked(transport.send).mockImplementation(async (action) =>
+                action === WidgetApiToWidgetAction.Capabilities ? { capabilities: requested } : {},
+            );
+        }
+
+        it("should drop capabilities and ask for them again", async () => {
+            await loadIframe([MatrixCapabilities.AlwaysOnScreen]);
+            const detail = reloaded();
+
+            await loadIframe([]);
+
+            expect(await detail).toEqual({ previousCapabilities: [MatrixCapabilities.AlwaysOnScreen] });
+            expect(clientWidgetApi.hasCapability(MatrixCapabilities.AlwaysOnScreen)).toBe(false);
+            expect(driver.validateCapabilities).toHaveBeenCalledTimes(2);
+            expect(clientWidgetApi.state).toBe(WidgetSessionState.Ready);
+        });
+
+        it("should not raise reloaded on the first load", async () => {
+            const onReloaded = jest.fn();
+            clientWidgetApi.on("reloaded", onReloaded);
+
+            await loadIframe([]);
+
+            expect(onReloaded).not.toHaveBeenCalled();
+        });
+
+        it("should stop watching TURN servers for the previous page", async () => {
+            const server = { uris: ["turn:example.org"], username: "alice", password: "secret" };
+            driver.getTurnServers = jest.fn(async function* () {
+                yield server;
+            });
+            const watch: IWatchTurnServersRequest = {
+                api: WidgetApiDirection.FromWidget,
+                widgetId: "test",
+                requestId: "0",
+                action: WidgetApiFromWidgetAction.WatchTurnServers,
+                data: {},
+            };
+
+            await loadIframe([MatrixCapabilities.MSC3846TurnServers]);
+            emitEvent(new CustomEvent("", { detail: watch }));
+            await waitFor(() => expect(transport.reply).toHaveBeenCalledWith(watch, {}));
+
+            await loadIframe([MatrixCapabilities.MSC3846TurnServers]);
+            emitEvent(new CustomEvent("", { detail: { ...watch, requestId: "1" } }));
+            await waitFor(() => expect(transport.reply).toHaveBeenCalledWith({ ...watch, requestId: "1" }, {}));
+
+            // The widget's new page gets its own watcher
+            expect(driver.getTurnServers).toHaveBeenCalledTimes(2);
+        });
+
+        it("should ask about every capability again by default", async () => {
+            requestCapabilities([MatrixCapabilities.AlwaysOnScreen]);
+            await loadIframe([MatrixCapabilities.AlwaysOnScreen]);
+
+            await loadIframe([MatrixCapabilities.AlwaysOnScreen]);
+
+            expect(driver.validateCapabilities).toHaveBeenLastCalledWith(new Set([MatrixCapabilities.AlwaysOnScreen]));
+        });
+
+        it("should allow previously approved capabilities again if asked to", async () => {
+            clientWidgetApi.stop();
+            clientWidgetApi = new ClientWidgetApi(
+                new Widget({
+                    id: "test",
+                    creatorUserId: "@alice:example.org",
+                    type: "example",
+                    url: "https://example.org",
+                }),
+                iframe,
+                driver,
+                { regrantCapabilitiesOnReload: true },
+            );
+            transport = jest.mocked(PostmessageTransport).mock.instances[1];
+            requestCapabilities([MatrixCapabilities.AlwaysOnScreen]);
+            await loadIframe([MatrixCapabilities.AlwaysOnScreen]);
+
+            requestCapabilities([MatrixCapabilities.AlwaysOnScreen, MatrixCapabilities.MSC2931Navigate]);
+            await loadIframe([MatrixCapabilities.MSC2931Navigate]);
+
+            expect(driver.validateCapabilities).toHaveBeenLastCalledWith(new Set([MatrixCapabilities.MSC2931Navigate]));
+            expect(clientWidgetApi.hasCapability(MatrixCapabilities.AlwaysOnScreen)).toBe(true);
+            expect(clientWidgetApi.hasCapability(MatrixCapabilities.MSC2931Navigate)).toBe(true);
+        });
+    });
+
+    describe("revokeCapabilities", () => {
+        it("should take capabilities away and notify the widget", async () => {
+            await loadIframe([
+                MatrixCapabilities.AlwaysOnScreen,
+                "org.matrix.msc2762.receive.state_event:m.room.topic",
+            ]);
+
+            await clientWidgetApi.revokeCapabilities(["org.matrix.msc2762.receive.state_event:m.room.topic"]);
+
+            expect(clientWidgetApi.hasCapability(MatrixCapabilities.AlwaysOnScreen)).toBe(true);
+            expect(clientWidgetApi.canReceiveStateEvent("m.room.topic", "")).toBe(false);
+            expect(transport.send).toHaveBeenLastCalledWith(WidgetApiToWidgetAction.NotifyCapabilities, {
+                requested: [],
+                approved: [MatrixCapabilities.AlwaysOnScreen],
+            });
+        });
+
+        it("should ignore capabilities the widget doesn't have", async () => {
+            await loadIframe([MatrixCapabilities.AlwaysOnScreen]);
+            jest.mocked(transport.send).mockClear();
+
+            await clientWidgetApi.revokeCapabilities([MatrixCapabilities.MSC2931Navigate]);
+
+            expect(clientWidgetApi.hasCapability(MatrixCapabilities.AlwaysOnScreen)).toBe(true);
+            expect(transport.send).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("event capability patterns", () => {
+        const pattern = "org.matrix.msc2762.receive.event:org.matrix.msc3401.call.*";
+
+        function widgetRequests(
+            capabilities: Capability[],
+            versions = [UnstableApiVersion.EventCapabilityPatterns],
+        ): void {
+            jest.mocked(transport.send).mockImplementation(async (action) => {
+                if (action === WidgetApiToWidgetAction.Capabilities) return { capabilities };
+                if (action === WidgetApiToWidgetAction.SupportedApiVersions) return { supported_versions: versions };
+                return {};
+            });
+        }
+
+        function useWidgetAllowingPatterns(): void {
+            clientWidgetApi.stop();
+            clientWidgetApi = new ClientWidgetApi(
+                new Widget({
+                    id: "test",
+                    creatorUserId: "@alice:example.org",
+                    type: "example",
+                    url: "https://example.org",
+                }),
+                iframe,
+                driver,
+                { allowEventCapabilityPatterns: true },
+            );
+            transport = jest.mocked(PostmessageTransport).mock.instances[1];
+        }
+
+        beforeEach(() => {
+            widgetRequests([MatrixCapabilities.AlwaysOnScreen, pattern]);
+            driver.validateCapabilities.mockImplementation(async (requested) => requested);
+        });
+
+        it("should deny patterns without asking the driver by default", async () => {
+            await loadIframe();
+
+            expect(driver.validateCapabilities).toHaveBeenCalledWith(new Set([MatrixCapabilities.AlwaysOnScreen]));
+            expect(clientWidgetApi.canReceiveRoomEvent("org.matrix.msc3401.call.encryption_keys")).toBe(false);
+        });
+
+        it("should grant patterns if allowed", async () => {
+            useWidgetAllowingPatterns();
+            widgetRequests([pattern]);
+
+            await loadIframe();
+
+            expect(clientWidgetApi.canReceiveRoomEvent("org.matrix.msc3401.call.encryption_keys")).toBe(true);
+            expect(clientWidgetApi.canReceiveRoomEvent("org.matrix.msc3401.other")).toBe(false);
+        });
+
+        it("should treat a trailing * literally for widgets which don't advertise patterns", async () => {
+            useWidgetAllowingPatterns();
+            widgetRequests([pattern], []);
+
+            await loadIframe();
+
+            expect(driver.validateCapabilities).toHaveBeenCalledWith(new Set([pattern]));
+            expect(clientWidgetApi.canReceiveRoomEvent("org.matrix.msc3401.call.*")).toBe(true);
+            expect(clientWidgetApi.canReceiveRoomEvent("org.matrix.msc3401.call.encryption_keys")).toBe(false);
+        });
+    });
+
     describe("navigate action", () => {
         it("navigates", async () => {
             driver.navigate.mockResolvedValue(Promise.resolve());
@@ -0,0 +1,344 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    ClientWidgetApi,
+    createLoopbackTransports,
+    InMemoryWidgetDriver,
+    IRoomEvent,
+    ISendEventToWidgetActionRequest,
+    ISendToDeviceToWidgetActionRequest,
+    IWidgetApiRequestEmptyData,
+    MatrixCapabilities,
+    Widget,
+    WidgetApi,
+    WidgetApiToWidgetAction,
+    WidgetDriverFeature,
+} from "../src";
+
+const roomId = "!room:example.org";
+
+describe("InMemoryWidgetDriver", () => {
+    let driver: InMemoryWidgetDriver;
+
+    beforeEach(() => {
+        driver = new InMemoryWidgetDriver({ userId: "@alice:example.org", deviceId: "ALICE" });
+        driver.addRoom(roomId);
+    });
+
+    afterEach(() => {
+        driver.stop();
+    });
+
+    it("should implement every feature but TURN servers unless one is configured", () => {
+        expect(driver.getFeatures()).not.toContain(WidgetDriverFeature.TurnServers);
+        expect(driver.getFeatures()).toContain(WidgetDriverFeature.DelayedEvents);
+
+        const turnServer = { uris: ["turn:example.org"], username: "user", password: "pass" };
+        expect(new InMemoryWidgetDriver({ userId: "@alice:example.org", turnServer }).getFeatures()).toContain(
+            WidgetDriverFeature.TurnServers,
+        );
+    });
+
+    it("should keep the timeline and room state", async () => {
+        await driver.sendEvent("m.room.topic", { topic: "Old" }, "", roomId);
+        await driver.sendEvent("m.room.message", { msgtype: "m.text", body: "Hello" }, null, roomId);
+        await driver.sendEvent("m.room.topic", { topic: "New" }, "", roomId);
+
+        expect(driver.getTimeline(roomId).map((e) => e.type)).toEqual([
+            "m.room.topic",
+            "m.room.message",
+            "m.room.topic",
+        ]);
+        expect(driver.getStateEvent(roomId, "m.room.topic", "")?.content).toEqual({ topic: "New" });
+        expect((await driver.readRoomState(roomId, "m.room.topic", undefined)).map((e) => e.content)).toEqual([
+            { topic: "New" },
+        ]);
+    });
+
+    it("should read the timeline newest first", async () => {
+        const first = await driver.sendEvent("m.room.message", { msgtype: "m.text", body: "1" }, null, roomId);
+        await driver.sendEvent("m.room.message", { msgtype: "m.notice", body: "2" }, null, roomId);
+        await driver.sendEvent("m.room.message", { msgtype: "m.text", body: "3" }, null, roomId);
+
+        const read = (msgtype?: string, limit = 0, since?: string): Promise<unknown[]> =>
+            driver
+                .readRoomTimeline(roomId, "m.room.message", msgtype, undefined, limit, since)
+                .then((events) => events.map((e) => e.content["body"]));
+        expect(await read()).toEqual(["3", "2", "1"]);
+        expect(await read("m.text")).toEqual(["3", "1"]);
+        expect(await read(undefined, 1)).toEqual(["3"]);
+        expect(await read(undefined, 0, first.eventId)).toEqual(["3", "2"]);
+    });
+
+    it("should send delayed events with the events grouped with them", async () => {
+        jest.useFakeTimers();
+        try {
+            const parent = await driver.sendDelayedEvent(1000, null, "org.example.parent", {}, null, roomId);
+            await driver.sendDelayedEvent(null, parent.delayId, "org.example.child", {}, null, roomId);
+            expect(driver.getDelayedEvents()).toHaveLength(2);
+
+            jest.advanceTimersByTime(500);
+            await driver.restartScheduledDelayedEvent(parent.delayId);
+            jest.advanceTimersByTime(500);
+            expect(driver.getTimeline(roomId)).toHaveLength(0);
+
+            jest.advanceTimersByTime(500);
+            expect(driver.getTimeline(roomId).map((e) => e.type)).toEqual(["org.example.parent", "org.example.child"]);
+            expect(driver.getDelayedEvents()).toHaveLength(0);
+            await expect(driver.sendScheduledDelayedEvent(parent.delayId)).rejects.toThrow("Unknown delayed event");
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it("should cancel delayed events with the events grouped with them", async () => {
+        const parent = await driver.sendDelayedEvent(1000, null, "org.example.parent", {}, null, roomId);
+        await driver.sendDelayedEvent(null, parent.delayId, "org.example.child", {}, null, roomId);
+
+        await driver.cancelScheduledDelayedEvent(parent.delayId);
+        expect(driver.getDelayedEvents()).toHaveLength(0);
+    });
+
+    it("should send sticky events", async () => {
+        await driver.sendStickyEvent(60000, "org.example.sticky", { hello: "world" }, roomId);
+        expect(driver.getTimeline(roomId)[0].msc4354_sticky).toEqual({ duration_ms: 60000 });
+    });
+
+    it("should feed sticky events with their stickiness", async () => {
+        const fed: IRoomEvent[] = [];
+        driver.attach({
+            setViewedRoomId: jest.fn(),
+            feedEvent: async (event: IRoomEvent) => {
+                fed.push({ ...event });
+            },
+        } as unknown as ClientWidgetApi);
+
+        await driver.sendStickyEvent(60000, "org.example.sticky", {}, roomId);
+        expect(fed).toEqual([expect.objectContaining({ msc4354_sticky: { duration_ms: 60000 } })]);
+    });
+
+    it("should read relations in pages", async () => {
+        const { eventId } = await driver.sendEvent("m.room.message", { body: "root" }, null, roomId);
+        for (const body of ["a", "b", "c"]) {
+            await driver.sendEvent(
+                "m.room.message",
+                { body, "m.relates_to": { rel_type: "m.thread", event_id: eventId } },
+                null,
+                roomId,
+            );
+        }
+
+        const page = await driver.readEventRelations(eventId, roomId, "m.thread", undefined, undefined, undefined, 2);
+        expect(page.chunk.map((e) => e.content["body"])).toEqual(["c", "b"]);
+        const next = await driver.readEventRelations(eventId, roomId, "m.thread", undefined, page.nextBatch);
+        expect(next.chunk.map((e) => e.content["body"])).toEqual(["a"]);
+        expect(next.nextBatch).toBeUndefined();
+    });
+
+    it("should deliver to-device messages to every device of a user", async () => {
+        driver.receiveToDevice({ type: "org.example.hello", sender: "@bob:example.org", content: {} });
+        await driver.sendToDevice("org.example.ping", false, { "@alice:example.org": { "*": { n: 1 } } });
+
+        expect(driver.getToDeviceInbox("@alice:example.org", "ALICE").map((m) => m.type)).toEqual([
+            "org.example.hello",
+            "org.example.ping",
+        ]);
+    });
+
+    it("should store uploaded media", async () => {
+        const onProgress = jest.fn();
+        const { contentUri } = await driver.uploadFile("hello", { onProgress });
+
+        expect(contentUri).toMatch(/^mxc:\/\/example\.org\//);
+        expect(onProgress).toHaveBeenCalledWith(5, 5);
+        expect(await driver.downloadFile(contentUri)).toEqual({ file: "hello" });
+    });
+
+    it("should reject uploads which are too large", async () => {
+        driver = new InMemoryWidgetDriver({ userId: "@alice:example.org", maxUploadSize: 2 });
+
+        const error = await driver.uploadFile("hello").catch((e) => e);
+        expect(driver.processError(error)).toEqual({
+            matrix_api_error: {
+                http_status: 413,
+                http_headers: {},
+                url: "",
+                response: { errcode: "M_TOO_LARGE", error: "The file is too large" },
+            },
+        });
+    });
+
+    it("should read streams into the media store", async () => {
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller): void {
+                controller.enqueue(new Uint8Array([1, 2]));
+                controller.enqueue(new Uint8Array([3]));
+                controller.close();
+            },
+        });
+
+        const { contentUri } = await driver.uploadFile(stream);
+        expect(new Uint8Array(<ArrayBuffer>driver.getMedia(contentUri))).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it("should search the user directory", async () => {
+        driver.addUser("@bob:example.org", { displayName: "Bob" });
+        driver.addUser("@carol:example.org", { displayName: "Carol" });
+
+        expect(await driver.searchUserDirectory("bob")).toEqual({
+            limited: false,
+            results: [{ userId: "@bob:example.org", displayName: "Bob" }],
+        });
+    });
+
+    describe("with a widget", () => {
+        let clientWidgetApi: ClientWidgetApi;
+        let widgetApi: WidgetApi;
+
+        beforeEach(async () => {
+            const { clientTransport, widgetTransport } = createLoopbackTransports("test");
+            clientWidgetApi = new ClientWidgetApi(
+                new Widget({
+                    id: "test",
+                    creatorUserId: "@alice:example.org",
+                    type: "m.custom",
+                    url: "https://example.org/widget",
+                }),
+                null,
+                driver,
+                { transport: clientTransport },
+            );
+            widgetApi = new WidgetApi("test", null, { transport: widgetTransport });
+            widgetApi.requestCapabilityToSendEvent("org.example.test");
+            widgetApi.requestCapabilityToReceiveEvent("org.example.test");
+            widgetApi.requestCapabilityToSendToDevice("org.example.ping");
+            widgetApi.requestCapabilityToReceiveToDevice("org.example.ping");
+            widgetApi.requestCapabilities([
+                MatrixCapabilities.MSC4039UploadFile,
+                MatrixCapabilities.MSC4039DownloadFile,
+                MatrixCapabilities.MSC4157SendDelayedEvent,
+                MatrixCapabilities.MSC4157UpdateDelayedEvent,
+            ]);
+            driver.attach(clientWidgetApi);
+            driver.viewRoom(roomId);
+
+            const ready = new Promise((resolve) => widgetApi.once("ready", resolve));
+            widgetApi.start();
+            await ready;
+        });
+
+        afterEach(() => {
+            driver.detach(clientWidgetApi);
+            clientWidgetApi.stop();
+            widgetApi.transport.stop();
+        });
+
+        it("should feed sent events back to the widget", async () => {
+            const received = jest.fn();
+            widgetApi.on(
+                `action:${WidgetApiToWidgetAction.SendEvent}`,
+                (ev: CustomEvent<ISendEventToWidgetActionRequest>) => {
+                    ev.preventDefault();
+                    received(ev.detail.data);
+                    widgetApi.transport.reply<IWidgetApiRequestEmptyData>(ev.detail, {});
+                },
+            );
+
+            const { event_id: eventId } = await widgetApi.sendRoomEvent("org.example.test", { hello: "world" });
+            await driver.flush();
+
+            expect(received).toHaveBeenCalledWith(
+                expect.objectContaining({ event_id: eventId, room_id: roomId, content: { hello: "world" } }),
+            );
+            expect(await widgetApi.readRoomEvents("org.example.test")).toEqual([
+                expect.objectContaining({ event_id: eventId }),
+            ]);
+        });
+
+        it("should feed to-device messages for this device to the widget", async () => {
+            const received = jest.fn();
+            widgetApi.on(
+                `action:${WidgetApiToWidgetAction.SendToDevice}`,
+                (ev: CustomEvent<ISendToDeviceToWidgetActionRequest>) => {
+                    ev.preventDefault();
+                    received(ev.detail.data);
+                    widgetApi.transport.reply<IWidgetApiRequestEmptyData>(ev.detail, {});
+                },
+            );
+
+            await widgetApi.sendToDevice("org.example.ping", true, {
+                "@alice:example.org": { ALICE: { n: 1 } },
+                "@bob:example.org": { BOB: { n: 2 } },
+            });
+            await driver.flush();
+
+            expect(received).toHaveBeenCalledTimes(1);
+            expect(received).toHaveBeenCalledWith(expect.objectContaining({ content: { n: 1 }, encrypted: true }));
+            expect(driver.getToDeviceInbox("@bob:example.org", "BOB")).toEqual([
+                { type: "org.example.ping", sender: "@alice:example.org", content: { n: 2 } },
+            ]);
+        });
+
+        it("should schedule and send delayed events", async () => {
+            widgetApi.on(
+                `action:${WidgetApiToWidgetAction.SendEvent}`,
+                (ev: CustomEvent<ISendEventToWidgetActionRequest>) => {
+                    ev.preventDefault();
+                    widgetApi.transport.reply<IWidgetApiRequestEmptyData>(ev.detail, {});
+                },
+            );
+
+            const { delay_id: delayId } = await widgetApi.sendRoomEvent("org.example.test", {}, undefined, 60000);
+            expect(driver.getTimeline(roomId)).toHaveLength(0);
+
+            await widgetApi.sendScheduledDelayedEvent(delayId!);
+            await driver.flush();
+            expect(driver.getTimeline(roomId).map((e) => e.type)).toEqual(["org.example.test"]);
+        });
+
+        it("should upload and download files", async () => {
+            const { content_uri: contentUri } = await widgetApi.uploadFile("hello");
+            expect(await widgetApi.downloadFile(contentUri)).toEqual({ file: "hello" });
+        });
+
+        it("should download the same file more than once", async () => {
+            const { contentUri } = await driver.uploadFile(new Uint8Array([1, 2, 3, 4]).buffer);
+
+            for (let i = 0; i < 2; i++) {
+                const { file } = await widgetApi.downloadFile(contentUri);
+                expect(new Uint8Array(<ArrayBuffer>file)).toEqual(new Uint8Array([1, 2, 3, 4]));
+            }
+            const { file } = await driver.downloadFile(contentUri);
+            expect((<ArrayBuffer>file).byteLength).toBe(4);
+        });
+
+        it("should reply with homeserver errors", async () => {
+            await expect(widgetApi.cancelScheduledDelayedEvent("unknown")).rejects.toMatchObject({
+                data: {
+                    matrix_api_error: {
+                        http_status: 404,
+                        response: { errcode: "M_NOT_FOUND", error: "Unknown delayed event" },
+                    },
+                },
+            });
+        });
+    });
+});
@@ -0,0 +1,112 @@
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    ConsoleLogger,
+    ILogger,
+    LogLevel,
+    PostmessageTransport,
+    RedactingLogger,
+    redact,
+    SilentLogger,
+    WidgetApiDirection,
+} from "../src";
+
+describe("redact", () => {
+    it("should redact sensitive fields at any depth", () => {
+        const message = {
+            action: "get_openid",
+            response: { state: "allowed", access_token: "secret", expires_in: 3600 },
+            data: { events: [{ type: "m.room.message", content: { body: "hello" } }] },
+        };
+
+        expect(redact(message)).toEqual({
+            action: "get_openid",
+            response: { state: "allowed", access_token: "<redacted>", expires_in: 3600 },
+            data: { events: [{ type: "m.room.message", content: "<redacted>" }] },
+        });
+        expect(message.response.access_token).toBe("secret");
+    });
+
+    it("should redact custom fields", () => {
+        expect(redact({ username: "alice", password: "hunter2" }, ["username"])).toEqual({
+            username: "<redacted>",
+            password: "hunter2",
+        });
+    });
+
+    it("should cope with circular structures", () => {
+        const looped: Record<string, unknown> = { password: "hunter2" };
+        looped.self = looped;
+
+        expect(redact(looped)).toEqual({ password: "<redacted>", self: "[Circular]" });
+    });
+});
+
+describe("ConsoleLogger", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should drop log lines below its level", () => {
+        const debug = jest.spyOn(console, "debug").mockImplementation(() => {});
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+        const logger = new ConsoleLogger();
+
+        logger.debug("sending", { message: {} });
+        logger.warn("failed", { error: "oops" });
+        expect(debug).not.toHaveBeenCalled();
+        expect(warn).toHaveBeenCalledWith("failed", { error: "oops" });
+
+        logger.level = LogLevel.Debug;
+        logger.debug("sending");
+        expect(debug).toHaveBeenCalledWith("sending");
+    });
+});
+
+describe("default logging", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should stay off the console unless a logger is given", () => {
+        const spies = (["debug", "info", "warn", "error"] as const).map((level) =>
+            jest.spyOn(console, level).mockImplementation(() => {}),
+        );
+        const transport = new PostmessageTransport(WidgetApiDirection.FromWidget, "test", window, window);
+
+        transport.logger.debug("sending");
+        transport.logger.warn("failed", { error: "oops" });
+        new SilentLogger().error("failed");
+
+        for (const spy of spies) expect(spy).not.toHaveBeenCalled();
+    });
+});
+
+describe("RedactingLogger", () => {
+    it("should redact fields before passing them on", () => {
+        const inner: ILogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const logger = new RedactingLogger(inner);
+
+        logger.info("turn servers", { servers: [{ username: "alice", password: "hunter2" }] });
+        logger.error("no fields");
+
+        expect(inner.info).toHaveBeenCalledWith("turn servers", {
+            servers: [{ username: "alice", password: "<redacted>" }],
+        });
+        expect(inner.error).toHaveBeenCalledWith("no fields", undefined);
+    });
+});
@@ -0,0 +1,489 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Capability,
+    ClientWidgetApi,
+    createLoopbackTransports,
+    CurrentApiVersions,
+    ICapabilitiesChangedEventDetail,
+    IClientWidgetApiOptions,
+    IRoomEvent,
+    ISendEventDetails,
+    ISendEventsToWidgetActionRequest,
+    IUploadProgress,
+    IUpdateStateToWidgetActionRequest,
+    IWidgetApiRequest,
+    MatrixCapabilities,
+    UnstableApiVersion,
+    Widget,
+    WidgetApi,
+    WidgetApiFromWidgetAction,
+    WidgetApiToWidgetAction,
+    WidgetDriver,
+} from "../src";
+
+class TestDriver extends WidgetDriver {
+    public readonly sentEvents: Array<{ eventType: string; content: unknown }> = [];
+
+    public validateCapabilities(requested: Set<Capability>): Promise<Set<Capability>> {
+        return Promise.resolve(requested);
+    }
+
+    public sendEvent(eventType: string, content: unknown): Promise<ISendEventDetails> {
+        this.sentEvents.push({ eventType, content });
+        return Promise.resolve({ roomId: "!room:example.org", eventId: `$event${this.sentEvents.length}` });
+    }
+
+    public readRoomState(): Promise<IRoomEvent[]> {
+        return Promise.resolve([]);
+    }
+
+    public getKnownRooms(): string[] {
+        return ["!room:example.org"];
+    }
+}
+
+describe("createLoopbackTransports", () => {
+    let driver: TestDriver;
+    let clientWidgetApi: ClientWidgetApi;
+    let widgetApi: WidgetApi;
+
+    function connect(options: IClientWidgetApiOptions = {}): void {
+        const { clientTransport, widgetTransport } = createLoopbackTransports("test");
+        driver = new TestDriver();
+        clientWidgetApi = new ClientWidgetApi(
+            new Widget({
+                id: "test",
+                creatorUserId: "@alice:example.org",
+                type: "m.custom",
+                url: "https://example.org/widget",
+            }),
+            null,
+            driver,
+            { ...options, transport: clientTransport },
+        );
+        widgetApi = new WidgetApi("test", null, { transport: widgetTransport });
+    }
+
+    beforeEach(() => connect());
+
+    afterEach(() => {
+        clientWidgetApi.stop();
+        widgetApi.transport.stop();
+    });
+
+    async function negotiate(): Promise<void> {
+        const ready = new Promise((resolve) => widgetApi.once("ready", resolve));
+        widgetApi.start();
+        await ready;
+    }
+
+    it("should negotiate capabilities", async () => {
+        widgetApi.requestCapabilityToSendEvent("org.example.test");
+        await negotiate();
+
+        expect(widgetApi.hasCapability("org.matrix.msc2762.send.event:org.example.test")).toBe(true);
+        expect(clientWidgetApi.canSendRoomEvent("org.example.test")).toBe(true);
+    });
+
+    it("should send events through the driver", async () => {
+        widgetApi.requestCapabilityToSendEvent("org.example.test");
+        await negotiate();
+
+        await expect(widgetApi.sendRoomEvent("org.example.test", { hello: "world" })).resolves.toEqual({
+            room_id: "!room:example.org",
+            event_id: "$event1",
+        });
+        expect(driver.sentEvents).toEqual([{ eventType: "org.example.test", content: { hello: "world" } }]);
+    });
+
+    it("should tell the client when the widget abandons a request", async () => {
+        const uploadStarted = new Promise<void>((resolve) => {
+            driver.uploadFile = jest.fn(() => {
+                resolve();
+                return new Promise<never>(() => {});
+            });
+        });
+        widgetApi.requestCapability(MatrixCapabilities.MSC4039UploadFile);
+        await negotiate();
+
+        const aborted = new Promise<IWidgetApiRequest>((resolve) =>
+            clientWidgetApi.on(`action:${WidgetApiFromWidgetAction.AbortRequest}`, (ev: CustomEvent) =>
+                resolve(ev.detail),
+            ),
+        );
+        const controller = new AbortController();
+        const upload = widgetApi.uploadFile("data", { signal: controller.signal });
+        await uploadStarted;
+        controller.abort(new Error("Cancelled"));
+
+        await expect(upload).rejects.toThrow("Cancelled");
+        expect((await aborted).data).toEqual({ request_id: expect.any(String) });
+    });
+
+    it("should push state updates to the widget", async () => {
+        widgetApi.requestCapabilityToReceiveState("m.room.topic");
+        await negotiate();
+
+        const updates = new Promise<IUpdateStateToWidgetActionRequest>((resolve) => {
+            widgetApi.on(`action:${WidgetApiToWidgetAction.UpdateState}`, (ev: CustomEvent) => {
+                ev.preventDefault();
+                widgetApi.transport.reply(ev.detail, {});
+                resolve(ev.detail);
+            });
+        });
+        const topic: IRoomEvent = {
+            type: "m.room.topic",
+            sender: "@alice:example.org",
+            state_key: "",
+            content: { topic: "Hello" },
+            origin_server_ts: 0,
+            event_id: "$topic",
+            room_id: "!room:example.org",
+            unsigned: {},
+        };
+        clientWidgetApi.setViewedRoomId("!room:example.org");
+        await clientWidgetApi.feedStateUpdate(topic);
+
+        expect((await updates).data.state).toEqual([topic]);
+    });
+
+    it("should tell the widget about revoked capabilities", async () => {
+        widgetApi.requestCapability(MatrixCapabilities.AlwaysOnScreen);
+        widgetApi.requestCapabilityToSendEvent("org.example.test");
+        await negotiate();
+        const changed = new Promise<ICapabilitiesChangedEventDetail>((resolve) =>
+            widgetApi.once("capabilitiesChanged", (ev: CustomEvent<ICapabilitiesChangedEventDetail>) =>
+                resolve(ev.detail),
+            ),
+        );
+
+        await clientWidgetApi.revokeCapabilities(["org.matrix.msc2762.send.event:org.example.test"]);
+
+        expect(await changed).toEqual({
+            approved: [MatrixCapabilities.AlwaysOnScreen],
+            granted: [],
+            // The widget asked in the stable spelling, which the client understands
+            revoked: ["m.send.event:org.example.test"],
+        });
+        expect(widgetApi.hasCapability("org.matrix.msc2762.send.event:org.example.test")).toBe(false);
+        expect(clientWidgetApi.canSendRoomEvent("org.example.test")).toBe(false);
+        await expect(widgetApi.sendRoomEvent("org.example.test", {})).rejects.toThrow(
+            "Cannot send room events of this type",
+        );
+    });
+
+    it("should track revoked capabilities when the widget handles the notification itself", async () => {
+        widgetApi.requestCapabilityToSendEvent("org.example.test");
+        await negotiate();
+        const onChanged = jest.fn();
+        widgetApi.on("capabilitiesChanged", onChanged);
+        widgetApi.on(`action:${WidgetApiToWidgetAction.NotifyCapabilities}`, (ev: CustomEvent<IWidgetApiRequest>) => {
+            ev.preventDefault();
+            widgetApi.transport.reply(ev.detail, {});
+        });
+
+        await clientWidgetApi.revokeCapabilities(["m.send.event:org.example.test"]);
+
+        expect(onChanged).toHaveBeenCalled();
+        expect(widgetApi.hasCapability("m.send.event:org.example.test")).toBe(false);
+    });
+
+    it("should not report capabilities as changed when only their spelling changes", async () => {
+        widgetApi.requestCapabilityToSendEvent("org.example.test");
+        await negotiate();
+        const onChanged = jest.fn();
+        widgetApi.on("capabilitiesChanged", onChanged);
+
+        await clientWidgetApi.transport.send(WidgetApiToWidgetAction.NotifyCapabilities, {
+            requested: [],
+            approved: ["org.matrix.msc2762.send.event:org.example.test"],
+        });
+
+        expect(onChanged).not.toHaveBeenCalled();
+        expect(widgetApi.hasCapability("m.send.event:org.example.test")).toBe(true);
+    });
+
+    describe("capability spellings", () => {
+        it("should request stable capabilities from clients which understand them", async () => {
+            widgetApi.requestCapabilityToSendEvent("org.example.test");
+            widgetApi.requestCapabilityForRoomTimeline("!room:example.org");
+            await negotiate();
+
+            expect(widgetApi.hasCapability("m.send.event:org.example.test")).toBe(true);
+            expect(widgetApi.hasCapability("org.matrix.msc2762.send.event:org.example.test")).toBe(true);
+            expect(clientWidgetApi.hasCapability("m.timeline:!room:example.org")).toBe(true);
+            expect(clientWidgetApi.canUseRoomTimeline("!room:example.org")).toBe(true);
+            expect(clientWidgetApi.canSendRoomEvent("org.example.test")).toBe(true);
+        });
+
+        it("should request unstable capabilities from other clients", async () => {
+            clientWidgetApi.on(`action:${WidgetApiFromWidgetAction.SupportedApiVersions}`, (ev: CustomEvent) => {
+                ev.preventDefault();
+                clientWidgetApi.transport.reply(ev.detail, {
+                    supported_versions: CurrentApiVersions.filter((v) => v !== UnstableApiVersion.StableCapabilities),
+                });
+            });
+            widgetApi.requestCapabilityToSendEvent("org.example.test");
+            widgetApi.requestCapabilityForRoomTimeline("!room:example.org");
+            await negotiate();
+
+            expect(clientWidgetApi.hasCapability("org.matrix.msc2762.send.event:org.example.test")).toBe(true);
+            expect(clientWidgetApi.hasCapability("org.matrix.msc2762.timeline:!room:example.org")).toBe(true);
+            expect(clientWidgetApi.canSendRoomEvent("org.example.test")).toBe(true);
+            expect(widgetApi.hasCapability("m.send.event:org.example.test")).toBe(true);
+        });
+    });
+
+    describe("event batching", () => {
+        const events = Array.from(
+            { length: 5 },
+            (_, i): IRoomEvent => ({
+                type: "org.example.test",
+                sender: "@alice:example.org",
+                content: { i },
+                origin_server_ts: i,
+                event_id: `$event${i}`,
+                room_id: "!room:example.org",
+                unsigned: {},
+            }),
+        );
+        let received: IRoomEvent[];
+        let batches: IRoomEvent[][];
+
+        async function start(options: IClientWidgetApiOptions): Promise<void> {
+            clientWidgetApi.stop();
+            widgetApi.transport.stop();
+            connect(options);
+            received = [];
+            batches = [];
+            widgetApi.on(`action:${WidgetApiToWidgetAction.SendEvent}`, (ev: CustomEvent) => {
+                ev.preventDefault();
+                received.push(ev.detail.data);
+                widgetApi.transport.reply(ev.detail, {});
+            });
+            widgetApi.on(
+                `action:${WidgetApiToWidgetAction.SendEvents}`,
+                (ev: CustomEvent<ISendEventsToWidgetActionRequest>) => batches.push(ev.detail.data.events),
+            );
+            widgetApi.requestCapabilityToReceiveEvent("org.example.test");
+            await negotiate();
+            clientWidgetApi.setViewedRoomId("!room:example.org");
+        }
+
+        it("should deliver events in order in one batch", async () => {
+            await start({ eventBatching: {} });
+
+            await Promise.all(events.map((e) => clientWidgetApi.feedEvent(e)));
+
+            expect(batches).toEqual([events]);
+            expect(received).toEqual(events);
+        });
+
+        it("should split batches at the maximum size", async () => {
+            await start({ eventBatching: { maxBatchSize: 2 } });
+
+            await Promise.all(events.map((e) => clientWidgetApi.feedEvent(e)));
+
+            expect(batches).toEqual([events.slice(0, 2), events.slice(2, 4), events.slice(4)]);
+            expect(received).toEqual(events);
+        });
+
+        it("should send events individually when not enabled", async () => {
+            await start({});
+
+            await Promise.all(events.map((e) => clientWidgetApi.feedEvent(e)));
+
+            expect(batches).toEqual([]);
+            expect(received).toEqual(events);
+        });
+
+        it("should send events individually to widgets which don't support batches", async () => {
+            await start({ eventBatching: {} });
+            widgetApi.on(`action:${WidgetApiToWidgetAction.SupportedApiVersions}`, (ev: CustomEvent) => {
+                ev.preventDefault();
+                widgetApi.transport.reply(ev.detail, {
+                    supported_versions: CurrentApiVersions.filter((v) => v !== UnstableApiVersion.BatchedEvents),
+                });
+            });
+
+            await Promise.all(events.map((e) => clientWidgetApi.feedEvent(e)));
+
+            expect(batches).toEqual([]);
+            expect(received).toEqual(events);
+        });
+
+        it("should reject pending events when stopped", async () => {
+            await start({ eventBatching: { flushInterval: 1000 } });
+
+            const delivery = clientWidgetApi.feedEvent(events[0]);
+            await new Promise((resolve) => setTimeout(resolve, 0)); // let the event be queued
+            clientWidgetApi.stop();
+
+            await expect(delivery).rejects.toThrow("stopped");
+            expect(batches).toEqual([]);
+        });
+    });
+
+    describe("transferables", () => {
+        it("should transfer uploads to the client", async () => {
+            driver.uploadFile = jest.fn().mockResolvedValue({ contentUri: "mxc://example.org/file" });
+            widgetApi.requestCapability(MatrixCapabilities.MSC4039UploadFile);
+            await negotiate();
+
+            const file = new Uint8Array([1, 2, 3]).buffer;
+            await widgetApi.uploadFile(file);
+
+            expect(file.byteLength).toBe(0); // detached
+            expect(new Uint8Array(jest.mocked(driver.uploadFile).mock.calls[0][0] as ArrayBuffer)).toEqual(
+                new Uint8Array([1, 2, 3]),
+            );
+        });
+
+        it("should copy views onto part of a buffer", async () => {
+            driver.uploadFile = jest.fn().mockResolvedValue({ contentUri: "mxc://example.org/file" });
+            widgetApi.requestCapability(MatrixCapabilities.MSC4039UploadFile);
+            await negotiate();
+
+            const buffer = new Uint8Array([1, 2, 3]).buffer;
+            await widgetApi.uploadFile(new Uint8Array(buffer, 1));
+
+            expect(buffer.byteLength).toBe(3);
+        });
+
+        it("should copy uploads when the client does not support transferables", async () => {
+            driver.uploadFile = jest.fn().mockResolvedValue({ contentUri: "mxc://example.org/file" });
+            clientWidgetApi.on(`action:${WidgetApiFromWidgetAction.SupportedApiVersions}`, (ev: CustomEvent) => {
+                ev.preventDefault();
+                clientWidgetApi.transport.reply(ev.detail, {
+                    supported_versions: CurrentApiVersions.filter((v) => v !== UnstableApiVersion.Transferables),
+                });
+            });
+            widgetApi.requestCapability(MatrixCapabilities.MSC4039UploadFile);
+            await negotiate();
+
+            const file = new Uint8Array([1, 2, 3]).buffer;
+            await widgetApi.uploadFile(file);
+
+            expect(file.byteLength).toBe(3);
+        });
+
+        it("should transfer copies of downloads to the widget", async () => {
+            const file = new Uint8Array([1, 2, 3]).buffer;
+            driver.downloadFile = jest.fn().mockResolvedValue({ file });
+            widgetApi.requestCapability(MatrixCapabilities.MSC4039DownloadFile);
+            await negotiate();
+            const reply = jest.spyOn(clientWidgetApi.transport, "reply");
+
+            const result = await widgetApi.downloadFile("mxc://example.org/file");
+
+            // The driver keeps its buffer
+            expect(file.byteLength).toBe(3);
+            expect(reply).toHaveBeenCalledWith(expect.anything(), expect.anything(), [expect.any(ArrayBuffer)]);
+            expect(new Uint8Array(result.file as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+        });
+
+        it("should transfer screenshots to the client", async () => {
+            await negotiate();
+            const screenshot = new ReadableStream<Uint8Array>({
+                start(controller): void {
+                    controller.enqueue(new Uint8Array([1, 2, 3]));
+                    controller.close();
+                },
+            });
+            widgetApi.on(`action:${WidgetApiToWidgetAction.TakeScreenshot}`, (ev: CustomEvent) => {
+                ev.preventDefault();
+                widgetApi.replyWithScreenshot(ev.detail, screenshot);
+            });
+
+            const result = await clientWidgetApi.takeScreenshot();
+
+            expect(screenshot.locked).toBe(true); // transferred
+            const reader = (result.screenshot as ReadableStream<Uint8Array>).getReader();
+            expect((await reader.read()).value).toEqual(new Uint8Array([1, 2, 3]));
+        });
+    });
+
+    describe("upload handles", () => {
+        it("should report upload progress from the driver", async () => {
+            driver.uploadFile = jest.fn(async (_file, options) => {
+                options?.onProgress?.(5, 10);
+                options?.onProgress?.(10, 10);
+                return { contentUri: "mxc://example.org/file" };
+            });
+            widgetApi.requestCapability(MatrixCapabilities.MSC4039UploadFile);
+            await negotiate();
+
+            const handle = widgetApi.startUpload("data");
+            const progress: IUploadProgress[] = [];
+            const done = new Promise<void>((resolve) =>
+                handle.on("progress", (ev: CustomEvent<IUploadProgress>) => {
+                    progress.push(ev.detail);
+                    if (ev.detail.sent === ev.detail.total) resolve();
+                }),
+            );
+
+            await expect(handle.result).resolves.toEqual({ content_uri: "mxc://example.org/file" });
+            await done;
+            expect(progress).toEqual([
+                { sent: 5, total: 10 },
+                { sent: 10, total: 10 },
+            ]);
+            expect(handle.progress).toEqual({ sent: 10, total: 10 });
+        });
+
+        it("should not ask for progress of plain uploads", async () => {
+            driver.uploadFile = jest.fn().mockResolvedValue({ contentUri: "mxc://example.org/file" });
+            widgetApi.requestCapability(MatrixCapabilities.MSC4039UploadFile);
+            await negotiate();
+
+            await widgetApi.uploadFile("data");
+
+            expect(jest.mocked(driver.uploadFile).mock.calls[0][1]?.onProgress).toBeUndefined();
+        });
+
+        it("should abort the driver's upload when cancelled", async () => {
+            let driverSignal: AbortSignal | undefined;
+            const uploadStarted = new Promise<void>((resolve) => {
+                driver.uploadFile = jest.fn((_file, options) => {
+                    driverSignal = options?.signal;
+                    resolve();
+                    return new Promise<never>((_resolve, reject) =>
+                        options?.signal?.addEventListener("abort", () => reject(options.signal!.reason)),
+                    );
+                });
+            });
+            widgetApi.requestCapability(MatrixCapabilities.MSC4039UploadFile);
+            await negotiate();
+
+            const aborted = new Promise<void>((resolve) =>
+                clientWidgetApi.on(`action:${WidgetApiFromWidgetAction.AbortRequest}`, () => resolve()),
+            );
+            const handle = widgetApi.startUpload("data");
+            await uploadStarted;
+            handle.cancel(new Error("Cancelled"));
+
+            await expect(handle.result).rejects.toThrow("Cancelled");
+            await aborted;
+            expect(driverSignal?.aborted).toBe(true);
+        });
+    });
+});
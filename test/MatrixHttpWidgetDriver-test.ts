@@ -0,0 +1,319 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    IMatrixHttpWidgetDriverOptions,
+    IOpenIDUpdate,
+    IRoomEvent,
+    MatrixHttpError,
+    MatrixHttpWidgetDriver,
+    OpenIDRequestState,
+    SimpleObservable,
+    WidgetDriverFeature,
+} from "../src";
+
+const roomId = "!room:example.org";
+
+function event(id: string, type = "m.room.message", content: Record<string, unknown> = {}): IRoomEvent {
+    return {
+        type,
+        sender: "@alice:example.org",
+        event_id: id,
+        room_id: roomId,
+        origin_server_ts: 0,
+        content,
+        unsigned: {},
+    };
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+describe("MatrixHttpWidgetDriver", () => {
+    let fetch: jest.Mock<Promise<Response>, [string, RequestInit]>;
+    let driver: MatrixHttpWidgetDriver;
+
+    function createDriver(options: Partial<IMatrixHttpWidgetDriverOptions> = {}): MatrixHttpWidgetDriver {
+        return new MatrixHttpWidgetDriver({
+            baseUrl: "https://matrix.example.org/",
+            accessToken: "token",
+            userId: "@alice:example.org",
+            defaultRoomId: roomId,
+            fetch,
+            ...options,
+        });
+    }
+
+    function lastRequest(): { url: string; init: RequestInit } {
+        const [url, init] = fetch.mock.calls[fetch.mock.calls.length - 1];
+        return { url, init };
+    }
+
+    beforeEach(() => {
+        fetch = jest.fn();
+        driver = createDriver();
+    });
+
+    it("should implement the features it has endpoints for", () => {
+        expect(driver.getFeatures()).toEqual(
+            new Set([
+                WidgetDriverFeature.DelayedEvents,
+                WidgetDriverFeature.Media,
+                WidgetDriverFeature.UserDirectory,
+                WidgetDriverFeature.EventRelations,
+            ]),
+        );
+    });
+
+    it("should send room events to the default room", async () => {
+        fetch.mockResolvedValue(json({ event_id: "$event" }));
+
+        expect(await driver.sendEvent("m.room.message", { body: "Hi" })).toEqual({ roomId, eventId: "$event" });
+        const { url, init } = lastRequest();
+        expect(url).toMatch(
+            /^https:\/\/matrix\.example\.org\/_matrix\/client\/v3\/rooms\/!room%3Aexample\.org\/send\/m\.room\.message\/.+$/,
+        );
+        expect(init.method).toBe("PUT");
+        expect(init.headers).toEqual({ "Authorization": "Bearer token", "Content-Type": "application/json" });
+        expect(init.body).toBe(JSON.stringify({ body: "Hi" }));
+    });
+
+    it("should send state events", async () => {
+        fetch.mockResolvedValue(json({ event_id: "$event" }));
+
+        await driver.sendEvent("m.room.topic", { topic: "Hello" }, "", "!other:example.org");
+        expect(lastRequest().url).toBe(
+            "https://matrix.example.org/_matrix/client/v3/rooms/!other%3Aexample.org/state/m.room.topic/",
+        );
+    });
+
+    it("should send and update delayed events", async () => {
+        fetch.mockResolvedValueOnce(json({ delay_id: "delay" })).mockResolvedValueOnce(json({}));
+
+        expect(await driver.sendDelayedEvent(1000, null, "m.room.topic", { topic: "Later" }, "")).toEqual({
+            roomId,
+            delayId: "delay",
+        });
+        expect(lastRequest().url).toBe(
+            "https://matrix.example.org/_matrix/client/v3/rooms/!room%3Aexample.org/state/m.room.topic/?org.matrix.msc4140.delay=1000",
+        );
+
+        await driver.restartScheduledDelayedEvent("delay");
+        expect(lastRequest().url).toBe(
+            "https://matrix.example.org/_matrix/client/unstable/org.matrix.msc4140/delayed_events/delay",
+        );
+        expect(lastRequest().init.body).toBe(JSON.stringify({ action: "restart" }));
+    });
+
+    it("should send unencrypted to-device messages only", async () => {
+        fetch.mockResolvedValue(json({}));
+
+        await driver.sendToDevice("org.example.ping", false, { "@bob:example.org": { BOB: { n: 1 } } });
+        expect(lastRequest().url).toMatch(/\/_matrix\/client\/v3\/sendToDevice\/org\.example\.ping\/.+$/);
+        expect(lastRequest().init.body).toBe(JSON.stringify({ messages: { "@bob:example.org": { BOB: { n: 1 } } } }));
+
+        await expect(driver.sendToDevice("org.example.ping", true, {})).rejects.toThrow(
+            "Encrypted to-device messages are not supported",
+        );
+    });
+
+    it("should paginate the timeline until the limit is reached", async () => {
+        const text = { msgtype: "m.text" };
+        fetch
+            .mockResolvedValueOnce(
+                json({
+                    chunk: [
+                        event("$4", "m.room.message", { msgtype: "m.notice" }),
+                        event("$3", "m.room.message", text),
+                    ],
+                    end: "t1",
+                }),
+            )
+            .mockResolvedValueOnce(
+                json({ chunk: [event("$2", "m.room.message", text), event("$1", "m.room.message", text)], end: "t2" }),
+            );
+
+        const events = await driver.readRoomTimeline(roomId, "m.room.message", "m.text", undefined, 2, undefined);
+        expect(events.map((e) => e.event_id)).toEqual(["$3", "$2"]);
+        expect(fetch).toHaveBeenCalledTimes(2);
+        const url = new URL(lastRequest().url);
+        expect(url.searchParams.get("from")).toBe("t1");
+        expect(url.searchParams.get("limit")).toBe("1");
+    });
+
+    it("should stop reading the timeline at the given event if it has no context", async () => {
+        fetch
+            .mockResolvedValueOnce(json({ errcode: "M_NOT_FOUND", error: "Event not found" }, 404))
+            .mockResolvedValueOnce(json({ chunk: [event("$3"), event("$2"), event("$1")], end: "t1" }));
+
+        const events = await driver.readRoomTimeline(roomId, "m.room.message", undefined, undefined, 0, "$2");
+        expect(events.map((e) => e.event_id)).toEqual(["$3"]);
+        const url = new URL(lastRequest().url);
+        expect(url.pathname).toBe("/_matrix/client/v3/rooms/!room%3Aexample.org/messages");
+        expect(url.searchParams.get("dir")).toBe("b");
+        expect(url.searchParams.get("filter")).toBe(JSON.stringify({ types: ["m.room.message"] }));
+    });
+
+    it("should ask the homeserver to stop at the given event, even of another type", async () => {
+        fetch
+            .mockResolvedValueOnce(json({ start: "before", end: "after", events_before: [], events_after: [] }))
+            .mockResolvedValueOnce(json({ chunk: [event("$3")] }));
+
+        const events = await driver.readRoomTimeline(roomId, "m.room.message", undefined, undefined, 0, "$reaction");
+        expect(events.map((e) => e.event_id)).toEqual(["$3"]);
+        expect(fetch).toHaveBeenCalledTimes(2);
+        expect(new URL(fetch.mock.calls[0][0]).pathname).toBe(
+            "/_matrix/client/v3/rooms/!room%3Aexample.org/context/%24reaction",
+        );
+        expect(new URL(lastRequest().url).searchParams.get("to")).toBe("after");
+    });
+
+    it("should stop reading the timeline after looking through enough events", async () => {
+        driver = createDriver({ maxTimelineScan: 3 });
+        fetch.mockImplementation(() => Promise.resolve(json({ chunk: [event("$2"), event("$1")], end: "t" })));
+
+        const events = await driver.readRoomTimeline(roomId, "m.room.message", "m.text", undefined, 0, undefined);
+        expect(events).toEqual([]);
+        expect(fetch).toHaveBeenCalledTimes(2);
+        expect(new URL(lastRequest().url).searchParams.get("limit")).toBe("1");
+    });
+
+    it("should read room state", async () => {
+        const topic = { ...event("$topic", "m.room.topic"), state_key: "" };
+        const member = { ...event("$member", "m.room.member"), state_key: "@alice:example.org" };
+        fetch.mockImplementation(() => Promise.resolve(json([topic, member])));
+
+        expect(await driver.readRoomState(roomId, "m.room.member", undefined)).toEqual([member]);
+        expect(new URL(lastRequest().url).pathname).toBe("/_matrix/client/v3/rooms/!room%3Aexample.org/state");
+    });
+
+    it("should read a single state event by its state key", async () => {
+        const member = { ...event("$member", "m.room.member"), state_key: "@alice:example.org" };
+        fetch
+            .mockResolvedValueOnce(json(member))
+            .mockResolvedValueOnce(json({ errcode: "M_NOT_FOUND", error: "Event not found" }, 404));
+
+        expect(await driver.readRoomState(roomId, "m.room.member", "@alice:example.org")).toEqual([member]);
+        const url = new URL(fetch.mock.calls[0][0]);
+        expect(url.pathname).toBe(
+            "/_matrix/client/v3/rooms/!room%3Aexample.org/state/m.room.member/%40alice%3Aexample.org",
+        );
+        expect(url.searchParams.get("format")).toBe("event");
+
+        expect(await driver.readRoomState(roomId, "m.room.member", "@bob:example.org")).toEqual([]);
+    });
+
+    it("should pick a single state event out of the room state from older homeservers", async () => {
+        const member = { ...event("$member", "m.room.member"), state_key: "@alice:example.org" };
+        const other = { ...event("$other", "m.room.member"), state_key: "@bob:example.org" };
+        fetch.mockResolvedValueOnce(json({ membership: "join" })).mockResolvedValueOnce(json([member, other]));
+
+        expect(await driver.readRoomState(roomId, "m.room.member", "@alice:example.org")).toEqual([member]);
+        expect(new URL(lastRequest().url).pathname).toBe("/_matrix/client/v3/rooms/!room%3Aexample.org/state");
+    });
+
+    it("should read event relations", async () => {
+        fetch.mockResolvedValue(json({ chunk: [event("$child")], next_batch: "next" }));
+
+        const result = await driver.readEventRelations(
+            "$parent",
+            undefined,
+            "m.thread",
+            undefined,
+            "from",
+            undefined,
+            5,
+        );
+        expect(result).toEqual({ chunk: [event("$child")], nextBatch: "next", prevBatch: undefined });
+        expect(lastRequest().url).toBe(
+            "https://matrix.example.org/_matrix/client/v1/rooms/!room%3Aexample.org/relations/%24parent/m.thread?from=from&limit=5",
+        );
+    });
+
+    it("should search the user directory", async () => {
+        fetch.mockResolvedValue(
+            json({ limited: true, results: [{ user_id: "@bob:example.org", display_name: "Bob" }] }),
+        );
+
+        expect(await driver.searchUserDirectory("bob", 1)).toEqual({
+            limited: true,
+            results: [{ userId: "@bob:example.org", displayName: "Bob", avatarUrl: undefined }],
+        });
+        expect(lastRequest().init.body).toBe(JSON.stringify({ search_term: "bob", limit: 1 }));
+    });
+
+    it("should upload and download media", async () => {
+        fetch.mockResolvedValueOnce(json({ content_uri: "mxc://example.org/abc" }));
+        fetch.mockResolvedValueOnce(new Response("hello"));
+
+        const file = new Blob(["hello"], { type: "text/plain" });
+        expect(await driver.uploadFile(file)).toEqual({ contentUri: "mxc://example.org/abc" });
+        expect(lastRequest().init.headers).toEqual({ "Authorization": "Bearer token", "Content-Type": "text/plain" });
+        expect(lastRequest().init.body).toBe(file);
+
+        const { file: downloaded } = await driver.downloadFile("mxc://example.org/abc");
+        expect(await (<Blob>downloaded).text()).toBe("hello");
+        expect(lastRequest().url).toBe("https://matrix.example.org/_matrix/client/v1/media/download/example.org/abc");
+    });
+
+    it("should map homeserver errors to Matrix API errors", async () => {
+        fetch.mockResolvedValue(json({ errcode: "M_LIMIT_EXCEEDED", error: "Slow down" }, 429, { "Retry-After": "5" }));
+
+        const error = await driver.getMediaConfig().catch((e) => e);
+        expect(error).toBeInstanceOf(MatrixHttpError);
+        expect(driver.processError(error)).toEqual({
+            matrix_api_error: {
+                http_status: 429,
+                http_headers: { "content-type": "application/json", "retry-after": "5" },
+                url: "https://matrix.example.org/_matrix/client/v1/media/config",
+                response: { errcode: "M_LIMIT_EXCEEDED", error: "Slow down" },
+            },
+        });
+        expect(driver.processError(new Error("Network error"))).toBeUndefined();
+    });
+
+    describe("askOpenID", () => {
+        function ask(): Promise<IOpenIDUpdate> {
+            return new Promise((resolve) => {
+                const observer = new SimpleObservable<IOpenIDUpdate>((update) => {
+                    if (update.state !== OpenIDRequestState.PendingUserConfirmation) resolve(update);
+                });
+                driver.askOpenID(observer);
+            });
+        }
+
+        it("should block requests by default", async () => {
+            expect(await ask()).toEqual({ state: OpenIDRequestState.Blocked });
+            expect(fetch).not.toHaveBeenCalled();
+        });
+
+        it("should request a token once approved", async () => {
+            const token = { access_token: "openid", token_type: "Bearer", matrix_server_name: "example.org" };
+            fetch.mockResolvedValue(json(token));
+            driver = createDriver({ approveOpenID: () => true });
+
+            expect(await ask()).toEqual({ state: OpenIDRequestState.Allowed, token });
+            expect(lastRequest().url).toBe(
+                "https://matrix.example.org/_matrix/client/v3/user/%40alice%3Aexample.org/openid/request_token",
+            );
+        });
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MessageChannelTransport } from "../src/transport/MessageChannelTransport";
+import { IRejectedMessage, MessageRejectionReason, PostmessageTransport } from "../src/transport/PostmessageTransport";
+import { IWidgetApiRequest, WidgetApiDirection, WidgetApiFromWidgetAction } from "../src";
+
+/**
+ * Stands in for a window: whatever is posted to it is dispatched on it, as
+ * coming from its peer.
+ */
+class FakeWindow extends EventTarget {
+    public peer: FakeWindow | null = null;
+    public origin = "https://example.org";
+
+    public readonly postMessage = jest.fn((message: unknown) => {
+        this.dispatchFrom(this.peer, message);
+    });
+
+    public dispatchFrom(source: FakeWindow | null, message: unknown): void {
+        const ev = new MessageEvent("message", { data: message, origin: source?.origin });
+        // jsdom only accepts real windows as sources
+        Object.defineProperty(ev, "source", { value: source });
+        setTimeout(() => this.dispatchEvent(ev));
+    }
+}
+
+describe("MessageChannelTransport", () => {
+    let widgetWindow: FakeWindow;
+    let clientWindow: FakeWindow;
+    let widgetTransport: MessageChannelTransport;
+    let clientTransport: PostmessageTransport;
+
+    function createTransports(clientSupportsChannel = true): void {
+        widgetTransport = new MessageChannelTransport(
+            WidgetApiDirection.FromWidget,
+            "test",
+            clientWindow as unknown as Window,
+            widgetWindow as unknown as Window,
+        );
+        clientTransport = clientSupportsChannel
+            ? new MessageChannelTransport(
+                  WidgetApiDirection.ToWidget,
+                  "test",
+                  widgetWindow as unknown as Window,
+                  clientWindow as unknown as Window,
+              )
+            : new PostmessageTransport(
+                  WidgetApiDirection.ToWidget,
+                  "test",
+                  widgetWindow as unknown as Window,
+                  clientWindow as unknown as Window,
+              );
+        widgetTransport.start();
+        clientTransport.start();
+    }
+
+    function echoRequests(transport: PostmessageTransport): void {
+        transport.on("message", (ev: CustomEvent<IWidgetApiRequest>) => {
+            transport.reply(ev.detail, { echo: ev.detail.data });
+        });
+    }
+
+    beforeEach(() => {
+        widgetWindow = new FakeWindow();
+        clientWindow = new FakeWindow();
+        widgetWindow.peer = clientWindow;
+        clientWindow.peer = widgetWindow;
+    });
+
+    afterEach(() => {
+        widgetTransport.stop();
+        clientTransport.stop();
+    });
+
+    it("should move traffic in both directions onto the channel", async () => {
+        createTransports();
+        echoRequests(clientTransport);
+        echoRequests(widgetTransport);
+
+        await widgetTransport.establishChannel();
+        expect(widgetTransport.channelEstablished).toBe(true);
+        expect((clientTransport as MessageChannelTransport).channelEstablished).toBe(true);
+
+        clientWindow.postMessage.mockClear();
+        widgetWindow.postMessage.mockClear();
+
+        await expect(widgetTransport.send("com.example.ping", { n: 1 })).resolves.toEqual({ echo: { n: 1 } });
+        await expect(clientTransport.send("com.example.ping", { n: 2 })).resolves.toEqual({ echo: { n: 2 } });
+        expect(clientWindow.postMessage).not.toHaveBeenCalled();
+        expect(widgetWindow.postMessage).not.toHaveBeenCalled();
+    });
+
+    it("should ignore requests arriving over the window once the channel is up", async () => {
+        createTransports();
+        await widgetTransport.establishChannel();
+
+        const onMessage = jest.fn();
+        clientTransport.on("message", onMessage);
+        clientWindow.postMessage({
+            api: WidgetApiDirection.FromWidget,
+            widgetId: "test",
+            requestId: "spoofed",
+            action: "com.example.ping",
+            data: {},
+        } satisfies IWidgetApiRequest);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it("should accept a new channel when the widget reloads", async () => {
+        createTransports();
+        echoRequests(clientTransport);
+        await widgetTransport.establishChannel();
+        widgetTransport.stop();
+
+        const reloadedTransport = new MessageChannelTransport(
+            WidgetApiDirection.FromWidget,
+            "test",
+            clientWindow as unknown as Window,
+            widgetWindow as unknown as Window,
+        );
+        widgetTransport = reloadedTransport;
+        reloadedTransport.start();
+
+        await reloadedTransport.establishChannel();
+        await expect(reloadedTransport.send("com.example.ping", {})).resolves.toEqual({ echo: {} });
+    });
+
+    it.each<[string, () => FakeWindow | null, string, MessageRejectionReason]>([
+        ["another window", (): FakeWindow => new FakeWindow(), "*", MessageRejectionReason.UnexpectedSource],
+        ["no window", (): null => null, "*", MessageRejectionReason.UnexpectedSource],
+        [
+            "another origin",
+            (): FakeWindow => widgetWindow,
+            "https://widget.example.org",
+            MessageRejectionReason.DisallowedOrigin,
+        ],
+    ])("should refuse a handshake from %s", async (_, source, targetOrigin, reason) => {
+        createTransports();
+        const onRejected = jest.fn();
+        clientTransport.on("messageRejected", (ev: CustomEvent<IRejectedMessage>) => onRejected(ev.detail.reason));
+        clientTransport.targetOrigin = targetOrigin;
+
+        const channel = new MessageChannel();
+        clientWindow.dispatchFrom(source(), {
+            api: WidgetApiDirection.FromWidget,
+            widgetId: "test",
+            requestId: "hijack",
+            action: WidgetApiFromWidgetAction.MessageChannelHandshake,
+            data: { port: channel.port2 },
+        } satisfies IWidgetApiRequest);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        channel.port1.close();
+
+        expect(onRejected).toHaveBeenCalledWith(reason);
+        expect((clientTransport as MessageChannelTransport).channelEstablished).toBe(false);
+        expect(widgetWindow.postMessage).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to postMessage if the remote end refuses the channel", async () => {
+        createTransports(false);
+        echoRequests(widgetTransport);
+        clientTransport.on("message", (ev: CustomEvent<IWidgetApiRequest>) => {
+            clientTransport.reply(ev.detail, { error: { message: "Unknown or unsupported action" } });
+        });
+
+        await expect(widgetTransport.establishChannel()).rejects.toThrow("Unknown or unsupported action");
+        expect(widgetTransport.channelEstablished).toBe(false);
+
+        await expect(clientTransport.send("com.example.ping", {})).resolves.toEqual({ echo: {} });
+        expect(clientWindow.postMessage).toHaveBeenLastCalledWith(
+            expect.objectContaining({ action: "com.example.ping", response: { echo: {} } }),
+            "*",
+            [],
+        );
+    });
+});
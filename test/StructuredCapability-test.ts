@@ -0,0 +1,273 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fc from "fast-check";
+
+import {
+    EventDirection,
+    EventKind,
+    parseCapability,
+    serializeCapability,
+    StructuredCapability,
+    UnstableApiVersion,
+    WidgetEventCapability,
+} from "../src";
+
+// Strings heavy in the characters with meaning in capabilities
+const text = fc.oneof(
+    fc.string(),
+    fc.string({ unit: fc.constantFrom("a", "m", ".", "_", ":", "@", "!", "é", "\\", "#", "*") }),
+);
+const direction = fc.constantFrom(EventDirection.Send, EventDirection.Receive);
+const stable = fc.boolean();
+
+// Any string, often starting like a structured capability
+const capabilityString = fc.oneof(
+    text,
+    fc
+        .tuple(
+            fc.constantFrom(
+                "m.send.event:",
+                "org.matrix.msc2762.receive.event:m.room.message",
+                "m.receive.state_event:",
+                "org.matrix.msc2762.send.state_event:",
+                "org.matrix.msc3819.receive.to_device:",
+                "com.beeper.capabilities.receive.room_account_data:",
+                "org.matrix.msc2762.timeline:",
+            ),
+            text,
+        )
+        .map(([prefix, rest]) => prefix + rest),
+);
+
+const roomEvent = fc.record({
+    kind: fc.constant(EventKind.Event as const),
+    direction,
+    eventType: fc.oneof(text, fc.constant("m.room.message")),
+    eventTypeIsPrefix: fc.boolean(),
+    msgtype: fc.option(text),
+    stable,
+});
+const stateEvent = fc.record({
+    kind: fc.constant(EventKind.State as const),
+    direction,
+    eventType: text,
+    eventTypeIsPrefix: fc.boolean(),
+    stateKey: fc.option(text),
+    stateKeyIsPrefix: fc.boolean(),
+    stable,
+});
+const toDevice = fc.record({
+    kind: fc.constant(EventKind.ToDevice as const),
+    direction,
+    eventType: text,
+    eventTypeIsPrefix: fc.boolean(),
+    stable,
+});
+const roomAccountData = fc.record({
+    kind: fc.constant(EventKind.RoomAccount as const),
+    direction,
+    eventType: text,
+    eventTypeIsPrefix: fc.boolean(),
+});
+const timeline = fc.record({ kind: fc.constant("timeline" as const), roomId: text, stable });
+const plain = fc.record({ kind: fc.constant("plain" as const), capability: capabilityString });
+const structured: fc.Arbitrary<StructuredCapability> = fc.oneof(
+    roomEvent,
+    stateEvent,
+    toDevice,
+    roomAccountData,
+    timeline,
+    plain,
+);
+
+// Whether any capability parses to the structured capability
+function isSpellable(capability: StructuredCapability): boolean {
+    switch (capability.kind) {
+        case EventKind.Event:
+            // Only m.room.message itself has msgtypes
+            return (
+                capability.msgtype === null ||
+                (capability.eventType === "m.room.message" && !capability.eventTypeIsPrefix)
+            );
+        case EventKind.State:
+            return capability.stateKey !== null || !capability.stateKeyIsPrefix;
+        case "plain":
+            return parseCapability(capability.capability).kind === "plain";
+        default:
+            return true;
+    }
+}
+
+describe("StructuredCapability", () => {
+    it("should parse what it serializes, and refuse to serialize anything else", () => {
+        fc.assert(
+            fc.property(structured, (capability) => {
+                if (isSpellable(capability)) {
+                    expect(parseCapability(serializeCapability(capability))).toEqual(capability);
+                } else {
+                    expect(() => serializeCapability(capability)).toThrow();
+                }
+            }),
+        );
+    });
+
+    it.each<[string, StructuredCapability]>([
+        [
+            "a msgtype for other event types",
+            {
+                kind: EventKind.Event,
+                direction: EventDirection.Send,
+                eventType: "org.example",
+                eventTypeIsPrefix: false,
+                msgtype: "text",
+                stable: true,
+            },
+        ],
+        [
+            "a msgtype for prefixes of m.room.message",
+            {
+                kind: EventKind.Event,
+                direction: EventDirection.Send,
+                eventType: "m.room.message",
+                eventTypeIsPrefix: true,
+                msgtype: "m.text",
+                stable: true,
+            },
+        ],
+        [
+            "a prefix of any state key",
+            {
+                kind: EventKind.State,
+                direction: EventDirection.Receive,
+                eventType: "m.room.member",
+                eventTypeIsPrefix: false,
+                stateKey: null,
+                stateKeyIsPrefix: true,
+                stable: false,
+            },
+        ],
+        ["a plain capability spelled like an event capability", { kind: "plain", capability: "m.send.event:m.test" }],
+    ])("should refuse to serialize %s", (_, capability) => {
+        expect(() => serializeCapability(capability)).toThrow();
+    });
+
+    it("should serialize what it parses to an equivalent capability", () => {
+        fc.assert(
+            fc.property(capabilityString, (capability) => {
+                const parsed = parseCapability(capability);
+                expect(parseCapability(serializeCapability(parsed))).toEqual(parsed);
+            }),
+        );
+    });
+
+    it("should build event capabilities which match what they were built for", () => {
+        fc.assert(
+            fc.property(direction, text, fc.option(text, { nil: undefined }), (dir, eventType, stateKey) => {
+                const cap = WidgetEventCapability.forStateEvent(dir, eventType, stateKey);
+                expect(cap.eventType).toBe(eventType);
+                expect(cap.keyStr).toBe(stateKey ?? null);
+                expect(cap.isPattern).toBe(false);
+                expect(cap.matchesAsStateEvent(dir, eventType, stateKey ?? "any")).toBe(true);
+            }),
+        );
+        fc.assert(
+            fc.property(direction, text, fc.boolean(), (dir, msgtype, isStable) => {
+                const versions = isStable ? [UnstableApiVersion.StableCapabilities] : [];
+                const cap = WidgetEventCapability.forRoomMessageEvent(dir, msgtype, versions);
+                expect(cap.matchesAsRoomEvent(dir, "m.room.message", msgtype)).toBe(true);
+                expect(cap.matchesAsRoomEvent(dir, "m.room.message", msgtype + "x")).toBe(false);
+            }),
+        );
+        fc.assert(
+            fc.property(direction, text, (dir, eventType) => {
+                expect(WidgetEventCapability.forRoomEvent(dir, eventType).matchesAsRoomEvent(dir, eventType)).toBe(
+                    true,
+                );
+                expect(
+                    WidgetEventCapability.forToDeviceEvent(dir, eventType).matchesAsToDeviceEvent(dir, eventType),
+                ).toBe(true);
+            }),
+        );
+    });
+
+    it.each<[string, StructuredCapability]>([
+        [
+            "org.matrix.msc2762.send.state_event:m.room.member#@alice:example.org",
+            {
+                kind: EventKind.State,
+                direction: EventDirection.Send,
+                eventType: "m.room.member",
+                eventTypeIsPrefix: false,
+                stateKey: "@alice:example.org",
+                stateKeyIsPrefix: false,
+                stable: false,
+            },
+        ],
+        [
+            "m.receive.event:m.room.message##m.text",
+            {
+                kind: EventKind.Event,
+                direction: EventDirection.Receive,
+                eventType: "m.room.message",
+                eventTypeIsPrefix: false,
+                msgtype: "#m.text",
+                stable: true,
+            },
+        ],
+        [
+            "org.matrix.msc2762.send.state_event:a\\#b#c\\d",
+            {
+                kind: EventKind.State,
+                direction: EventDirection.Send,
+                eventType: "a#b",
+                eventTypeIsPrefix: false,
+                // Older versions didn't escape backslashes in state keys
+                stateKey: "c\\d",
+                stateKeyIsPrefix: false,
+                stable: false,
+            },
+        ],
+        [
+            "org.matrix.msc2762.send.event:org.example#test",
+            {
+                kind: EventKind.Event,
+                direction: EventDirection.Send,
+                eventType: "org.example#test",
+                eventTypeIsPrefix: false,
+                msgtype: null,
+                stable: false,
+            },
+        ],
+        ["m.timeline:*", { kind: "timeline", roomId: "*", stable: true }],
+        [
+            "org.matrix.msc2762.send.to_device:m.test",
+            { kind: "plain", capability: "org.matrix.msc2762.send.to_device:m.test" },
+        ],
+    ])("should parse %s", (capability, expected) => {
+        expect(parseCapability(capability)).toEqual(expected);
+    });
+
+    it("should escape state keys", () => {
+        expect(WidgetEventCapability.forStateEvent(EventDirection.Send, "m.test", "a\\#*").raw).toBe(
+            "org.matrix.msc2762.send.state_event:m.test#a\\\\#\\*",
+        );
+    });
+});
@@ -26,6 +26,8 @@ import { IUserDirectorySearchFromWidgetResponseData } from "../src/interfaces/Us
 import { WidgetApiFromWidgetAction } from "../src/interfaces/WidgetApiAction";
 import { WidgetApi, WidgetApiResponseError } from "../src/WidgetApi";
 import {
+    EventDirection,
+    EventKind,
     IWidgetApiErrorResponseData,
     IWidgetApiErrorResponseDataDetails,
     IWidgetApiRequest,
@@ -850,6 +852,21 @@ describe("capabilities", () => {
             expect(widgetApi.hasCapability(capability)).toBe(true);
         }
     });
+
+    it("should request structured capabilities", () => {
+        widgetApi.requestCapability({
+            kind: EventKind.State,
+            direction: EventDirection.Receive,
+            eventType: "org.example.state",
+            eventTypeIsPrefix: false,
+            stateKey: "_@alice:example.org_",
+            stateKeyIsPrefix: true,
+            stable: false,
+        });
+        expect(
+            widgetApi.hasCapability("org.matrix.msc2762.receive.state_event:org.example.state#_@alice:example.org_*"),
+        ).toBe(true);
+    });
 });
 
 describe("postMessage", () => {
@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Capability,
+    ClientWidgetApi,
+    createLoopbackTransports,
+    IRoomEvent,
+    ISearchUserDirectoryResult,
+    MatrixCapabilities,
+    UnstableApiVersion,
+    Widget,
+    WidgetApi,
+    WidgetApiFromWidgetAction,
+    WidgetDriver,
+    WidgetDriverFeature,
+} from "../src";
+
+class TestDriver extends WidgetDriver {
+    public validateCapabilities = jest.fn((requested: Set<Capability>) => Promise.resolve(requested));
+
+    public readRoomState(): Promise<IRoomEvent[]> {
+        return Promise.resolve([]);
+    }
+}
+
+class UserDirectoryDriver extends TestDriver {
+    public searchUserDirectory(): Promise<ISearchUserDirectoryResult> {
+        return Promise.resolve({ limited: false, results: [] });
+    }
+}
+
+describe("WidgetDriver.getFeatures", () => {
+    it("should detect features from overridden functions", () => {
+        expect(new TestDriver().getFeatures()).toEqual(new Set());
+        expect(new UserDirectoryDriver().getFeatures()).toEqual(new Set([WidgetDriverFeature.UserDirectory]));
+    });
+
+    it("should detect features of drivers which don't extend WidgetDriver", () => {
+        const driver = { navigate: jest.fn() } as Partial<WidgetDriver> as WidgetDriver;
+        expect(WidgetDriver.prototype.getFeatures.call(driver)).toEqual(new Set([WidgetDriverFeature.Navigation]));
+    });
+});
+
+describe("ClientWidgetApi", () => {
+    let driver: TestDriver;
+    let clientWidgetApi: ClientWidgetApi;
+    let widgetApi: WidgetApi;
+
+    function setUp(testDriver: TestDriver): void {
+        const { clientTransport, widgetTransport } = createLoopbackTransports("test");
+        driver = testDriver;
+        clientWidgetApi = new ClientWidgetApi(
+            new Widget({
+                id: "test",
+                creatorUserId: "@alice:example.org",
+                type: "m.custom",
+                url: "https://example.org/widget",
+            }),
+            null,
+            driver,
+            { transport: clientTransport },
+        );
+        widgetApi = new WidgetApi("test", null, { transport: widgetTransport });
+    }
+
+    async function negotiate(): Promise<void> {
+        const ready = new Promise((resolve) => widgetApi.once("ready", resolve));
+        widgetApi.start();
+        await ready;
+    }
+
+    afterEach(() => {
+        clientWidgetApi.stop();
+        widgetApi.transport.stop();
+    });
+
+    it("should only advertise versions of implemented features", async () => {
+        setUp(new UserDirectoryDriver());
+        await negotiate();
+
+        const versions = await widgetApi.getClientVersions();
+        expect(versions).toContain(UnstableApiVersion.MSC3973);
+        expect(versions).not.toContain(UnstableApiVersion.MSC4039);
+        expect(versions).not.toContain(UnstableApiVersion.MSC3846);
+    });
+
+    it("should deny capabilities of missing features without asking the driver", async () => {
+        setUp(new UserDirectoryDriver());
+        widgetApi.requestCapabilities([
+            MatrixCapabilities.MSC3973UserDirectorySearch,
+            MatrixCapabilities.MSC4039UploadFile,
+            MatrixCapabilities.AlwaysOnScreen,
+        ]);
+        await negotiate();
+
+        expect(driver.validateCapabilities).toHaveBeenCalledWith(
+            new Set([MatrixCapabilities.MSC3973UserDirectorySearch, MatrixCapabilities.AlwaysOnScreen]),
+        );
+        expect(widgetApi.hasCapability(MatrixCapabilities.MSC3973UserDirectorySearch)).toBe(true);
+        expect(widgetApi.hasCapability(MatrixCapabilities.MSC4039UploadFile)).toBe(false);
+    });
+
+    it("should follow features declared by the driver", async () => {
+        const testDriver = new UserDirectoryDriver();
+        testDriver.getFeatures = (): Set<WidgetDriverFeature> => new Set();
+        setUp(testDriver);
+        widgetApi.requestCapability(MatrixCapabilities.MSC3973UserDirectorySearch);
+        await negotiate();
+
+        expect(await widgetApi.getClientVersions()).not.toContain(UnstableApiVersion.MSC3973);
+        expect(widgetApi.hasCapability(MatrixCapabilities.MSC3973UserDirectorySearch)).toBe(false);
+    });
+
+    it("should refuse actions of missing features", async () => {
+        setUp(new TestDriver());
+        await negotiate();
+
+        await expect(
+            widgetApi.transport.send(WidgetApiFromWidgetAction.MSC3869ReadRelations, { event_id: "$event" }),
+        ).rejects.toThrow(`Unknown or unsupported action: ${WidgetApiFromWidgetAction.MSC3869ReadRelations}`);
+    });
+});
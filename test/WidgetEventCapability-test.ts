@@ -0,0 +1,197 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    EventDirection,
+    EventKind,
+    getTimelineCapability,
+    getTimelineRoomIDFromCapability,
+    isTimelineCapability,
+    isTimelineCapabilityFor,
+    normalizeCapability,
+    spellCapabilityFor,
+    Symbols,
+    UnstableApiVersion,
+    WidgetEventCapability,
+} from "../src";
+
+function parse(capability: string): WidgetEventCapability {
+    return WidgetEventCapability.findEventCapabilities([capability], true)[0];
+}
+
+describe("WidgetEventCapability", () => {
+    describe("patterns", () => {
+        it("should parse event type prefixes", () => {
+            const cap = parse("org.matrix.msc2762.receive.event:org.matrix.msc3401.call.*");
+
+            expect(cap).toMatchObject({
+                kind: EventKind.Event,
+                eventType: "org.matrix.msc3401.call.",
+                eventTypeIsPrefix: true,
+                keyStrIsPrefix: false,
+                isPattern: true,
+            });
+            expect(cap.matchesAsRoomEvent(EventDirection.Receive, "org.matrix.msc3401.call.encryption_keys")).toBe(
+                true,
+            );
+            expect(cap.matchesAsRoomEvent(EventDirection.Receive, "org.matrix.msc3401.call")).toBe(false);
+            expect(cap.matchesAsRoomEvent(EventDirection.Send, "org.matrix.msc3401.call.encryption_keys")).toBe(false);
+        });
+
+        it("should match any message type for prefixes of m.room.message", () => {
+            const cap = parse("org.matrix.msc2762.send.event:m.room.*");
+
+            expect(cap.matchesAsRoomEvent(EventDirection.Send, "m.room.message", "m.text")).toBe(true);
+            expect(cap.matchesAsRoomEvent(EventDirection.Send, "m.room.message", null)).toBe(true);
+        });
+
+        it("should parse state key prefixes", () => {
+            const cap = parse(
+                "org.matrix.msc2762.send.state_event:org.matrix.msc3401.call.member#_@alice:example.org_*",
+            );
+
+            expect(cap).toMatchObject({
+                eventType: "org.matrix.msc3401.call.member",
+                keyStr: "_@alice:example.org_",
+                eventTypeIsPrefix: false,
+                keyStrIsPrefix: true,
+            });
+            expect(
+                cap.matchesAsStateEvent(
+                    EventDirection.Send,
+                    "org.matrix.msc3401.call.member",
+                    "_@alice:example.org_ABC",
+                ),
+            ).toBe(true);
+            expect(
+                cap.matchesAsStateEvent(EventDirection.Send, "org.matrix.msc3401.call.member", "_@bob:example.org_ABC"),
+            ).toBe(false);
+            expect(cap.matchesAsStateEvent(EventDirection.Send, "org.matrix.msc3401.call.member", null)).toBe(false);
+        });
+
+        it("should combine event type and state key prefixes", () => {
+            const cap = parse("org.matrix.msc2762.receive.state_event:io.element.call.*#@alice*");
+
+            expect(
+                cap.matchesAsStateEvent(EventDirection.Receive, "io.element.call.member", "@alice:example.org"),
+            ).toBe(true);
+            expect(cap.matchesAsStateEvent(EventDirection.Receive, "io.element.call.member", "@bob:example.org")).toBe(
+                false,
+            );
+        });
+
+        it("should match prefixes of to-device messages and room account data", () => {
+            const toDevice = parse("org.matrix.msc3819.send.to_device:io.element.call.*");
+            const accountData = parse("com.beeper.capabilities.receive.room_account_data:org.example.*");
+
+            expect(toDevice.matchesAsToDeviceEvent(EventDirection.Send, "io.element.call.encryption_keys")).toBe(true);
+            expect(accountData.matchesAsRoomAccountData(EventDirection.Receive, "org.example.settings")).toBe(true);
+            expect(accountData.matchesAsRoomAccountData(EventDirection.Receive, "org.other.settings")).toBe(false);
+        });
+
+        it("should match escaped and inner asterisks literally", () => {
+            const escaped = parse("org.matrix.msc2762.send.event:org.example.\\*");
+            const inner = parse("org.matrix.msc2762.send.state_event:org.example.*.type#*key\\*");
+
+            expect(escaped).toMatchObject({ eventType: "org.example.*", isPattern: false });
+            expect(escaped.matchesAsRoomEvent(EventDirection.Send, "org.example.*")).toBe(true);
+            expect(escaped.matchesAsRoomEvent(EventDirection.Send, "org.example.test")).toBe(false);
+            expect(inner).toMatchObject({ eventType: "org.example.*.type", keyStr: "*key*", isPattern: false });
+        });
+
+        it("should match a trailing asterisk literally unless patterns are allowed", () => {
+            const [eventCap, stateCap] = WidgetEventCapability.findEventCapabilities([
+                "org.matrix.msc2762.receive.event:org.example.*",
+                "org.matrix.msc2762.send.state_event:org.example.*#@alice*",
+            ]);
+
+            expect(eventCap).toMatchObject({ eventType: "org.example.*", isPattern: false });
+            expect(eventCap.matchesAsRoomEvent(EventDirection.Receive, "org.example.*")).toBe(true);
+            expect(eventCap.matchesAsRoomEvent(EventDirection.Receive, "org.example.test")).toBe(false);
+            expect(stateCap).toMatchObject({ eventType: "org.example.*", keyStr: "@alice*", isPattern: false });
+        });
+
+        it("should not make patterns of message types", () => {
+            const cap = parse("org.matrix.msc2762.send.event:m.room.message#m.*");
+
+            expect(cap).toMatchObject({ keyStr: "m.*", isPattern: false });
+            expect(cap.matchesAsRoomEvent(EventDirection.Send, "m.room.message", "m.text")).toBe(false);
+        });
+    });
+
+    describe("stable namespace", () => {
+        const stable = [UnstableApiVersion.StableCapabilities];
+
+        it.each([
+            ["org.matrix.msc2762.send.event:m.room.message#m.text", "m.send.event:m.room.message#m.text"],
+            ["org.matrix.msc2762.receive.state_event:m.room.topic#", "m.receive.state_event:m.room.topic#"],
+            ["org.matrix.msc3819.send.to_device:io.element.*", "m.send.to_device:io.element.*"],
+        ])("should parse %s and %s the same", (unstableCap, stableCap) => {
+            const { raw: unstableRaw, ...fromUnstable } = parse(unstableCap);
+            const { raw: stableRaw, ...fromStable } = parse(stableCap);
+
+            expect(fromStable).toEqual(fromUnstable);
+            expect([unstableRaw, stableRaw]).toEqual([unstableCap, stableCap]);
+            expect(normalizeCapability(unstableCap)).toBe(stableCap);
+        });
+
+        it("should build capabilities in the spelling the peer understands", () => {
+            expect(WidgetEventCapability.forRoomEvent(EventDirection.Send, "m.reaction").raw).toBe(
+                "org.matrix.msc2762.send.event:m.reaction",
+            );
+            expect(WidgetEventCapability.forRoomEvent(EventDirection.Send, "m.reaction", stable).raw).toBe(
+                "m.send.event:m.reaction",
+            );
+            expect(WidgetEventCapability.forStateEvent(EventDirection.Receive, "a#b", "c", stable).raw).toBe(
+                "m.receive.state_event:a\\#b#c",
+            );
+            expect(WidgetEventCapability.forToDeviceEvent(EventDirection.Receive, "m.test", stable).raw).toBe(
+                "m.receive.to_device:m.test",
+            );
+            expect(WidgetEventCapability.forRoomMessageEvent(EventDirection.Send, undefined, stable).raw).toBe(
+                "m.send.event:m.room.message#",
+            );
+            // Room account data has no stable spelling yet
+            expect(WidgetEventCapability.forRoomAccountData(EventDirection.Receive, "m.test").raw).toBe(
+                "com.beeper.capabilities.receive.room_account_data:m.test",
+            );
+        });
+
+        it("should respell capabilities for the peer", () => {
+            expect(spellCapabilityFor("m.send.event:m.reaction", [])).toBe("org.matrix.msc2762.send.event:m.reaction");
+            expect(spellCapabilityFor("org.matrix.msc2762.send.event:m.reaction", stable)).toBe(
+                "m.send.event:m.reaction",
+            );
+            expect(spellCapabilityFor("m.always_on_screen", stable)).toBe("m.always_on_screen");
+        });
+
+        it("should handle both spellings of timeline capabilities", () => {
+            expect(getTimelineCapability(Symbols.AnyRoom)).toBe("org.matrix.msc2762.timeline:*");
+            expect(getTimelineCapability("!room:example.org", stable)).toBe("m.timeline:!room:example.org");
+
+            for (const cap of ["org.matrix.msc2762.timeline:!room:example.org", "m.timeline:!room:example.org"]) {
+                expect(isTimelineCapability(cap)).toBe(true);
+                expect(isTimelineCapabilityFor(cap, "!room:example.org")).toBe(true);
+                expect(getTimelineRoomIDFromCapability(cap)).toBe("!room:example.org");
+            }
+            expect(isTimelineCapability("m.send.event:m.timeline")).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventDirection, WidgetEventCapability, WidgetEventCapabilityIndex } from "../src";
+
+const capabilities = WidgetEventCapability.findEventCapabilities(
+    [
+        "org.matrix.msc2762.receive.event:m.room.message#m.text",
+        "org.matrix.msc2762.receive.event:m.room.message#",
+        "org.matrix.msc2762.receive.event:m.reaction",
+        "org.matrix.msc2762.send.event:m.room.message",
+        "org.matrix.msc2762.receive.event:org.matrix.msc3401.call.*",
+        "org.matrix.msc2762.receive.state_event:m.room.topic",
+        "org.matrix.msc2762.receive.state_event:m.room.member#@alice:example.org",
+        "org.matrix.msc2762.receive.state_event:org.matrix.msc3401.call.member#_@alice:example.org_*",
+        "org.matrix.msc2762.send.state_event:m.room.name#",
+        "org.matrix.msc3819.receive.to_device:io.element.call.encryption_keys",
+        "org.matrix.msc3819.send.to_device:io.element.*",
+        "com.beeper.capabilities.receive.room_account_data:m.fully_read",
+    ],
+    true,
+);
+
+const eventTypes = [
+    "m.room.message",
+    "m.reaction",
+    "m.room.topic",
+    "m.room.member",
+    "m.room.name",
+    "org.matrix.msc3401.call.member",
+    "org.matrix.msc3401.call.encryption_keys",
+    "io.element.call.encryption_keys",
+    "m.fully_read",
+    "org.example.other",
+];
+const keys = [null, "", "m.text", "m.notice", "@alice:example.org", "@bob:example.org", "_@alice:example.org_ABC"];
+const directions = [EventDirection.Send, EventDirection.Receive];
+
+describe("WidgetEventCapabilityIndex", () => {
+    it("should match the same events as the capabilities themselves", () => {
+        const index = new WidgetEventCapabilityIndex(capabilities);
+
+        for (const direction of directions) {
+            for (const eventType of eventTypes) {
+                expect(index.matchesAsToDeviceEvent(direction, eventType)).toBe(
+                    capabilities.some((c) => c.matchesAsToDeviceEvent(direction, eventType)),
+                );
+                expect(index.matchesAsRoomAccountData(direction, eventType)).toBe(
+                    capabilities.some((c) => c.matchesAsRoomAccountData(direction, eventType)),
+                );
+                for (const key of keys) {
+                    expect([direction, eventType, key, index.matchesAsRoomEvent(direction, eventType, key)]).toEqual([
+                        direction,
+                        eventType,
+                        key,
+                        capabilities.some((c) => c.matchesAsRoomEvent(direction, eventType, key)),
+                    ]);
+                    expect([direction, eventType, key, index.matchesAsStateEvent(direction, eventType, key)]).toEqual([
+                        direction,
+                        eventType,
+                        key,
+                        capabilities.some((c) => c.matchesAsStateEvent(direction, eventType, key)),
+                    ]);
+                }
+            }
+        }
+    });
+
+    it("should remove capabilities", () => {
+        const index = new WidgetEventCapabilityIndex(capabilities);
+        expect(index.matchesAsStateEvent(EventDirection.Receive, "m.room.topic", "")).toBe(true);
+
+        index.remove((c) => c.eventType === "m.room.topic");
+
+        expect(index.matchesAsStateEvent(EventDirection.Receive, "m.room.topic", "")).toBe(false);
+        expect(index.size).toBe(capabilities.length - 1);
+        expect([...index]).toEqual(capabilities.filter((c) => c.eventType !== "m.room.topic"));
+
+        index.clear();
+        expect(index.matchesAsRoomEvent(EventDirection.Receive, "m.reaction")).toBe(false);
+    });
+
+    describe("with many capabilities", () => {
+        // Many widgets request a capability per event type they understand
+        const many = WidgetEventCapability.findEventCapabilities(
+            Array.from({ length: 1000 }, (_, i) =>
+                i % 10 === 0
+                    ? `org.matrix.msc2762.receive.event:org.example.type${i}*`
+                    : `org.matrix.msc2762.receive.event:org.example.type${i}`,
+            ),
+            true,
+        );
+        const lookups = Array.from({ length: 5000 }, (_, i) => `org.example.type${(i * 7919) % 20000}`);
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it("should match the same events as checking each capability", () => {
+            const index = new WidgetEventCapabilityIndex(many);
+
+            for (const eventType of lookups) {
+                expect([eventType, index.matchesAsRoomEvent(EventDirection.Receive, eventType)]).toEqual([
+                    eventType,
+                    many.some((c) => c.matchesAsRoomEvent(EventDirection.Receive, eventType)),
+                ]);
+            }
+        });
+
+        it("should only check capabilities with event type patterns one by one", () => {
+            const index = new WidgetEventCapabilityIndex(many);
+            const patterns = many.filter((c) => c.eventTypeIsPrefix).length;
+            // Spies record every call, so a sample of the lookups will do
+            const sample = lookups.slice(0, 500);
+            const check = jest.spyOn(WidgetEventCapability.prototype, "matchesAsRoomEvent");
+
+            for (const eventType of sample) index.matchesAsRoomEvent(EventDirection.Receive, eventType);
+            const indexChecks = check.mock.calls.length;
+            check.mockClear();
+            for (const eventType of sample) many.some((c) => c.matchesAsRoomEvent(EventDirection.Receive, eventType));
+            const scanChecks = check.mock.calls.length;
+
+            expect(indexChecks).toBeLessThanOrEqual(sample.length * patterns);
+            expect(indexChecks * 5).toBeLessThan(scanChecks);
+        });
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    IRejectedMessage,
+    IWindowMessageRoute,
+    MessageRejectionReason,
+    PostmessageTransport,
+    WidgetApiDirection,
+    WindowMessageRouter,
+} from "../src";
+
+describe("WindowMessageRouter", () => {
+    let hostWindow: EventTarget;
+    let router: WindowMessageRouter;
+
+    function createRoute(source: Window, widgetId: string | null): IWindowMessageRoute {
+        return { source, widgetId: () => widgetId, onMessage: jest.fn() };
+    }
+
+    function receive(source: Window | null, widgetId: string): void {
+        // MessageEvent only accepts ports as sources outside of browsers
+        hostWindow.dispatchEvent(Object.assign(new Event("message"), { data: { widgetId }, source }));
+    }
+
+    beforeEach(() => {
+        hostWindow = new EventTarget();
+        router = new WindowMessageRouter(hostWindow as unknown as Window);
+    });
+
+    it("should share a single listener between all routes", () => {
+        const addEventListener = jest.spyOn(hostWindow, "addEventListener");
+        const removeEventListener = jest.spyOn(hostWindow, "removeEventListener");
+        const routes = [createRoute(new EventTarget() as Window, "a"), createRoute(new EventTarget() as Window, "b")];
+
+        routes.forEach((r) => router.register(r));
+        expect(addEventListener).toHaveBeenCalledTimes(1);
+
+        routes.forEach((r) => router.unregister(r));
+        expect(removeEventListener).toHaveBeenCalledTimes(1);
+        expect(router.size).toBe(0);
+    });
+
+    it("should route messages by source window and widget ID", () => {
+        const frameA = new EventTarget() as Window;
+        const frameB = new EventTarget() as Window;
+        const widgetA = createRoute(frameA, "a");
+        const widgetB = createRoute(frameB, "b");
+        const unknownWidget = createRoute(frameB, null);
+        [widgetA, widgetB, unknownWidget].forEach((r) => router.register(r));
+
+        receive(frameA, "a");
+        expect(widgetA.onMessage).toHaveBeenCalledTimes(1);
+        expect(widgetB.onMessage).not.toHaveBeenCalled();
+        expect(unknownWidget.onMessage).not.toHaveBeenCalled();
+
+        receive(frameB, "a"); // claiming to be another widget
+        expect(widgetA.onMessage).toHaveBeenCalledTimes(1);
+        expect(widgetB.onMessage).not.toHaveBeenCalled();
+        expect(unknownWidget.onMessage).toHaveBeenCalledTimes(1);
+
+        receive(null, "b");
+        expect(widgetB.onMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop routing to unregistered routes", () => {
+        const route = createRoute(new EventTarget() as Window, "a");
+        router.register(route);
+        router.unregister(route);
+
+        receive(route.source as Window, "a");
+        expect(route.onMessage).not.toHaveBeenCalled();
+    });
+
+    it("should be shared between transports on the same window", () => {
+        const widgetWindow = new EventTarget() as Window;
+        const transports = ["a", "b"].map(
+            (id) =>
+                new PostmessageTransport(
+                    WidgetApiDirection.ToWidget,
+                    id,
+                    widgetWindow,
+                    hostWindow as unknown as Window,
+                ),
+        );
+        const shared = WindowMessageRouter.forWindow(hostWindow as unknown as Window);
+
+        transports.forEach((t) => t.start());
+        expect(shared.size).toBe(2);
+
+        transports.forEach((t) => t.stop());
+        expect(shared.size).toBe(0);
+    });
+});
+
+describe("PostmessageTransport", () => {
+    let hostWindow: EventTarget;
+    let widgetWindow: Window;
+    let transport: PostmessageTransport;
+    let onMessage: jest.Mock;
+    let onRejected: jest.Mock;
+
+    function receive(source: Window | null, origin: string, widgetId = "test"): void {
+        const data = { api: WidgetApiDirection.FromWidget, widgetId, requestId: "1", action: "com.example", data: {} };
+        hostWindow.dispatchEvent(Object.assign(new Event("message"), { data, source, origin }));
+    }
+
+    beforeEach(() => {
+        hostWindow = new EventTarget();
+        widgetWindow = new EventTarget() as Window;
+        transport = new PostmessageTransport(
+            WidgetApiDirection.ToWidget,
+            "test",
+            widgetWindow,
+            hostWindow as unknown as Window,
+        );
+        transport.strictSourceCheck = true;
+        transport.allowedOrigins = ["https://widget.example.org"];
+        transport.logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        onMessage = jest.fn();
+        onRejected = jest.fn();
+        transport.on("message", onMessage);
+        transport.on("messageRejected", (ev: CustomEvent<IRejectedMessage>) => onRejected(ev.detail));
+        transport.start();
+    });
+
+    afterEach(() => {
+        transport.stop();
+    });
+
+    it("should accept messages from the widget's window and origin", () => {
+        receive(widgetWindow, "https://widget.example.org");
+
+        expect(onMessage).toHaveBeenCalledTimes(1);
+        expect(onRejected).not.toHaveBeenCalled();
+    });
+
+    it("should reject other frames claiming to be the widget", () => {
+        receive(new EventTarget() as Window, "https://widget.example.org");
+        receive(null, "https://widget.example.org");
+
+        expect(onMessage).not.toHaveBeenCalled();
+        expect(onRejected).toHaveBeenCalledTimes(2);
+        expect(onRejected).toHaveBeenCalledWith(
+            expect.objectContaining({ reason: MessageRejectionReason.UnexpectedSource }),
+        );
+    });
+
+    it("should reject messages from origins which aren't allowed", () => {
+        receive(widgetWindow, "https://evil.example.org");
+
+        expect(onMessage).not.toHaveBeenCalled();
+        expect(onRejected).toHaveBeenCalledWith({
+            reason: MessageRejectionReason.DisallowedOrigin,
+            origin: "https://evil.example.org",
+            source: widgetWindow,
+            data: expect.objectContaining({ widgetId: "test" }),
+        });
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "events";
+import { MessageChannel, MessagePort } from "worker_threads";
+
+import {
+    Capability,
+    ClientWidgetApi,
+    IRoomEvent,
+    IWorkerEndpoint,
+    MatrixCapabilities,
+    Widget,
+    WidgetApi,
+    WidgetApiDirection,
+    WidgetDriver,
+    WorkerTransport,
+} from "../src";
+
+class TestDriver extends WidgetDriver {
+    public validateCapabilities = jest.fn((requested: Set<Capability>) => Promise.resolve(requested));
+
+    public readRoomState(): Promise<IRoomEvent[]> {
+        return Promise.resolve([]);
+    }
+}
+
+const widget = new Widget({
+    id: "test",
+    creatorUserId: "@alice:example.org",
+    type: "m.custom",
+    url: "https://example.org/widget",
+});
+
+describe("WorkerTransport", () => {
+    let ports: MessagePort[];
+    let clientWidgetApi: ClientWidgetApi | undefined;
+    let widgetApi: WidgetApi | undefined;
+
+    beforeEach(() => {
+        const channel = new MessageChannel();
+        ports = [channel.port1, channel.port2];
+        clientWidgetApi = undefined;
+        widgetApi = undefined;
+    });
+
+    afterEach(() => {
+        clientWidgetApi?.stop();
+        widgetApi?.transport.stop();
+        for (const port of ports) port.close();
+    });
+
+    function ready(api: WidgetApi): Promise<unknown> {
+        return new Promise((resolve) => api.once("ready", resolve));
+    }
+
+    it("should connect a client and a widget over message ports", async () => {
+        const driver = new TestDriver();
+        clientWidgetApi = new ClientWidgetApi(widget, null, driver, {
+            transport: new WorkerTransport(WidgetApiDirection.ToWidget, widget.id, <IWorkerEndpoint>ports[0]),
+        });
+        widgetApi = new WidgetApi(widget.id, null, {
+            transport: new WorkerTransport(WidgetApiDirection.FromWidget, widget.id, <IWorkerEndpoint>ports[1]),
+        });
+        widgetApi.requestCapability(MatrixCapabilities.AlwaysOnScreen);
+
+        const widgetReady = ready(widgetApi);
+        widgetApi.start();
+        await widgetReady;
+
+        expect(widgetApi.hasCapability(MatrixCapabilities.AlwaysOnScreen)).toBe(true);
+    });
+
+    it("should talk over endpoints which emit messages", async () => {
+        // Like a worker_threads Worker, which is an EventEmitter rather than an EventTarget
+        const endpoint = Object.assign(new EventEmitter(), { postMessage: jest.fn() });
+        const transport = new WorkerTransport(WidgetApiDirection.FromWidget, "test", endpoint);
+        transport.start();
+
+        const response = transport.send("org.example.action", {});
+        const request = endpoint.postMessage.mock.calls[0][0];
+        expect(request).toMatchObject({ api: WidgetApiDirection.FromWidget, action: "org.example.action" });
+        endpoint.emit("message", { ...request, response: { ok: true } });
+        await expect(response).resolves.toEqual({ ok: true });
+
+        transport.stop();
+        expect(endpoint.listenerCount("message")).toBe(0);
+    });
+
+    it("should wait for the lifecycle source before negotiating", async () => {
+        const driver = new TestDriver();
+        const lifecycle = new EventTarget();
+        clientWidgetApi = new ClientWidgetApi(widget, null, driver, {
+            transport: new WorkerTransport(WidgetApiDirection.ToWidget, widget.id, <IWorkerEndpoint>ports[0]),
+            lifecycle,
+        });
+        widgetApi = new WidgetApi(widget.id, null, {
+            transport: new WorkerTransport(WidgetApiDirection.FromWidget, widget.id, <IWorkerEndpoint>ports[1]),
+        });
+        widgetApi.start();
+        const widgetReady = ready(widgetApi);
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(driver.validateCapabilities).not.toHaveBeenCalled();
+
+        lifecycle.dispatchEvent(new Event("load"));
+        await widgetReady;
+        expect(driver.validateCapabilities).toHaveBeenCalled();
+    });
+});
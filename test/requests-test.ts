@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright 2026 The Matrix.org Foundation C.I.C.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *         http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Capability,
+    ClientWidgetApi,
+    createLoopbackTransports,
+    InvalidRequestError,
+    IRoomEvent,
+    IWidgetApiRequest,
+    IWidgetApiRequestData,
+    validateRequest,
+    Widget,
+    WidgetApi,
+    WidgetApiDirection,
+    WidgetApiFromWidgetAction,
+    WidgetApiToWidgetAction,
+    WidgetDriver,
+} from "../src";
+
+function request(
+    api: WidgetApiDirection,
+    action: string,
+    data: IWidgetApiRequestData | unknown = {},
+): IWidgetApiRequest {
+    return { api, action, requestId: "req", widgetId: "test", data: <IWidgetApiRequestData>data };
+}
+
+const fromWidget = (action: string, data?: unknown): IWidgetApiRequest =>
+    request(WidgetApiDirection.FromWidget, action, data);
+const toWidget = (action: string, data?: unknown): IWidgetApiRequest =>
+    request(WidgetApiDirection.ToWidget, action, data);
+
+describe("validateRequest", () => {
+    it("should accept well-formed requests", () => {
+        expect(() =>
+            validateRequest(
+                fromWidget(WidgetApiFromWidgetAction.SendEvent, { type: "m.room.message", content: { body: "hi" } }),
+            ),
+        ).not.toThrow();
+        expect(() =>
+            validateRequest(toWidget(WidgetApiToWidgetAction.UpdateVisibility, { visible: true })),
+        ).not.toThrow();
+        expect(() => validateRequest(fromWidget(WidgetApiFromWidgetAction.ContentLoaded))).not.toThrow();
+    });
+
+    it("should reject data which is not an object", () => {
+        expect(() => validateRequest(fromWidget(WidgetApiFromWidgetAction.ContentLoaded, "hello"))).toThrow(
+            new InvalidRequestError("Invalid request - data must be an object"),
+        );
+    });
+
+    it("should reject missing fields", () => {
+        expect(() => validateRequest(fromWidget(WidgetApiFromWidgetAction.SendEvent, { content: {} }))).toThrow(
+            "Invalid request - missing event type",
+        );
+    });
+
+    it("should reject fields of the wrong type", () => {
+        expect(() =>
+            validateRequest(fromWidget(WidgetApiFromWidgetAction.UpdateAlwaysOnScreen, { value: "yes" })),
+        ).toThrow("Invalid request - value must be a boolean");
+    });
+
+    it("should reject limits which are out of range", () => {
+        expect(() =>
+            validateRequest(
+                fromWidget(WidgetApiFromWidgetAction.MSC2876ReadEvents, { type: "m.room.message", limit: -1 }),
+            ),
+        ).toThrow("Invalid request - limit out of range");
+    });
+
+    it("should accept any room or a list of rooms", () => {
+        const read = (roomIds: unknown): IWidgetApiRequest =>
+            fromWidget(WidgetApiFromWidgetAction.MSC2876ReadEvents, { type: "m.room.message", room_ids: roomIds });
+
+        expect(() => validateRequest(read("*"))).not.toThrow();
+        expect(() => validateRequest(read(["!a:example.org"]))).not.toThrow();
+        expect(() => validateRequest(read("!a:example.org"))).toThrow(
+            'Invalid request - room IDs must be a list of strings or "*"',
+        );
+    });
+
+    it("should check each entry of a list", () => {
+        expect(() =>
+            validateRequest(toWidget(WidgetApiToWidgetAction.UpdateState, { state: [{ type: "m.room.topic" }] })),
+        ).toThrow("Invalid request - state contains an invalid entry: Invalid request - missing sender");
+    });
+
+    it("should validate requests against their direction", () => {
+        // send_event carries a room event towards the widget
+        expect(() =>
+            validateRequest(toWidget(WidgetApiToWidgetAction.SendEvent, { type: "m.room.message", content: {} })),
+        ).toThrow("Invalid request - missing sender");
+    });
+
+    it("should only check custom actions carry object data", () => {
+        expect(() => validateRequest(fromWidget("org.example.custom", { anything: 1 }))).not.toThrow();
+        expect(() => validateRequest(fromWidget("org.example.custom", 1))).toThrow(InvalidRequestError);
+    });
+});
+
+class TestDriver extends WidgetDriver {
+    public validateCapabilities(requested: Set<Capability>): Promise<Set<Capability>> {
+        return Promise.resolve(requested);
+    }
+
+    public readRoomState(): Promise<IRoomEvent[]> {
+        return Promise.resolve([]);
+    }
+}
+
+describe("invalid requests", () => {
+    let driver: TestDriver;
+    let clientWidgetApi: ClientWidgetApi;
+    let widgetApi: WidgetApi;
+
+    beforeEach(async () => {
+        const { clientTransport, widgetTransport } = createLoopbackTransports("test");
+        driver = new TestDriver();
+        clientWidgetApi = new ClientWidgetApi(
+            new Widget({
+                id: "test",
+                creatorUserId: "@alice:example.org",
+                type: "m.custom",
+                url: "https://example.org/widget",
+            }),
+            null,
+            driver,
+            { transport: clientTransport },
+        );
+        widgetApi = new WidgetApi("test", null, { transport: widgetTransport });
+        widgetApi.requestCapabilityToSendEvent("org.example.test");
+
+        const ready = new Promise((resolve) => widgetApi.once("ready", resolve));
+        widgetApi.start();
+        await ready;
+    });
+
+    afterEach(() => {
+        clientWidgetApi.stop();
+        widgetApi.transport.stop();
+    });
+
+    it("should be rejected by the client before reaching the driver", async () => {
+        driver.sendEvent = jest.fn();
+        const handler = jest.fn();
+        clientWidgetApi.on(`action:${WidgetApiFromWidgetAction.SendEvent}`, handler);
+
+        await expect(widgetApi.transport.send(WidgetApiFromWidgetAction.SendEvent, { content: {} })).rejects.toThrow(
+            "Invalid request - missing event type",
+        );
+        expect(handler).not.toHaveBeenCalled();
+        expect(driver.sendEvent).not.toHaveBeenCalled();
+    });
+
+    it("should be rejected by the widget", async () => {
+        const handler = jest.fn();
+        widgetApi.on(`action:${WidgetApiToWidgetAction.UpdateVisibility}`, handler);
+
+        await expect(
+            clientWidgetApi.transport.send(WidgetApiToWidgetAction.UpdateVisibility, { visible: "yes" }),
+        ).rejects.toThrow("Invalid request - visibility must be a boolean");
+        expect(handler).not.toHaveBeenCalled();
+    });
+});